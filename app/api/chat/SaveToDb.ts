@@ -1,8 +1,13 @@
 import 'server-only';
 import { createServerSupabaseClient } from '@/lib/server/server';
-import type { Attachment } from 'ai';
-import type { LanguageModelV1Source } from '@ai-sdk/provider';
-import type { ToolResult } from '@/app/chat/types/tooltypes';
+import type { Message } from 'ai';
+import type { Json } from '@/types/database';
+import {
+  MESSAGE_PARTS_VERSION,
+  getMessageText,
+  type CollectedMessage,
+  type MessagePart
+} from '@/lib/messageParts';
 
 export interface OpenAiLog {
   id: string;
@@ -11,66 +16,81 @@ export interface OpenAiLog {
   updated_at: string;
 }
 
-export const saveChatToSupbabase = async (
+// Saved before the answer is streamed, so the answer can reference it as its parent. Throws when
+// the message can't be saved, the answer would have nothing to attach to.
+export const saveUserMessage = async (
   chatSessionId: string,
   userId: string,
-  currentMessageContent: string,
-  completion: string,
-  attachments?: Attachment[],
-  reasoning?: string,
-  sources?: LanguageModelV1Source[],
-  toolInvocations?: ToolResult[]
+  userMessage: Message,
+  parentId: string | null
 ): Promise<void> => {
-  if (!chatSessionId) {
-    console.warn('Chat session ID is empty. Skipping saving chat to Supabase.');
-    return;
-  }
   const supabase = await createServerSupabaseClient();
-  try {
-    const now = new Date();
-    // Add a small delay (1 second) for the AI message
-    const aiMessageTime = new Date(now.getTime() + 1000);
+  const now = new Date().toISOString();
 
-    // Upsert the chat session
-    const { error: sessionError } = await supabase.from('chat_sessions').upsert(
-      {
-        id: chatSessionId,
-        user_id: userId,
-        updated_at: aiMessageTime.toISOString() // Use the later timestamp
-      },
+  // Upsert the chat session
+  const { error: sessionError } = await supabase
+    .from('chat_sessions')
+    .upsert(
+      { id: chatSessionId, user_id: userId, updated_at: now },
       { onConflict: 'id' }
     );
 
-    if (sessionError) throw sessionError;
+  if (sessionError) throw sessionError;
 
-    // Prepare messages data with different timestamps
-    const messagesData = [
-      {
-        chat_session_id: chatSessionId,
-        is_user_message: true,
-        content: currentMessageContent,
-        attachments: attachments ? JSON.stringify(attachments) : null,
-        created_at: now.toISOString() // User message timestamp
-      },
-      {
+  const parts: MessagePart[] = userMessage.parts ?? [
+    { type: 'text', text: userMessage.content }
+  ];
+  const attachments = userMessage.experimental_attachments ?? [];
+
+  // Stored as the parts useChat rendered, content keeps the plain text
+  const { error: messageError } = await supabase.from('chat_messages').insert({
+    id: userMessage.id,
+    chat_session_id: chatSessionId,
+    parent_id: parentId,
+    is_user_message: true,
+    content: getMessageText(parts),
+    parts: parts as Json,
+    parts_version: MESSAGE_PARTS_VERSION,
+    attachments: attachments.length > 0 ? JSON.stringify(attachments) : null,
+    created_at: now
+  });
+
+  if (messageError) throw messageError;
+};
+
+export const saveAssistantMessage = async (
+  chatSessionId: string,
+  parentId: string,
+  assistantMessage: CollectedMessage
+): Promise<void> => {
+  const supabase = await createServerSupabaseClient();
+  try {
+    const now = new Date().toISOString();
+
+    const { error: messageError } = await supabase
+      .from('chat_messages')
+      .insert({
+        // The id useChat gave the message, so the client can branch from it without reloading
+        id: assistantMessage.id,
         chat_session_id: chatSessionId,
+        parent_id: parentId,
         is_user_message: false,
-        content: completion,
-        reasoning: reasoning || null,
-        sources: sources && sources.length > 0 ? sources : null,
-        tool_invocations: toolInvocations
-          ? JSON.stringify(toolInvocations)
-          : null,
-        created_at: aiMessageTime.toISOString()
-      }
-    ];
+        content: getMessageText(assistantMessage.parts),
+        parts: assistantMessage.parts as Json,
+        parts_version: MESSAGE_PARTS_VERSION,
+        status: assistantMessage.status,
+        error: assistantMessage.error ?? null,
+        created_at: now
+      });
 
-    // Insert both messages in a single query
-    const { error: messagesError } = await supabase
-      .from('chat_messages')
-      .insert(messagesData);
+    if (messageError) throw messageError;
 
-    if (messagesError) throw messagesError;
+    const { error: sessionError } = await supabase
+      .from('chat_sessions')
+      .update({ updated_at: now })
+      .eq('id', chatSessionId);
+
+    if (sessionError) throw sessionError;
   } catch (error) {
     console.error('Error saving chat to Supabase:', error);
   }
@@ -0,0 +1,105 @@
+import 'server-only';
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { google } from '@ai-sdk/google';
+import { createServerSupabaseClient } from '@/lib/server/server';
+import { recordTokenUsage } from '@/lib/server/quota';
+import { fetchChatMessages } from '@/app/chat/[id]/fetch';
+import {
+  createTree,
+  getBranch,
+  getLatestLeaf
+} from '@/app/chat/utils/branches';
+
+// A chat is summarised again once this many messages were added since the last summary
+const RESUMMARIZE_INTERVAL = 20;
+// Only the end of a long branch is sent, the previous summary covers the rest
+const MAX_SUMMARY_MESSAGES = 30;
+const MAX_MESSAGE_LENGTH = 2000;
+
+const chatSummarySchema = z.object({
+  title: z
+    .string()
+    .describe(
+      'A short title for the conversation, at most 6 words, without quotes or a trailing period.'
+    ),
+  summary: z
+    .string()
+    .describe(
+      'One or two sentences about what the conversation is about and what was concluded so far.'
+    )
+});
+
+// Generates the title and summary after the first exchange and refreshes the summary of long chats.
+// The title is only set when the chat has none, so a later summary never replaces a manual rename.
+export async function updateChatSummary(chatSessionId: string, userId: string) {
+  try {
+    const supabase = await createServerSupabaseClient();
+    const { data: chatSession, error: sessionError } = await supabase
+      .from('chat_sessions')
+      .select('chat_title, chat_summary, summary_message_count')
+      .eq('id', chatSessionId)
+      .single();
+
+    if (sessionError) throw sessionError;
+
+    const messages = await fetchChatMessages(chatSessionId);
+    if (
+      chatSession.summary_message_count > 0 &&
+      messages.length - chatSession.summary_message_count < RESUMMARIZE_INTERVAL
+    ) {
+      return;
+    }
+
+    const tree = createTree(messages);
+    const leafId = getLatestLeaf(tree);
+    if (!leafId) return;
+
+    const transcript = getBranch(tree, leafId)
+      .slice(-MAX_SUMMARY_MESSAGES)
+      .map(
+        (message) =>
+          `${message.role === 'user' ? 'User' : 'Assistant'}: ${message.content.slice(0, MAX_MESSAGE_LENGTH)}`
+      )
+      .join('\n\n');
+
+    const { object, usage, response } = await generateObject({
+      model: google('gemini-2.0-flash-001'),
+      system:
+        'Write a title and a short summary for the conversation below. Use the language of the conversation.',
+      prompt: chatSession.chat_summary
+        ? `Summary of the earlier conversation: ${chatSession.chat_summary}\n\n${transcript}`
+        : transcript,
+      schema: chatSummarySchema,
+      abortSignal: AbortSignal.timeout(15000), // 15 seconds timeout
+      temperature: 0,
+      experimental_telemetry: {
+        isEnabled: true,
+        functionId: 'chat_summary',
+        metadata: {
+          userId,
+          chatId: chatSessionId
+        }
+      }
+    });
+
+    await recordTokenUsage(userId, 'chat', {
+      usage,
+      model: response.modelId,
+      chatSessionId
+    });
+
+    const { error: updateError } = await supabase
+      .from('chat_sessions')
+      .update({
+        ...(chatSession.chat_title === null && { chat_title: object.title }),
+        chat_summary: object.summary,
+        summary_message_count: messages.length
+      })
+      .eq('id', chatSessionId);
+
+    if (updateError) throw updateError;
+  } catch (error) {
+    console.error('Error updating chat summary:', error);
+  }
+}
@@ -0,0 +1,37 @@
+import { z } from 'zod';
+import { apiRoute, jsonError } from '@/lib/server/apiRoute';
+import { createExportFile, loadChatExport } from '@/lib/server/chatExport';
+
+export const dynamic = 'force-dynamic';
+
+const exportQuerySchema = z.object({
+  chatId: z.string().uuid(),
+  format: z.enum(['markdown', 'print', 'json'])
+});
+
+// Downloads a chat as Markdown or JSON, or opens it as a page to print or save as PDF.
+// A GET with query parameters, so the sidebar can link to it.
+export const GET = apiRoute(
+  { rateLimit: 'export', deferRateLimit: true },
+  async (req, { session, chargeRateLimit }) => {
+    const query = exportQuerySchema.safeParse(
+      Object.fromEntries(req.nextUrl.searchParams)
+    );
+    if (!query.success) {
+      return jsonError('Invalid query parameters', 400, {
+        issues: query.error.issues
+      });
+    }
+
+    const chatExport = await loadChatExport(query.data.chatId, session.id);
+    if (!chatExport) {
+      return jsonError('Chat not found', 404);
+    }
+
+    const limited = await chargeRateLimit();
+    if (limited) return limited;
+
+    const { body, headers } = createExportFile(chatExport, query.data.format);
+    return new Response(body, { headers });
+  }
+);
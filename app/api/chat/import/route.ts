@@ -0,0 +1,20 @@
+import { NextResponse } from 'next/server';
+import { apiRoute } from '@/lib/server/apiRoute';
+import {
+  MAX_IMPORT_FILE_BYTES,
+  chatImportSchema,
+  importChats
+} from '@/lib/server/chatImport';
+
+export const dynamic = 'force-dynamic';
+
+// Imports a JSON export of this app, a ChatGPT or Claude data export or a plain message list as new chats
+export const POST = apiRoute(
+  {
+    body: chatImportSchema,
+    maxBodyBytes: MAX_IMPORT_FILE_BYTES,
+    rateLimit: 'import'
+  },
+  async (_req, { session, body }) =>
+    NextResponse.json(await importChats(session.id, body))
+);
@@ -1,33 +1,87 @@
-import { type NextRequest, NextResponse } from 'next/server';
 import type { Message, Attachment } from 'ai';
-import { streamText, convertToCoreMessages } from 'ai';
-import { saveChatToSupbabase } from './SaveToDb';
-import { Ratelimit } from '@upstash/ratelimit';
-import type { OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
-import { openai } from '@ai-sdk/openai';
-import type { AnthropicProviderOptions } from '@ai-sdk/anthropic';
-import { anthropic } from '@ai-sdk/anthropic';
-import { redis } from '@/lib/server/server';
-import { getSession } from '@/lib/server/supabase';
+import {
+  streamText,
+  convertToCoreMessages,
+  createDataStreamResponse
+} from 'ai';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import { after } from 'next/server';
+import { saveAssistantMessage, saveUserMessage } from './SaveToDb';
+import { collectMessage } from '@/lib/messageParts';
+import { updateChatSummary } from './chatSummary';
+import { fetchChatMessages } from '@/app/chat/[id]/fetch';
+import { createTree, getBranch } from '@/app/chat/utils/branches';
+import { apiRoute, jsonError } from '@/lib/server/apiRoute';
+import { recordTokenUsage, type QuotaEndpoint } from '@/lib/server/quota';
+import { getLanguageModel } from '@/lib/server/models';
+import { getModelDefinition, isModelId, type ModelId } from '@/lib/models';
+import {
+  DEFAULT_CHAT_MODE_ID,
+  isChatModeId,
+  type ChatModeId
+} from '@/lib/chatModes';
 import { searchUserDocument } from './tools/documentChat';
-import { websiteSearchTool } from './tools/WebsiteSearchTool';
-import { google } from '@ai-sdk/google';
-import type { LanguageModelV1ProviderMetadata } from '@ai-sdk/provider';
+import { webSearchSources, websiteSearchTool } from './tools/WebsiteSearchTool';
+import { perplexitySearchTool } from './tools/PerplexitySearchTool';
+import { openAIWebSearchTool } from './tools/OpenAIWebSearchTool';
 
 export const dynamic = 'force-dynamic';
 
 export const maxDuration = 60;
 
-const getSystemPrompt = (selectedFiles: string[]) => {
-  const basePrompt = `You are a helpful assistant. Answer all questions to the best of your ability. Use tools when necessary. Strive to only use a tool one time per question.
+type SearchToolName =
+  'websiteSearchTool' | 'perplexitySearch' | 'openAIWebSearch';
+
+interface ChatModeStrategy {
+  quotaEndpoint: QuotaEndpoint;
+  searchTool: SearchToolName;
+  instructions?: string;
+}
+
+// What each chat mode changes. Every mode keeps document search, attachments and reasoning,
+// and modes can change from one message to the next within a conversation.
+const chatModeStrategies = {
+  standart: {
+    quotaEndpoint: 'chat',
+    searchTool: 'websiteSearchTool'
+  },
+  perplex: {
+    quotaEndpoint: 'perplexity',
+    searchTool: 'perplexitySearch',
+    instructions: `SEARCH: Use the perplexitySearch tool to look up every question that is not answered by the user's documents. Base your answer on its result, and link the sources you use inline as Markdown links: [Page Title](URL). Use remark-math formatting for math equations.`
+  },
+  website: {
+    quotaEndpoint: 'websitechat',
+    searchTool: 'openAIWebSearch',
+    instructions: `SEARCH: Use the openAIWebSearch tool to look up every question that is not answered by the user's documents, and base a thorough, detailed answer on the pages it found.
+
+You MUST reference a source for EVERY piece of information you provide. Do not include information that cannot be verified by the sources.
+1. Integrate sources into the text as Markdown links: According to [Page Title](URL), ...
+2. Do not group references at the end, they should be part of the text.
+3. If the information comes from several pages, weave it together into one coherent answer.
+4. If the sources do not contain an answer to the question, tell the user so.`
+  }
+} satisfies Record<ChatModeId, ChatModeStrategy>;
+
+const getSystemPrompt = (selectedFiles: string[], mode: ChatModeStrategy) => {
+  const basePrompt = `Today's date is: ${new Date().toLocaleDateString('en-US')}.
+
+You are a helpful assistant. Answer all questions to the best of your ability. Use tools when necessary. Strive to only use a tool one time per question.
 
 FORMATTING: Your responses are rendered using react-markdown with the following capabilities:
 - GitHub Flavored Markdown (GFM) support through remarkGfm plugin
 - Syntax highlighting for code blocks through rehypeHighlight plugin
 - All standard markdown formatting`;
 
+  const modePrompt = mode.instructions
+    ? `${basePrompt}
+
+${mode.instructions}`
+    : basePrompt;
+
   if (selectedFiles.length > 0) {
-    return `${basePrompt}
+    return `${modePrompt}
 
 IMPORTANT: The user has uploaded ${
       selectedFiles.length
@@ -35,14 +89,14 @@ IMPORTANT: The user has uploaded ${
 
 When answering questions that might be addressed in these documents:
 1. ALWAYS use the searchUserDocument tool to retrieve relevant information from the uploaded documents
-2. Reference the documents properly in your response with the exact format: [Document title, p.X](<?pdf=Document_title&p=X>)
+2. Reference the documents properly in your response with the exact format: [Document title, p.X](<?pdf=Document_title&v=N&p=X>), where N is the document version from the search result
 3. Include direct quotes from the documents when appropriate
 4. When information from the documents contradicts your general knowledge, prioritize the document content
 
 For questions not related to the uploaded documents, you can respond based on your general knowledge.`;
   }
 
-  return basePrompt;
+  return modePrompt;
 };
 
 function errorHandler(error: unknown) {
@@ -61,160 +115,184 @@ function errorHandler(error: unknown) {
   return JSON.stringify(error);
 }
 
-const getModel = (selectedModel: string) => {
-  switch (selectedModel) {
-    case 'claude-3.7-sonnet':
-      return anthropic('claude-3-7-sonnet-20250219');
-    case 'gpt-4.1':
-      return openai('gpt-4.1-2025-04-14');
-    case 'gpt-4.1-mini':
-      return openai('gpt-4.1-mini');
-    case 'o3':
-      return openai('o3-2025-04-16');
-    case 'gemini-2.5-pro':
-      return google('gemini-2.5-pro-preview-03-25');
-    case 'gemini-2.5-flash':
-      return google('gemini-2.5-flash-preview-04-17');
-    default:
-      console.error('Invalid model selected:', selectedModel);
-      return openai('gpt-4.1-2025-04-14');
-  }
-};
+const chatRequestSchema = z.object({
+  chatId: z.string().uuid(),
+  // The new user message, or the saved one whose answer is regenerated
+  message: z
+    .object({
+      id: z.string().uuid(),
+      role: z.literal('user'),
+      content: z.string()
+    })
+    .passthrough(),
+  // The message the new user message follows, null for the first message of a chat
+  parentId: z.string().uuid().nullable(),
+  option: z.custom<ModelId>(isModelId, 'Unknown model'),
+  mode: z
+    .custom<ChatModeId>(isChatModeId, 'Unknown chat mode')
+    .default(DEFAULT_CHAT_MODE_ID),
+  selectedBlobs: z.array(z.string()).default([])
+});
 
-export async function POST(req: NextRequest) {
-  const session = await getSession();
+// Stopped or failed answers can be empty, and providers reject empty assistant messages
+const hasContent = (message: Message) =>
+  message.role === 'user' ||
+  !!message.parts?.some(
+    (part) =>
+      (part.type === 'text' && part.text) || part.type === 'tool-invocation'
+  );
 
-  if (!session) {
-    return new NextResponse('Unauthorized', {
-      status: 401,
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-  }
-  const ratelimit = new Ratelimit({
-    redis,
-    limiter: Ratelimit.slidingWindow(30, '24h') // 30 msg per 24 hours
-  });
+export const POST = apiRoute(
+  {
+    body: chatRequestSchema,
+    rateLimit: (body) => chatModeStrategies[body.mode].quotaEndpoint,
+    deferRateLimit: true
+  },
+  async (req, { session, body, chargeRateLimit }) => {
+    const chatSessionId = body.chatId;
+    const selectedFiles = body.selectedBlobs;
+    const modeId = body.mode;
+    const mode: ChatModeStrategy = chatModeStrategies[modeId];
 
-  const { success, limit, reset, remaining } = await ratelimit.limit(
-    `ratelimit_${session.id}`
-  );
-  if (!success) {
-    return new NextResponse('Rate limit exceeded. Please try again later.', {
-      status: 429,
-      headers: {
-        'Content-Type': 'application/json',
-        'X-RateLimit-Limit': limit.toString(),
-        'X-RateLimit-Remaining': remaining.toString(),
-        'X-RateLimit-Reset': new Date(reset * 1000).toISOString()
-      }
-    });
-  }
+    // The model only sees the branch that ends with this message, loaded from the database
+    const tree = createTree(await fetchChatMessages(chatSessionId));
+    const isRegeneration = body.message.id in tree;
+    if (body.parentId && !(body.parentId in tree)) {
+      return jsonError('The previous message was not found.', 409);
+    }
 
-  const body = await req.json();
-  const messages: Message[] = body.messages ?? [];
-  const chatSessionId = body.chatId;
-  const signal = body.signal;
-  const selectedFiles: string[] = body.selectedBlobs ?? [];
-
-  if (!chatSessionId) {
-    return new NextResponse('Chat session ID is empty.', {
-      status: 400,
-      headers: {
-        'Content-Type': 'application/json'
-      }
-    });
-  }
+    // Only role and content are checked here, convertToCoreMessages validates the message parts
+    const branch: Message[] = isRegeneration
+      ? getBranch(tree, body.message.id)
+      : [
+          ...(body.parentId ? getBranch(tree, body.parentId) : []),
+          body.message as Message
+        ];
+    const lastMessage = branch[branch.length - 1];
+    if (lastMessage.role !== 'user') {
+      return jsonError('Only user messages can be answered.', 400);
+    }
 
-  let fileAttachments: Attachment[] = [];
+    const fileAttachments: Attachment[] =
+      lastMessage.experimental_attachments ?? [];
 
-  // Check if the last message is from the user and contains attachments
-  const lastMessage = messages[messages.length - 1];
-  if (lastMessage?.role === 'user' && lastMessage?.experimental_attachments) {
-    fileAttachments = lastMessage.experimental_attachments;
-  }
+    // The schema only accepts registered model ids
+    const selectedModel = getModelDefinition(body.option)!;
 
-  const selectedModel = body.option ?? 'gpt-3.5-turbo-1106';
-  const userId = session.id;
+    if (
+      fileAttachments.length > 0 &&
+      !selectedModel.capabilities.pdfAttachments
+    ) {
+      return jsonError(
+        `${selectedModel.label} does not support file attachments.`,
+        400
+      );
+    }
 
-  const providerOptions: LanguageModelV1ProviderMetadata = {};
-  if (selectedModel === 'claude-3.7-sonnet') {
-    providerOptions.anthropic = {
-      thinking: { type: 'enabled', budgetTokens: 12000 }
-    } satisfies AnthropicProviderOptions;
-  }
+    // The standard mode still answers without a search tool, the search modes need one
+    if (
+      modeId !== DEFAULT_CHAT_MODE_ID &&
+      !selectedModel.capabilities.toolCalling
+    ) {
+      return jsonError(
+        `${selectedModel.label} does not support search tools.`,
+        400
+      );
+    }
 
-  // Only add OpenAI options if o3 model is selected
-  if (selectedModel === 'o3') {
-    providerOptions.openai = {
-      reasoningEffort: 'high'
-    } satisfies OpenAIResponsesProviderOptions;
-  }
+    // Only requests that are answered use up a message
+    const limited = await chargeRateLimit();
+    if (limited) return limited;
+
+    const userId = session.id;
+
+    if (!isRegeneration) {
+      await saveUserMessage(chatSessionId, userId, lastMessage, body.parentId);
+    }
 
-  const result = streamText({
-    model: getModel(selectedModel),
-    system: getSystemPrompt(selectedFiles),
-    messages: convertToCoreMessages(messages),
-    abortSignal: signal,
-    providerOptions,
-    tools: {
-      searchUserDocument: searchUserDocument({
-        userId,
-        selectedBlobs: selectedFiles
-      }),
-      websiteSearchTool: websiteSearchTool
-    },
-    experimental_activeTools:
-      selectedFiles.length > 0
-        ? ['searchUserDocument', 'websiteSearchTool']
-        : ['websiteSearchTool'],
-    maxSteps: 3,
-    experimental_telemetry: {
-      isEnabled: true,
-      functionId: 'api_chat',
-      metadata: {
-        userId: session.id,
-        chatId: chatSessionId
+    const result = streamText({
+      model: getLanguageModel(selectedModel),
+      system: getSystemPrompt(selectedFiles, mode),
+      messages: convertToCoreMessages(branch.filter(hasContent)),
+      abortSignal: req.signal,
+      providerOptions: selectedModel.providerOptions,
+      tools: {
+        searchUserDocument: searchUserDocument({
+          userId,
+          selectedBlobs: selectedFiles
+        }),
+        websiteSearchTool: websiteSearchTool(),
+        perplexitySearch: perplexitySearchTool({ userId, chatSessionId }),
+        openAIWebSearch: openAIWebSearchTool({ userId, chatSessionId })
       },
-      recordInputs: true,
-      recordOutputs: true
-    },
-    onFinish: async (event) => {
-      const { text, reasoning, steps, sources } = event;
-      const lastMessage = messages[messages.length - 1];
-      const lastMessageContent =
-        typeof lastMessage.content === 'string' ? lastMessage.content : '';
-
-      const foundReasoningStep = event.steps.find((step) => step.reasoning);
-      const reasoningText =
-        reasoning ||
-        (foundReasoningStep?.reasoning
-          ? foundReasoningStep.reasoning
-          : undefined);
-
-      await saveChatToSupbabase(
-        chatSessionId,
-        session.id,
-        lastMessageContent,
-        text,
-        fileAttachments,
-        reasoningText,
-        sources,
-        steps.map((step) => step.toolResults).flat()
-      );
+      experimental_activeTools: !selectedModel.capabilities.toolCalling
+        ? []
+        : selectedFiles.length > 0
+          ? ['searchUserDocument', mode.searchTool]
+          : [mode.searchTool],
+      maxSteps: 3,
+      // Web search results are added to the message as source parts, without the page text
+      experimental_transform: webSearchSources(),
+      // Saved messages keep the id useChat got for them, so they have to be valid row ids
+      experimental_generateMessageId: uuidv4,
+      experimental_telemetry: {
+        isEnabled: true,
+        functionId: 'api_chat',
+        metadata: {
+          userId: session.id,
+          chatId: chatSessionId,
+          mode: modeId
+        },
+        recordInputs: true,
+        recordOutputs: true
+      },
+      onError: async (error) => {
+        console.error('Error processing chat:', error);
+      }
+    });
+
+    result.consumeStream(); // We consume the stream if the server is discnnected from the client, so the answer is still saved and its usage recorded
+
+    // Collected from the full stream, so the saved message has the same parts useChat rendered. The
+    // message is also saved when the user stops the response or the stream fails.
+    const assistantMessage = collectMessage(result.fullStream, {
+      abortSignal: req.signal,
+      getErrorMessage: errorHandler
+    });
+    const saved = (async () => {
+      const message = await assistantMessage;
+      await saveAssistantMessage(chatSessionId, lastMessage.id, message);
       console.log('Chat saved to Supabase:', chatSessionId);
-    },
-    onError: async (error) => {
-      console.error('Error processing chat:', error);
-    }
-  });
+      return message;
+    })();
+    // Finishes saving when the client disconnected before the response was done. The title and
+    // summary are generated after the response, the sidebar refreshes until the new chat has one.
+    after(async () => {
+      // Stopped and failed answers count as well, streamText's onFinish is only called for complete ones
+      const { usage, modelId } = await assistantMessage;
+      await recordTokenUsage(userId, mode.quotaEndpoint, {
+        usage,
+        model: modelId,
+        chatSessionId
+      });
 
-  result.consumeStream(); // We consume the stream if the server is discnnected from the client to ensure the onFinish callback is called
+      const message = await saved;
+      if (message.status === 'complete') {
+        await updateChatSummary(chatSessionId, userId);
+      }
+    });
 
-  return result.toDataStreamResponse({
-    sendReasoning: true,
-    sendSources: true,
-    getErrorMessage: errorHandler
-  });
-}
+    return createDataStreamResponse({
+      execute: async (dataStream) => {
+        result.mergeIntoDataStream(dataStream, {
+          sendReasoning: true,
+          sendSources: true
+        });
+        // The response stays open until the message is saved, so the chat the client loads in
+        // onFinish already has it
+        await saved;
+      },
+      onError: errorHandler
+    });
+  }
+);
@@ -0,0 +1,24 @@
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
+import { apiRoute } from '@/lib/server/apiRoute';
+import { searchChatHistory } from '@/lib/server/chatSearch';
+
+export const dynamic = 'force-dynamic';
+
+const searchRequestSchema = z
+  .object({
+    query: z.string().trim().min(1).max(200),
+    from: z.string().date().optional(),
+    to: z.string().date().optional()
+  })
+  .refine(({ from, to }) => !from || !to || from <= to, {
+    message: 'The start date must be before the end date',
+    path: ['from']
+  });
+
+// Full-text search over the user's chat messages and chat titles with highlighted snippets
+export const POST = apiRoute(
+  { body: searchRequestSchema, rateLimit: 'search' },
+  async (_req, { session, body }) =>
+    NextResponse.json({ results: await searchChatHistory(session.id, body) })
+);
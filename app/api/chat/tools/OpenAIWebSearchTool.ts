@@ -0,0 +1,63 @@
+import { tool, generateText } from 'ai';
+import { z } from 'zod';
+import { openai } from '@ai-sdk/openai';
+import { recordTokenUsage } from '@/lib/server/quota';
+
+interface SearchToolProps {
+  userId: string;
+  chatSessionId: string;
+}
+
+// OpenAI's web search only runs inside a Responses API call, so the search is its own gpt-4o call
+// and the chat model gets the cited summary back.
+export const openAIWebSearchTool = ({
+  userId,
+  chatSessionId
+}: SearchToolProps) =>
+  tool({
+    description:
+      'Search the web with OpenAI web search. Returns a summary of the pages found and the sources it is based on.',
+    parameters: z.object({
+      query: z
+        .string()
+        .describe(
+          'The question to search for, phrased so it can be understood without the conversation'
+        )
+    }),
+    execute: async ({ query }) => {
+      const { text, sources, usage, response } = await generateText({
+        model: openai.responses('gpt-4o'),
+        system: `Today's date is: ${new Date().toLocaleDateString('en-US')}. Search the web and summarize what the pages you find say about the question. Keep the title and URL of every page you use.`,
+        prompt: query,
+        tools: {
+          web_search_preview: openai.tools.webSearchPreview({
+            searchContextSize: 'high',
+            userLocation: {
+              type: 'approximate',
+              country: 'DK'
+            }
+          })
+        }
+      });
+
+      await recordTokenUsage(userId, 'websitechat', {
+        usage,
+        model: response.modelId,
+        chatSessionId
+      });
+
+      // Pages are often cited more than once, keep the first occurrence of each URL
+      const uniqueSources = sources.filter(
+        (source, index, self) =>
+          index === self.findIndex((s) => s.url === source.url)
+      );
+
+      return {
+        answer: text,
+        sources: uniqueSources.map((source) => ({
+          title: source.title || 'Untitled Source',
+          url: source.url
+        }))
+      };
+    }
+  });
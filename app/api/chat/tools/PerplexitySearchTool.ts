@@ -0,0 +1,49 @@
+import { tool, generateText } from 'ai';
+import { z } from 'zod';
+import { perplexity } from '@ai-sdk/perplexity';
+import { recordTokenUsage } from '@/lib/server/quota';
+
+interface SearchToolProps {
+  userId: string;
+  chatSessionId: string;
+}
+
+// Perplexity searches and answers in one call. The model gets the answer with its sources and
+// writes the reply itself, so document search, attachments and reasoning keep working in this mode.
+export const perplexitySearchTool = ({
+  userId,
+  chatSessionId
+}: SearchToolProps) =>
+  tool({
+    description:
+      'Ask Perplexity, a search engine that answers questions from current web results. Returns an answer and the sources it is based on.',
+    parameters: z.object({
+      query: z
+        .string()
+        .describe(
+          'The question to answer, phrased so it can be understood without the conversation'
+        )
+    }),
+    execute: async ({ query }) => {
+      const { text, sources, usage, response } = await generateText({
+        model: perplexity('sonar-pro'),
+        system:
+          'You are a helpful assistant that always provides clear and accurate answers! For helpful information use Markdown. Use remark-math formatting for Math Equations',
+        prompt: query
+      });
+
+      await recordTokenUsage(userId, 'perplexity', {
+        usage,
+        model: response.modelId,
+        chatSessionId
+      });
+
+      return {
+        answer: text,
+        sources: sources.map((source) => ({
+          title: source.title ?? source.url,
+          url: source.url
+        }))
+      };
+    }
+  });
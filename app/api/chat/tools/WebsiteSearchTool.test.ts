@@ -0,0 +1,137 @@
+import { generateObject } from 'ai';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { searchWeb, type WebSearchResult } from '@/lib/server/webSearch';
+import { websiteSearchTool } from './WebsiteSearchTool';
+
+vi.mock('@ai-sdk/google', () => ({ google: vi.fn() }));
+vi.mock(import('ai'), async (importOriginal) => ({
+  ...(await importOriginal()),
+  generateObject: vi.fn()
+}));
+vi.mock('@/lib/server/webSearch', () => ({ searchWeb: vi.fn() }));
+
+const QUERIES = ['broad query', 'recent query', 'practical query'];
+
+const result = (url: string, score: number | null = null): WebSearchResult => ({
+  title: `Page on ${url}`,
+  url,
+  content: `Snippet of ${url}`,
+  rawContent: `Text of ${url}`,
+  score
+});
+
+// Results or an error for each query, by the query text
+const mockSearches = (searches: Record<string, WebSearchResult[] | Error>) => {
+  vi.mocked(searchWeb).mockImplementation(async (query) => {
+    const search = searches[query];
+    if (search instanceof Error) throw search;
+    return search ?? [];
+  });
+};
+
+const runSearch = async (query = 'user query') => {
+  const { execute } = websiteSearchTool({ maxResults: 3 });
+  return execute({ query }, { toolCallId: 'call', messages: [] });
+};
+
+beforeEach(() => {
+  vi.mocked(generateObject).mockResolvedValue({
+    object: {
+      queryVariation1: QUERIES[0],
+      queryVariation2: QUERIES[1],
+      queryVariation3: QUERIES[2]
+    }
+  } as unknown as Awaited<ReturnType<typeof generateObject>>);
+  vi.spyOn(console, 'error').mockImplementation(() => undefined);
+});
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('websiteSearchTool', () => {
+  it('searches every query variation', async () => {
+    mockSearches({});
+
+    const { queries } = await runSearch();
+
+    expect(queries).toEqual(QUERIES);
+    expect(vi.mocked(searchWeb).mock.calls.map(([query]) => query)).toEqual(
+      QUERIES
+    );
+  });
+
+  it('keeps the results of the variations that succeeded', async () => {
+    mockSearches({
+      [QUERIES[0]]: [result('https://a.test', 0.5)],
+      [QUERIES[1]]: new Error('rate limited'),
+      [QUERIES[2]]: [result('https://b.test', 0.9)]
+    });
+
+    const toolResult = await runSearch();
+
+    expect(toolResult.error).toBeUndefined();
+    expect(toolResult.results.map((source) => source.url)).toEqual([
+      'https://b.test',
+      'https://a.test'
+    ]);
+    expect(toolResult.instructions).not.toContain('web search failed');
+    expect(console.error).toHaveBeenCalledWith(
+      `Web search failed for "${QUERIES[1]}":`,
+      expect.any(Error)
+    );
+  });
+
+  it('deduplicates by URL and keeps the best scored results', async () => {
+    mockSearches({
+      [QUERIES[0]]: [result('https://a.test', 0.2), result('https://b.test')],
+      [QUERIES[1]]: [
+        result('https://a.test', 0.2),
+        result('https://c.test', 0.8)
+      ],
+      [QUERIES[2]]: [result('https://d.test', 0.4)]
+    });
+
+    const { results } = await runSearch();
+
+    expect(results.map((source) => source.url)).toEqual([
+      'https://c.test',
+      'https://d.test',
+      'https://a.test'
+    ]);
+    expect(results[0]).toMatchObject({
+      title: 'Page on https://c.test',
+      snippet: 'Snippet of https://c.test',
+      content: 'Text of https://c.test',
+      score: 0.8
+    });
+  });
+
+  it('returns an error when every variation fails', async () => {
+    mockSearches({
+      [QUERIES[0]]: new Error('down'),
+      [QUERIES[1]]: new Error('down'),
+      [QUERIES[2]]: new Error('down')
+    });
+
+    const toolResult = await runSearch();
+
+    expect(toolResult).toMatchObject({
+      queries: QUERIES,
+      results: [],
+      error: 'The web search failed'
+    });
+    expect(toolResult.instructions).toContain('The web search failed');
+  });
+
+  it('searches the query as is when the variations fail', async () => {
+    vi.mocked(generateObject).mockRejectedValue(new Error('model error'));
+    mockSearches({ 'user query': [result('https://a.test')] });
+
+    const { queries, results } = await runSearch();
+
+    expect(queries).toEqual(['user query']);
+    expect(results.map((source) => source.url)).toEqual(['https://a.test']);
+  });
+});
@@ -1,8 +1,15 @@
 // app/api/chat/tools/WebsiteSearchTool.ts
-import { tool } from 'ai';
+import {
+  tool,
+  generateObject,
+  type StreamTextTransform,
+  type TextStreamPart,
+  type ToolSet
+} from 'ai';
+import type { LanguageModelV1Source } from '@ai-sdk/provider';
 import { z } from 'zod';
-import { generateObject } from 'ai';
 import { google } from '@ai-sdk/google';
+import { searchWeb, type WebSearchResult } from '@/lib/server/webSearch';
 
 // Zod schema for query variations
 const websiteSearchSchema = z.object({
@@ -26,43 +33,117 @@ const websiteSearchSchema = z.object({
     )
 });
 
-// Type definitions
-interface SearchResultURL {
-  title: string;
-  url: string;
-  content: string;
-  raw_content?: string;
+export interface WebsiteSearchOptions {
+  // Results requested for every query variation
+  resultsPerQuery: number;
+  // Results kept for the prompt after deduplication
+  maxResults: number;
+  // Only search these domains, every domain when empty
+  includeDomains: string[];
+  excludeDomains: string[];
 }
 
-interface TavilySearchResult {
+// Comma separated, e.g. WEB_SEARCH_EXCLUDE_DOMAINS=pinterest.com,quora.com
+const parseDomainList = (value: string | undefined) =>
+  value
+    ?.split(',')
+    .map((domain) => domain.trim())
+    .filter(Boolean) ?? [];
+
+const defaultWebsiteSearchOptions: WebsiteSearchOptions = {
+  resultsPerQuery: 2,
+  maxResults: 6,
+  includeDomains: parseDomainList(process.env.WEB_SEARCH_INCLUDE_DOMAINS),
+  excludeDomains: parseDomainList(process.env.WEB_SEARCH_EXCLUDE_DOMAINS)
+};
+
+// Page text sent to the model per result, the snippet is always included
+const MAX_CONTENT_LENGTH = 8000;
+
+export interface WebsiteSearchSource {
   title: string;
   url: string;
-  content: string;
-  raw_content?: string;
-  score: number;
+  snippet: string;
+  // Relevance from 0 to 1, null when the provider has no score
+  score: number | null;
+  retrievedAt: string;
+  // Page text for the answer, empty when the provider only returns snippets. Only the model gets
+  // it, webSearchSources removes it from the streamed and saved result.
+  content?: string;
 }
 
-interface TavilyAPIResponse {
-  answer?: string;
-  query: string;
-  response_time?: string;
-  follow_up_questions?: string[];
-  images?: string[];
-  results: TavilySearchResult[];
+export interface WebsiteSearchToolResult {
+  queries: string[];
+  results: WebsiteSearchSource[];
+  // Set when every search failed
+  error?: string;
+  instructions: string;
 }
 
+const answerInstructions = `
+      <instructions>
+      
+      Based on the content from the found websites, provide a concise and accurate answer to the user's question. If the information is not sufficient, ask for more information or clarification.
+      
+      Follow these guidelines when responding:
+      
+      1. Integrate sources directly into your answer as inline references using Markdown link formatting:
+        Example: According to [Page Title](URL), it is described that...
+      
+      2. When referring to specific content or sections from the websites, always include them as inline links:
+        As described in [Relevant Section or Heading](URL), the following applies...
+      
+      3. Make sure to link to all relevant sources you reference as a natural part of the text. This makes it easy for the reader to verify the information.
+      
+      4. If you're referring to specific content on a page but only have an overall link, you should:
+        - Link to the main page: [Page Title](URL)
+        - Mention the specific section or information in the text
+        Example: On [Website Name](URL) under the section "Specific Section" it states that...
+      
+      5. Your answer should be:
+        - Accurate and concise
+        - Contain all relevant details
+        - Have sources naturally integrated into the text
+        - Be easy to read and understand
+      
+      6. Avoid grouping references at the end of your answer. They should be a natural part of the text so the reader can easily follow the sources along the way.
+      
+      7. If the information comes from several different pages, weave them together into a coherent answer where the sources complement each other.
+      
+      Remember:
+      - Be objective and factual in your presentation
+      - Ensure all claims are supported by sources
+      - Write in clear and professional language
+      - Maintain the same high standard for citations as in academic writing
+      </instructions>
+      `;
+
+const searchFailedInstructions = `
+      <instructions>
+      The web search failed, no websites were found for this question. Tell the user that the web search is not available right now, and answer from your own knowledge only if you are certain, saying clearly that the answer is not based on current sources.
+      </instructions>
+      `;
+
 // Make sure the structure matches other tools exactly
-export const websiteSearchTool = tool({
-  description:
-    'Search the web for up-to-date information on any topic. This tool is effective for finding comprehensive information, recent developments, and practical implementation guides.',
-  parameters: z.object({
-    query: z.string().describe('The query to search for on the web')
-  }),
-  execute: async (args, { messages }) => {
-    // Generate improved search queries
-    const currentDate = new Date().toISOString().split('T')[0];
-
-    const queryOptimizationPrompt = `
+export const websiteSearchTool = (
+  options: Partial<WebsiteSearchOptions> = {}
+) => {
+  const { resultsPerQuery, maxResults, includeDomains, excludeDomains } = {
+    ...defaultWebsiteSearchOptions,
+    ...options
+  };
+
+  return tool({
+    description:
+      'Search the web for up-to-date information on any topic. This tool is effective for finding comprehensive information, recent developments, and practical implementation guides.',
+    parameters: z.object({
+      query: z.string().describe('The query to search for on the web')
+    }),
+    execute: async (args, { messages }): Promise<WebsiteSearchToolResult> => {
+      // Generate improved search queries
+      const currentDate = new Date().toISOString().split('T')[0];
+
+      const queryOptimizationPrompt = `
       <metadata>
       <current_date>${currentDate}</current_date>
       </metadata>
@@ -100,128 +181,162 @@ export const websiteSearchTool = tool({
       
       `;
 
-    const { object } = await generateObject({
-      model: google('gemini-2.0-flash-001'),
-      system: queryOptimizationPrompt,
-      schema: websiteSearchSchema,
-      temperature: 0,
-      messages
-    });
+      // The user's query is searched as is when the variations can't be generated
+      let websiteQueries = [args.query];
+      try {
+        const { object } = await generateObject({
+          model: google('gemini-2.0-flash-001'),
+          system: queryOptimizationPrompt,
+          schema: websiteSearchSchema,
+          temperature: 0,
+          messages
+        });
 
-    const websiteQueries = [
-      object.queryVariation1,
-      object.queryVariation2,
-      object.queryVariation3
-    ].filter((query) => query !== undefined && query.trim() !== '');
-
-    // Execute searches for each query variation
-    const searchPromises = websiteQueries.map(async (query) => {
-      const body = {
-        api_key: process.env.TAVILY_API_KEY,
-        search_depth: 'advanced',
-        include_answer: false,
-        include_images: false,
-        include_raw_content: true,
-        max_results: 2,
-        query: query
-      };
+        websiteQueries = [
+          object.queryVariation1,
+          object.queryVariation2,
+          object.queryVariation3
+        ].filter((query) => query !== undefined && query.trim() !== '');
+      } catch (error) {
+        console.error('Error generating web search queries:', error);
+      }
 
-      const response = await fetch('https://api.tavily.com/search', {
-        cache: 'no-store',
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify(body)
+      // Execute searches for each query variation. A failed variation is left out, the search only
+      // fails when every variation does.
+      const searches = await Promise.allSettled(
+        websiteQueries.map((query) =>
+          searchWeb(query, {
+            maxResults: resultsPerQuery,
+            includeDomains,
+            excludeDomains,
+            includeRawContent: true
+          })
+        )
+      );
+
+      searches.forEach((search, index) => {
+        if (search.status === 'rejected') {
+          console.error(
+            `Web search failed for "${websiteQueries[index]}":`,
+            search.reason
+          );
+        }
       });
 
-      const data: TavilyAPIResponse = await response.json();
+      if (searches.every((search) => search.status === 'rejected')) {
+        return {
+          queries: websiteQueries,
+          results: [],
+          error: 'The web search failed',
+          instructions: searchFailedInstructions
+        };
+      }
 
-      // Use the results directly from Tavily
-      return data.results.map((result: TavilySearchResult) => ({
-        title: result.title,
+      // Deduplicate search results by URL, the best scored results first
+      const retrievedAt = new Date().toISOString();
+      const results = searches
+        .flatMap((search) =>
+          search.status === 'fulfilled' ? search.value : []
+        )
+        .reduce((acc, result) => {
+          if (!acc.some((r) => r.url === result.url)) {
+            acc.push(result);
+          }
+          return acc;
+        }, [] as WebSearchResult[])
+        .sort((a, b) => (b.score ?? -1) - (a.score ?? -1))
+        .slice(0, maxResults)
+        .map((result): WebsiteSearchSource => ({
+          title: result.title,
+          url: result.url,
+          snippet: result.content,
+          score: result.score,
+          retrievedAt,
+          content: result.rawContent?.slice(0, MAX_CONTENT_LENGTH) ?? ''
+        }));
+
+      return {
+        queries: websiteQueries,
+        results,
+        instructions: answerInstructions
+      };
+    }
+  });
+};
+
+// The result of the Perplexity and OpenAI search tools, which answer with the pages they used
+interface AnswerSearchToolResult {
+  answer: string;
+  sources: { title: string; url: string }[];
+}
+
+function getSearchSources(
+  toolName: string,
+  result: unknown
+): LanguageModelV1Source[] {
+  switch (toolName) {
+    case 'websiteSearchTool':
+      return (result as WebsiteSearchToolResult).results.map((result) => ({
+        sourceType: 'url',
+        id: result.url,
         url: result.url,
-        content: result.content,
-        raw_content: result.raw_content
+        title: result.title,
+        providerMetadata: {
+          websiteSearch: {
+            snippet: result.snippet,
+            score: result.score,
+            retrievedAt: result.retrievedAt
+          }
+        }
       }));
-    });
-
-    const searchResultsArray = await Promise.all(searchPromises);
+    case 'perplexitySearch':
+    case 'openAIWebSearch':
+      return (result as AnswerSearchToolResult).sources.map((source) => ({
+        sourceType: 'url',
+        id: source.url,
+        url: source.url,
+        title: source.title
+      }));
+    default:
+      return [];
+  }
+}
 
-    // Deduplicate search results by URL
-    const uniqueSearchResults = searchResultsArray
-      .flat()
-      .reduce((acc, result) => {
-        if (!acc.some((r: SearchResultURL) => r.url === result.url)) {
-          acc.push(result);
+// Every web search result becomes a source part of the message, in the stream to the client and in
+// the saved message, which are both built from the same stream. The page text of the website search
+// is left out of both, the model already got it with the tool result of its step.
+export const webSearchSources =
+  <TOOLS extends ToolSet>(): StreamTextTransform<TOOLS> =>
+  () => {
+    const seenUrls = new Set<string>();
+    return new TransformStream<TextStreamPart<TOOLS>, TextStreamPart<TOOLS>>({
+      transform(chunk, controller) {
+        if (chunk.type !== 'tool-result') {
+          controller.enqueue(chunk);
+          return;
         }
-        return acc;
-      }, [] as SearchResultURL[]);
-
-    const searchResults = uniqueSearchResults;
-
-    // Format search results for the AI
-    const formattedSearchResults = searchResults
-      .map(
-        (result) => `
-<result>
-<title>${result.title}</title>
-<url>${result.url}</url>
-<content>${result.content}</content>
-<raw_content>${result.raw_content}</raw_content>
-</result>
-`
-      )
-      .join('\n\n');
-
-    // Check token count and truncate if necessary
-
-    // Create system prompt for AI response
-    const systemPromptTemplate = `
-      <search_results>
-      ${formattedSearchResults}
-      </search_results>
 
-      <instructions>
-      
-      Based on the content from the found websites, provide a concise and accurate answer to the user's question. If the information is not sufficient, ask for more information or clarification.
-      
-      Follow these guidelines when responding:
-      
-      1. Integrate sources directly into your answer as inline references using Markdown link formatting:
-        Example: According to [Page Title](URL), it is described that...
-      
-      2. When referring to specific content or sections from the websites, always include them as inline links:
-        As described in [Relevant Section or Heading](URL), the following applies...
-      
-      3. Make sure to link to all relevant sources you reference as a natural part of the text. This makes it easy for the reader to verify the information.
-      
-      4. If you're referring to specific content on a page but only have an overall link, you should:
-        - Link to the main page: [Page Title](URL)
-        - Mention the specific section or information in the text
-        Example: On [Website Name](URL) under the section "Specific Section" it states that...
-      
-      5. Your answer should be:
-        - Accurate and concise
-        - Contain all relevant details
-        - Have sources naturally integrated into the text
-        - Be easy to read and understand
-      
-      6. Avoid grouping references at the end of your answer. They should be a natural part of the text so the reader can easily follow the sources along the way.
-      
-      7. If the information comes from several different pages, weave them together into a coherent answer where the sources complement each other.
-      
-      Remember:
-      - Be objective and factual in your presentation
-      - Ensure all claims are supported by sources
-      - Write in clear and professional language
-      - Maintain the same high standard for citations as in academic writing
-      </instructions>
-      `;
+        if (chunk.toolName === 'websiteSearchTool') {
+          // A copy, the chunk itself is what the next step sends to the model
+          const result = chunk.result as WebsiteSearchToolResult;
+          controller.enqueue({
+            ...chunk,
+            result: {
+              ...result,
+              results: result.results.map(
+                ({ content: _content, ...source }) => source
+              )
+            }
+          });
+        } else {
+          controller.enqueue(chunk);
+        }
 
-    // Return results in consistent format with other tools
-    return {
-      systemPrompt: systemPromptTemplate
-    };
-  }
-});
+        for (const source of getSearchSources(chunk.toolName, chunk.result)) {
+          if (seenUrls.has(source.url)) continue;
+          seenUrls.add(source.url);
+          controller.enqueue({ type: 'source', source });
+        }
+      }
+    });
+  };
@@ -0,0 +1,186 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  mergeRankings,
+  reciprocalRankFusion,
+  rerankMatches,
+  type DocumentMatch,
+  type FusedDocumentMatch
+} from './documentChat';
+import { rerankers } from './rerank';
+
+vi.mock('@/lib/server/server', () => ({
+  createServerSupabaseClient: vi.fn()
+}));
+
+const match = (
+  id: string,
+  scores: Pick<Partial<DocumentMatch>, 'similarity' | 'keywordRank'> = {}
+): DocumentMatch => ({
+  id,
+  text: `Text of ${id}`,
+  title: 'report.pdf',
+  timestamp: '1700000000',
+  ai_title: 'Report',
+  ai_description: 'A report',
+  ai_maintopics: [],
+  ai_keyentities: [],
+  filterTags: '',
+  page: 1,
+  chunkIndex: 0,
+  totalPages: 1,
+  version: 1,
+  similarity: null,
+  keywordRank: null,
+  ...scores
+});
+
+const fused = (id: string, score: number): FusedDocumentMatch => ({
+  ...match(id),
+  score
+});
+
+const ids = (matches: { id: string }[]) => matches.map((match) => match.id);
+
+afterEach(() => {
+  vi.restoreAllMocks();
+});
+
+describe('mergeRankings', () => {
+  it('keeps the best score of every row and sorts by it', () => {
+    const merged = mergeRankings(
+      [
+        [match('a', { similarity: 0.5 }), match('b', { similarity: 0.4 })],
+        [match('b', { similarity: 0.9 }), match('c', { similarity: 0.3 })]
+      ],
+      (match) => match.similarity ?? 0
+    );
+
+    expect(merged.map(({ id, similarity }) => [id, similarity])).toEqual([
+      ['b', 0.9],
+      ['a', 0.5],
+      ['c', 0.3]
+    ]);
+  });
+
+  it('returns nothing for no lists', () => {
+    expect(mergeRankings([], () => 0)).toEqual([]);
+  });
+});
+
+describe('reciprocalRankFusion', () => {
+  it('adds weight / (k + rank) from every ranking a row is in', () => {
+    const results = reciprocalRankFusion(
+      [
+        { matches: [match('a'), match('b')], weight: 0.6 },
+        { matches: [match('b'), match('c')], weight: 0.4 }
+      ],
+      60
+    );
+
+    expect(results.map(({ id, score }) => [id, score])).toEqual([
+      ['b', 0.6 / 62 + 0.4 / 61],
+      ['a', 0.6 / 61],
+      ['c', 0.4 / 62]
+    ]);
+  });
+
+  it.each([
+    [0.3, ['a', 'b']],
+    [0.7, ['b', 'a']]
+  ])('ranks by the weights, keyword weight %s', (keywordWeight, expected) => {
+    const results = reciprocalRankFusion(
+      [
+        { matches: [match('a'), match('b')], weight: 1 - keywordWeight },
+        { matches: [match('b'), match('a')], weight: keywordWeight }
+      ],
+      60
+    );
+
+    expect(ids(results)).toEqual(expected);
+  });
+
+  it('flattens the gap between ranks for a higher k', () => {
+    const rankings = [{ matches: [match('a'), match('b')], weight: 1 }];
+    const gap = (k: number) => {
+      const [first, second] = reciprocalRankFusion(rankings, k);
+      return first.score / second.score;
+    };
+
+    expect(gap(1)).toBeCloseTo(1.5);
+    expect(gap(100)).toBeCloseTo(102 / 101);
+  });
+
+  it('keeps the vector and keyword scores of a row found by both', () => {
+    const [result] = reciprocalRankFusion(
+      [
+        { matches: [match('a', { similarity: 0.8 })], weight: 0.5 },
+        { matches: [match('a', { keywordRank: 0.2 })], weight: 0.5 }
+      ],
+      60
+    );
+
+    expect(result).toMatchObject({ similarity: 0.8, keywordRank: 0.2 });
+  });
+});
+
+describe('rerankMatches', () => {
+  const matches = [fused('a', 0.3), fused('b', 0.2), fused('c', 0.1)];
+
+  it('keeps the fused order without a reranker', async () => {
+    const results = await rerankMatches('query', matches, {
+      provider: 'none',
+      topN: 2
+    });
+
+    expect(results.map(({ id, rerankScore }) => [id, rerankScore])).toEqual([
+      ['a', null],
+      ['b', null]
+    ]);
+  });
+
+  it('sorts by the reranker scores and keeps topN', async () => {
+    const rerank = vi
+      .spyOn(rerankers.voyage, 'rerank')
+      .mockResolvedValue([0.1, 0.9, 0.5]);
+
+    const results = await rerankMatches('query', matches, {
+      provider: 'voyage',
+      topN: 2
+    });
+
+    expect(rerank).toHaveBeenCalledWith('query', [
+      { id: 'a', text: 'Text of a' },
+      { id: 'b', text: 'Text of b' },
+      { id: 'c', text: 'Text of c' }
+    ]);
+    expect(results.map(({ id, rerankScore }) => [id, rerankScore])).toEqual([
+      ['b', 0.9],
+      ['c', 0.5]
+    ]);
+  });
+
+  it('falls back to the fused order when the reranker fails', async () => {
+    vi.spyOn(rerankers.llm, 'rerank').mockRejectedValue(new Error('down'));
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+
+    const results = await rerankMatches('query', matches, {
+      provider: 'llm',
+      topN: 2
+    });
+
+    expect(ids(results)).toEqual(['a', 'b']);
+    expect(console.error).toHaveBeenCalledWith(
+      'Error reranking documents:',
+      expect.any(Error)
+    );
+  });
+
+  it('skips the reranker without candidates', async () => {
+    const rerank = vi.spyOn(rerankers.voyage, 'rerank');
+
+    expect(
+      await rerankMatches('query', [], { provider: 'voyage', topN: 2 })
+    ).toEqual([]);
+    expect(rerank).not.toHaveBeenCalled();
+  });
+});
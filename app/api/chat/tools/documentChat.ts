@@ -4,6 +4,7 @@ import { z } from 'zod';
 import { embed } from 'ai';
 import { voyage } from 'voyage-ai-provider';
 import { createServerSupabaseClient } from '@/lib/server/server';
+import { rerankers, type RerankProvider } from './rerank';
 
 // Embedding model for query
 const embeddingModel = voyage.textEmbeddingModel('voyage-3-large', {
@@ -21,11 +22,62 @@ function sanitizeFilename(filename: string): string {
     .replace(/[^a-zA-Z0-9._-]/g, '_');
 }
 
+export type RetrievalMode = 'vector' | 'keyword' | 'hybrid';
+
+export interface HybridSearchOptions {
+  mode: RetrievalMode;
+  // Share of the fused score given to full-text matches (0-1), the vector ranking gets the rest
+  keywordWeight: number;
+  // Reciprocal rank fusion constant. Higher values flatten the gap between top and lower ranks
+  rrfK: number;
+}
+
+const defaultHybridSearchOptions: HybridSearchOptions = {
+  mode: 'hybrid',
+  keywordWeight: 0.4,
+  rrfK: 60
+};
+
+export interface RerankOptions {
+  provider: RerankProvider;
+  // Number of passages kept for the prompt after reranking
+  topN: number;
+}
+
+const defaultRerankOptions: RerankOptions = {
+  provider: 'voyage',
+  topN: 12
+};
+
 interface ChatwithDocsProps {
   userId: string;
   selectedBlobs: string[];
+  hybridSearch?: Partial<HybridSearchOptions>;
+  rerank?: Partial<RerankOptions>;
+}
+
+export interface DocumentMatch {
+  id: string;
+  text: string;
+  title: string;
+  timestamp: string;
+  ai_title: string;
+  ai_description: string;
+  ai_maintopics: string[];
+  ai_keyentities: string[];
+  filterTags: string;
+  page: number;
+  chunkIndex: number;
+  totalPages: number;
+  version: number;
+  similarity: number | null;
+  keywordRank: number | null;
 }
 
+export type FusedDocumentMatch = DocumentMatch & { score: number };
+
+type RankedDocumentMatch = FusedDocumentMatch & { rerankScore: number | null };
+
 // Embed query function
 async function embedQuery(text: string) {
   const { embedding } = await embed({
@@ -42,7 +94,7 @@ async function querySupabaseVectors(
   selectedFiles: string[],
   topK: number,
   similarityThreshold: number
-) {
+): Promise<DocumentMatch[]> {
   const supabase = await createServerSupabaseClient();
 
   // Convert embedding array to string format for query
@@ -72,14 +124,132 @@ async function querySupabaseVectors(
     ai_keyentities: match.ai_keyentities,
     filterTags: match.filter_tags,
     page: match.page_number,
+    chunkIndex: match.chunk_index,
+    totalPages: match.total_pages,
+    version: match.version,
+    similarity: match.similarity,
+    keywordRank: null
+  }));
+}
+
+// Full-text search over the page text. Catches exact terms (section numbers, product codes, names)
+// that the embedding model tends to blur.
+async function querySupabaseFullText(
+  queryText: string,
+  userId: string,
+  selectedFiles: string[],
+  topK: number
+): Promise<DocumentMatch[]> {
+  const supabase = await createServerSupabaseClient();
+
+  const { data: matches, error } = await supabase.rpc(
+    'match_documents_fulltext',
+    {
+      query_text: queryText,
+      match_count: topK,
+      filter_user_id: userId,
+      filter_files: selectedFiles
+    }
+  );
+
+  if (error) {
+    console.error('Error running full-text search:', error);
+    throw error;
+  }
+
+  return matches.map((match) => ({
+    id: match.id,
+    text: match.text_content,
+    title: match.title,
+    timestamp: match.doc_timestamp,
+    ai_title: match.ai_title,
+    ai_description: match.ai_description,
+    ai_maintopics: match.ai_maintopics,
+    ai_keyentities: match.ai_keyentities,
+    filterTags: match.filter_tags,
+    page: match.page_number,
+    chunkIndex: match.chunk_index,
     totalPages: match.total_pages,
-    similarity: match.similarity
+    version: match.version,
+    similarity: null,
+    keywordRank: match.rank
   }));
 }
 
+// Merge result lists from several queries into one ranking, keeping the best score per row
+export function mergeRankings(
+  lists: DocumentMatch[][],
+  getScore: (match: DocumentMatch) => number
+) {
+  const best = new Map<string, DocumentMatch>();
+  for (const match of lists.flat()) {
+    const current = best.get(match.id);
+    if (!current || getScore(match) > getScore(current)) {
+      best.set(match.id, match);
+    }
+  }
+  return [...best.values()].sort((a, b) => getScore(b) - getScore(a));
+}
+
+// Weighted reciprocal rank fusion: each ranking contributes weight / (k + rank) per row
+export function reciprocalRankFusion(
+  rankings: { matches: DocumentMatch[]; weight: number }[],
+  k: number
+): FusedDocumentMatch[] {
+  const fused = new Map<string, FusedDocumentMatch>();
+
+  for (const { matches, weight } of rankings) {
+    matches.forEach((match, index) => {
+      const contribution = weight / (k + index + 1);
+      const existing = fused.get(match.id);
+      if (existing) {
+        existing.score += contribution;
+        existing.similarity ??= match.similarity;
+        existing.keywordRank ??= match.keywordRank;
+      } else {
+        fused.set(match.id, { ...match, score: contribution });
+      }
+    });
+  }
+
+  return [...fused.values()].sort((a, b) => b.score - a.score);
+}
+
+// Score the fused candidates against the query and keep the best topN. If the reranker fails
+// we keep the fused order so the search still returns results.
+export async function rerankMatches(
+  query: string,
+  matches: FusedDocumentMatch[],
+  { provider, topN }: RerankOptions
+): Promise<RankedDocumentMatch[]> {
+  const withoutRerank = () =>
+    matches.slice(0, topN).map((match) => ({ ...match, rerankScore: null }));
+
+  if (provider === 'none' || matches.length === 0) {
+    return withoutRerank();
+  }
+
+  try {
+    const scores = await rerankers[provider].rerank(
+      query,
+      matches.map(({ id, text }) => ({ id, text }))
+    );
+
+    return matches
+      .map((match, index) => ({ ...match, rerankScore: scores[index] }))
+      .sort((a, b) => b.rerankScore - a.rerankScore)
+      .slice(0, topN);
+  } catch (error) {
+    console.error('Error reranking documents:', error);
+    return withoutRerank();
+  }
+}
+
 export const searchUserDocument = ({
   userId,
-  selectedBlobs
+  selectedBlobs,
+  hybridSearch,
+  rerank
 }: ChatwithDocsProps) =>
   tool({
     description: `Search through ${
@@ -92,6 +262,14 @@ export const searchUserDocument = ({
         .string()
         .describe(
           'The query to search for relevant information in the documents'
+        ),
+      keywordWeight: z
+        .number()
+        .min(0)
+        .max(1)
+        .optional()
+        .describe(
+          'How much exact keyword matches count compared to semantic matches (0-1). Raise it when the query contains exact terms such as section numbers, product codes or names.'
         )
     }),
     execute: async (args, { messages }) => {
@@ -111,44 +289,65 @@ export const searchUserDocument = ({
         return timestamp ? `${sanitizedName}[[${timestamp}` : sanitizedName;
       });
 
-      // Process both queries in parallel
-      const [toolQueryEmbedding, userMessageEmbedding] = await Promise.all([
-        embedQuery(toolQuery),
-        embedQuery(userMessage.toString())
-      ]);
-
-      // Search vectors with both embeddings in parallel
-      const [toolQueryResults, userMessageResults] = await Promise.all([
-        querySupabaseVectors(
-          toolQueryEmbedding,
-          userId,
-          sanitizedFilenames,
-          30,
-          0.3
-        ),
-        querySupabaseVectors(
-          userMessageEmbedding,
-          userId,
-          sanitizedFilenames,
-          30,
-          0.3
-        )
+      const { mode, rrfK, ...searchOptions } = {
+        ...defaultHybridSearchOptions,
+        ...hybridSearch
+      };
+      const keywordWeight = args.keywordWeight ?? searchOptions.keywordWeight;
+      const useVector = mode !== 'keyword';
+      const useKeyword = mode !== 'vector';
+
+      // Run the vector and full-text searches for both queries in parallel
+      const [vectorResults, keywordResults] = await Promise.all([
+        useVector
+          ? Promise.all(
+              [toolQuery, userMessage.toString()].map(async (query) =>
+                querySupabaseVectors(
+                  await embedQuery(query),
+                  userId,
+                  sanitizedFilenames,
+                  30,
+                  0.3
+                )
+              )
+            )
+          : [],
+        useKeyword
+          ? Promise.all(
+              [toolQuery, userMessage.toString()].map((query) =>
+                querySupabaseFullText(query, userId, sanitizedFilenames, 30)
+              )
+            )
+          : []
       ]);
 
-      // Combine results from both searches
-      const allSearchResults = [...toolQueryResults, ...userMessageResults];
-
-      // Deduplicate results based on title and page number
-      const seenKeys = new Set();
-      const searchResults = allSearchResults.filter((item) => {
-        const key = `${item.title}-${item.page}`;
-        if (seenKeys.has(key)) return false;
-        seenKeys.add(key);
-        return true;
-      });
+      // Collapse each retrieval method into a single ranking before fusing them
+      const fusedResults = reciprocalRankFusion(
+        [
+          {
+            matches: mergeRankings(
+              vectorResults,
+              (match) => match.similarity ?? 0
+            ),
+            weight: mode === 'hybrid' ? 1 - keywordWeight : 1
+          },
+          {
+            matches: mergeRankings(
+              keywordResults,
+              (match) => match.keywordRank ?? 0
+            ),
+            weight: mode === 'hybrid' ? keywordWeight : 1
+          }
+        ],
+        rrfK
+      );
 
-      // Sort by similarity score (higher = more relevant)
-      searchResults.sort((a, b) => b.similarity - a.similarity);
+      const rerankOptions = { ...defaultRerankOptions, ...rerank };
+      const searchResults = await rerankMatches(
+        toolQuery,
+        fusedResults,
+        rerankOptions
+      );
 
       // Format search results
       const formattedSearchResults = (() => {
@@ -165,8 +364,8 @@ export const searchUserDocument = ({
         // Sort and format each group
         return Object.entries(groupedResults)
           .map(([_key, docs]) => {
-            // Sort documents by page number
-            docs.sort((a, b) => (a.page as number) - (b.page as number));
+            // Sort by page number, then by chunk position within the page
+            docs.sort((a, b) => a.page - b.page || a.chunkIndex - b.chunkIndex);
 
             // Extract common metadata (only once per document)
             const {
@@ -175,7 +374,8 @@ export const searchUserDocument = ({
               ai_maintopics,
               ai_keyentities,
               title,
-              timestamp
+              timestamp,
+              version
             } = docs[0];
 
             // Format the document group
@@ -184,6 +384,7 @@ export const searchUserDocument = ({
         <metadata>
           <title>${title}</title>
           <timestamp>${timestamp}</timestamp>
+          <version>${version}</version>
           <ai_title>${ai_title || ''}</ai_title>
           <ai_description>${ai_description || ''}</ai_description>
           <ai_maintopics>${
@@ -204,7 +405,7 @@ export const searchUserDocument = ({
           <page number="${doc.page}">
             <reference_link>[${doc.title}, p.${doc.page}](<?pdf=${doc.title
                 .replace(/ /g, '_')
-                .trim()}&p=${doc.page}>)</reference_link>
+                .trim()}&v=${doc.version}&p=${doc.page}>)</reference_link>
             <text>${doc.text}</text>
           </page>`
             )
@@ -226,14 +427,14 @@ export const searchUserDocument = ({
 
         The Markdown link format should be:
 
-        [Short description or context](<?pdf=Document_title&p=X>)
+        [Short description or context](<?pdf=Document_title&v=N&p=X>)
 
-        where X is the page number and "Short description or context" is meaningful text that relates to the content.
+        where N is the document version, X is the page number and "Short description or context" is meaningful text that relates to the content. Copy the document title and version from the reference_link of the page you cite.
 
         Good examples of link text:
-        - [Section §12 of the law](<?pdf=Document_title&p=8>)
-        - [Figure 3.2](<?pdf=Document_title&p=15>)
-        - [Definition of the concept](<?pdf=Document_title&p=2>)
+        - [Section §12 of the law](<?pdf=Document_title&v=1&p=8>)
+        - [Figure 3.2](<?pdf=Document_title&v=2&p=15>)
+        - [Definition of the concept](<?pdf=Document_title&v=1&p=2>)
 
         This Markdown link format is crucial as it makes the references clickable and leads directly to the relevant page in the document. Please use this Markdown reference format consistently throughout your response, but make sure the link text is short and contextually relevant instead of the entire filename.
 
@@ -260,6 +461,7 @@ export const searchUserDocument = ({
                 title: result.title,
                 timestamp: result.timestamp,
                 aiTitle: result.ai_title,
+                version: result.version,
                 pages: new Set()
               };
             }
@@ -272,6 +474,7 @@ export const searchUserDocument = ({
               title: string;
               timestamp: string;
               aiTitle: string;
+              version: number;
               pages: Set<number>;
             }
           >
@@ -281,6 +484,7 @@ export const searchUserDocument = ({
         title: doc.title,
         timestamp: doc.timestamp,
         aiTitle: doc.aiTitle,
+        version: doc.version,
         pageCount: doc.pages.size
       }));
 
@@ -291,7 +495,9 @@ export const searchUserDocument = ({
           (doc) =>
             `[View document: ${
               doc.aiTitle || doc.title.substring(0, 30)
-            }...](<?pdf=${doc.title.replace(/ /g, '_').trim()}&p=1>)`
+            }...](<?pdf=${doc.title.replace(/ /g, '_').trim()}&v=${
+              doc.version
+            }&p=1>)`
         )
         .join('\n');
 
@@ -307,7 +513,23 @@ ${exampleLinks}
 `
           : `Unfortunately, I could not find documents that match the user's query.`;
       return {
-        systemPrompt: finalSystemPrompt
+        systemPrompt: finalSystemPrompt,
+        // Null when the passages kept the fused order, also when the reranker failed
+        reranker:
+          rerankOptions.provider !== 'none' &&
+          searchResults.some((result) => result.rerankScore !== null)
+            ? rerankers[rerankOptions.provider].name
+            : null,
+        // Ranked passages with their scores so the UI can show why they were picked
+        results: searchResults.map((result) => ({
+          id: result.id,
+          title: result.title,
+          version: result.version,
+          page: result.page,
+          score: result.score,
+          similarity: result.similarity,
+          rerankScore: result.rerankScore
+        }))
       };
     }
   });
@@ -0,0 +1,112 @@
+// app/api/chat/tools/rerank.ts
+import { generateObject } from 'ai';
+import { z } from 'zod';
+import { google } from '@ai-sdk/google';
+
+export interface RerankCandidate {
+  id: string;
+  text: string;
+}
+
+export interface Reranker {
+  name: string;
+  // Returns one relevance score per candidate, in the same order as the candidates
+  rerank: (query: string, candidates: RerankCandidate[]) => Promise<number[]>;
+}
+
+interface VoyageRerankResponse {
+  data: { index: number; relevance_score: number }[];
+}
+
+// Cross-encoder reranking through Voyage's rerank endpoint. Uses the same API key as the embeddings.
+const voyageReranker = (model: string): Reranker => ({
+  name: `voyage:${model}`,
+  rerank: async (query, candidates) => {
+    const response = await fetch('https://api.voyageai.com/v1/rerank', {
+      cache: 'no-store',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        Authorization: `Bearer ${process.env.VOYAGE_API_KEY}`
+      },
+      body: JSON.stringify({
+        query,
+        documents: candidates.map((candidate) => candidate.text),
+        model,
+        truncation: true
+      })
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Voyage rerank failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const { data }: VoyageRerankResponse = await response.json();
+    const scores = new Array<number>(candidates.length).fill(0);
+    data.forEach(({ index, relevance_score }) => {
+      scores[index] = relevance_score;
+    });
+    return scores;
+  }
+});
+
+const llmRerankSchema = z.object({
+  scores: z
+    .array(
+      z.object({
+        index: z.number().int().describe('The index of the passage'),
+        score: z
+          .number()
+          .min(0)
+          .max(10)
+          .describe('How well the passage answers the query, from 0 to 10')
+      })
+    )
+    .describe('One score for every passage')
+});
+
+// LLM-as-reranker for setups without a cross-encoder. Passages are truncated to keep the prompt small.
+const llmReranker = (modelId: string): Reranker => ({
+  name: `llm:${modelId}`,
+  rerank: async (query, candidates) => {
+    const passages = candidates
+      .map(
+        (candidate, index) => `
+<passage index="${index}">
+${candidate.text.slice(0, 2000)}
+</passage>`
+      )
+      .join('\n');
+
+    const { object } = await generateObject({
+      model: google(modelId),
+      system: `You are a search relevance judge. Score each passage by how well it answers the query. Score 10 for a passage that directly answers it and 0 for an unrelated passage.`,
+      prompt: `<query>${query}</query>
+
+<passages>
+${passages}
+</passages>`,
+      schema: llmRerankSchema,
+      temperature: 0
+    });
+
+    // Normalize to 0-1 so scores are comparable with the cross-encoder
+    const scores = new Array<number>(candidates.length).fill(0);
+    object.scores.forEach(({ index, score }) => {
+      if (index >= 0 && index < candidates.length) {
+        scores[index] = score / 10;
+      }
+    });
+    return scores;
+  }
+});
+
+// Adding a reranker is a single entry here
+export const rerankers = {
+  voyage: voyageReranker('rerank-2'),
+  llm: llmReranker('gemini-2.0-flash-001')
+} satisfies Record<string, Reranker>;
+
+export type RerankProvider = keyof typeof rerankers | 'none';
@@ -1,69 +1,102 @@
-import { type NextRequest, NextResponse } from 'next/server';
-import { getSession } from '@/lib/server/supabase';
+import { NextResponse, after } from 'next/server';
+import { z } from 'zod';
+import { createAdminClient } from '@/lib/server/admin';
+import { apiRoute, jsonError } from '@/lib/server/apiRoute';
+import {
+  getParserForJob,
+  type ParseJobStatus
+} from '@/lib/server/documentParser';
+import {
+  canRunBatch,
+  runIngestionBatch,
+  toJobStatus,
+  type IngestionJob
+} from '../processdoc/worker';
 
 export const dynamic = 'force-dynamic';
 
-export const maxDuration = 60;
+// The worker batch scheduled with after() runs inside this function's duration
+export const maxDuration = 300;
 
-export async function POST(req: NextRequest) {
-  try {
-    if (!process.env.LLAMA_CLOUD_API_KEY) {
-      console.error('LLAMA_CLOUD_API_KEY is not configured');
-      return NextResponse.json(
-        {
-          error: 'Server configuration error: LLAMA_CLOUD_API_KEY is missing'
-        },
-        { status: 500 }
-      );
-    }
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json(
-        { error: 'No active session found' },
-        { status: 401 }
-      );
-    }
+// Most jobs polled in one request, the upload queue splits larger queues into batches of this size
+const MAX_JOBS_PER_REQUEST = 25;
 
-    const { jobId } = await req.json();
+// Move a job out of parsing once the parser is done. A job whose status can't be read stays in
+// parsing and is checked again with the next poll, the other jobs of the poll are not affected.
+async function refreshParseStatus(job: IngestionJob): Promise<IngestionJob> {
+  if (job.status !== 'parsing') return job;
 
-    const statusResponse = await fetch(
-      `https://api.cloud.llamaindex.ai/api/v1/parsing/job/${jobId}`,
-      {
-        headers: {
-          Authorization: `Bearer ${process.env.LLAMA_CLOUD_API_KEY}`,
-          Accept: 'application/json'
-        }
-      }
+  let parseStatus: ParseJobStatus;
+  try {
+    parseStatus = await getParserForJob(job.parse_job_id).getStatus(
+      job.parse_job_id
     );
+  } catch (error) {
+    console.error(`Error checking parsing job of ${job.id}:`, error);
+    return job;
+  }
+  if (parseStatus.status === 'PENDING') return job;
+
+  if (parseStatus.status === 'ERROR') {
+    console.error('Parsing job failed:', parseStatus.error);
+  }
+
+  const supabase = createAdminClient();
+  const { data: updatedJob, error } = await supabase
+    .from('document_ingestion_jobs')
+    .update(
+      parseStatus.status === 'SUCCESS'
+        ? { status: 'queued' }
+        : {
+            status: 'failed',
+            error: `Parsing job failed: ${parseStatus.error}`
+          }
+    )
+    .eq('id', job.id)
+    .select('*')
+    .single();
 
-    if (!statusResponse.ok) {
-      console.error('Failed to check job status:', statusResponse.statusText);
-      return NextResponse.json(
-        { error: `Failed to check job status: ${statusResponse.statusText}` },
-        { status: 500 }
-      );
+  if (error) {
+    console.error(`Error updating ingestion job ${job.id}:`, error);
+    return job;
+  }
+  return updatedJob;
+}
+
+const checkRequestSchema = z.object({
+  jobIds: z.array(z.string().uuid()).min(1).max(MAX_JOBS_PER_REQUEST)
+});
+
+// Polled by the UploadProvider with every unfinished job in the upload queue. Returns the persisted
+// job statuses, moves jobs out of parsing and schedules the next worker batch for each job that no
+// other run holds.
+export const POST = apiRoute(
+  { body: checkRequestSchema, rateLimit: 'ingestion' },
+  async (_req, { session, body: { jobIds } }) => {
+    const supabase = createAdminClient();
+    const { data: jobs, error } = await supabase
+      .from('document_ingestion_jobs')
+      .select('*')
+      .in('id', jobIds)
+      .eq('user_id', session.id);
+
+    if (error) {
+      console.error('Error loading ingestion jobs:', error);
+      return jsonError('Failed to load ingestion jobs', 500);
     }
 
-    const statusData = await statusResponse.json();
+    const currentJobs = await Promise.all(jobs.map(refreshParseStatus));
 
-    if (statusData.status === 'PENDING') {
-      return NextResponse.json({ status: 'PENDING' });
-    } else if (statusData.status === 'ERROR') {
-      console.error('Parsing job failed:', statusData.error_message);
-      return NextResponse.json(
-        { error: `Parsing job failed: ${statusData.error_message}` },
-        { status: 500 }
-      );
-    } else if (statusData.status === 'SUCCESS') {
-      return NextResponse.json({ status: 'SUCCESS' });
+    // One batch at a time keeps a poll for many files from embedding them all in parallel
+    const runnableJobs = currentJobs.filter(canRunBatch);
+    if (runnableJobs.length > 0) {
+      after(async () => {
+        for (const job of runnableJobs) {
+          await runIngestionBatch(job.id);
+        }
+      });
     }
 
-    return NextResponse.json({ status: 'UNKNOWN' });
-  } catch (error) {
-    console.error('Error in POST request:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
+    return NextResponse.json({ jobs: currentJobs.map(toJobStatus) });
   }
-}
+);
@@ -0,0 +1,165 @@
+import { describe, expect, it } from 'vitest';
+import { chunkPage, type ChunkingOptions, type PageChunk } from './chunker';
+
+// 100 characters per chunk, 20 of them overlapping
+const tokenOptions: ChunkingOptions = {
+  strategy: 'tokens',
+  maxTokens: 25,
+  overlapTokens: 5
+};
+
+const headingOptions: ChunkingOptions = {
+  ...tokenOptions,
+  strategy: 'headings'
+};
+
+const words = (count: number, word = 'word') =>
+  Array.from({ length: count }, (_, index) => `${word}${index}`).join(' ');
+
+const expectOffsetsMatchText = (text: string, chunks: PageChunk[]) => {
+  for (const chunk of chunks) {
+    expect(text.slice(chunk.startOffset, chunk.endOffset)).toBe(chunk.text);
+  }
+};
+
+// Every non-whitespace character of the page is in at least one chunk
+const expectFullCoverage = (text: string, chunks: PageChunk[]) => {
+  [...text].forEach((char, index) => {
+    if (/\s/.test(char)) return;
+    expect(
+      chunks.some(
+        (chunk) => chunk.startOffset <= index && index < chunk.endOffset
+      )
+    ).toBe(true);
+  });
+};
+
+describe('chunkPage', () => {
+  it('returns a short page as one trimmed chunk', () => {
+    const text = '\n  Short page text.  \n';
+
+    expect(chunkPage(text, 3, tokenOptions)).toEqual([
+      {
+        pageNumber: 3,
+        chunkIndex: 0,
+        text: 'Short page text.',
+        startOffset: 3,
+        endOffset: 19
+      }
+    ]);
+  });
+
+  it('returns no chunks for an empty page', () => {
+    expect(chunkPage(' \n\n ', 1, tokenOptions)).toEqual([]);
+  });
+
+  describe('token windows', () => {
+    const text = words(80);
+    const chunks = chunkPage(text, 1, tokenOptions);
+
+    it('keeps chunks within maxTokens', () => {
+      expect(chunks.length).toBeGreaterThan(1);
+      for (const chunk of chunks) {
+        expect(chunk.text.length).toBeLessThanOrEqual(100);
+      }
+    });
+
+    it('points the offsets at the chunk text', () => {
+      expectOffsetsMatchText(text, chunks);
+      expectFullCoverage(text, chunks);
+      expect(chunks.map((chunk) => chunk.chunkIndex)).toEqual(
+        chunks.map((_, index) => index)
+      );
+    });
+
+    it('overlaps neighbouring chunks by up to overlapTokens, starting on a word', () => {
+      chunks.slice(1).forEach((chunk, index) => {
+        const previous = chunks[index];
+        const overlap = previous.endOffset - chunk.startOffset;
+
+        expect(overlap).toBeGreaterThan(0);
+        expect(overlap).toBeLessThanOrEqual(20);
+        expect(text[chunk.startOffset - 1]).toBe(' ');
+      });
+    });
+
+    it('ends chunks at whitespace', () => {
+      chunks.slice(0, -1).forEach((chunk) => {
+        expect(text[chunk.endOffset]).toBe(' ');
+      });
+    });
+  });
+
+  it('prefers paragraph breaks over other whitespace', () => {
+    const first = words(25, 'a');
+    const text = `${first}\n\n${words(20, 'b')}`;
+    const [chunk] = chunkPage(text, 1, tokenOptions);
+
+    expect(chunk.text).toBe(first);
+  });
+
+  it('caps the overlap at half a chunk', () => {
+    const text = words(80);
+    const chunks = chunkPage(text, 1, { ...tokenOptions, overlapTokens: 100 });
+
+    expectOffsetsMatchText(text, chunks);
+    chunks.slice(1).forEach((chunk, index) => {
+      expect(chunk.startOffset).toBeGreaterThan(chunks[index].startOffset);
+      expect(chunks[index].endOffset - chunk.startOffset).toBeLessThanOrEqual(
+        50
+      );
+    });
+  });
+
+  it('cuts text without whitespace at maxTokens', () => {
+    const text = 'x'.repeat(250);
+    const chunks = chunkPage(text, 1, tokenOptions);
+
+    expectOffsetsMatchText(text, chunks);
+    expectFullCoverage(text, chunks);
+    expect(chunks[0]).toMatchObject({ startOffset: 0, endOffset: 100 });
+    expect(chunks[1].startOffset).toBe(80);
+  });
+
+  describe('headings', () => {
+    it('merges short sections into one chunk', () => {
+      const text = '# One\nFirst.\n## Two\nSecond.\n## Three\nThird.';
+
+      expect(
+        chunkPage(text, 1, headingOptions).map((chunk) => chunk.text)
+      ).toEqual([text]);
+    });
+
+    it('starts a new chunk at a heading when the sections do not fit together', () => {
+      const one = `# One\n${words(12, 'one')}`;
+      const two = `## Two\n${words(12, 'two')}`;
+      const text = `${one}\n${two}`;
+      const chunks = chunkPage(text, 1, headingOptions);
+
+      expect(chunks.map((chunk) => chunk.text)).toEqual([one, two]);
+      expectOffsetsMatchText(text, chunks);
+    });
+
+    it('splits a long section into token windows inside the section', () => {
+      const intro = '# Intro\nShort.';
+      const long = `## Long\n${words(40, 'c')}`;
+      const text = `${intro}\n${long}`;
+      const chunks = chunkPage(text, 1, headingOptions);
+
+      expect(chunks[0].text).toBe(intro);
+      expect(chunks.length).toBeGreaterThan(2);
+      expect(chunks[chunks.length - 1].endOffset).toBe(text.length);
+      for (const chunk of chunks.slice(1)) {
+        expect(chunk.startOffset).toBeGreaterThanOrEqual(intro.length + 1);
+      }
+      expectOffsetsMatchText(text, chunks);
+      expectFullCoverage(text, chunks);
+    });
+
+    it('does not split on # inside a line', () => {
+      const text = `Issue #12 and C# notes ${words(5)}`;
+
+      expect(chunkPage(text, 1, headingOptions)).toHaveLength(1);
+    });
+  });
+});
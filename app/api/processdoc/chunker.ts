@@ -0,0 +1,139 @@
+import 'server-only';
+
+export type ChunkingStrategy = 'tokens' | 'headings';
+
+export interface ChunkingOptions {
+  // 'headings' first splits a page on markdown headings and only falls back to token windows
+  // for sections that are still too long. 'tokens' uses fixed windows over the whole page.
+  strategy: ChunkingStrategy;
+  maxTokens: number;
+  overlapTokens: number;
+}
+
+export const defaultChunkingOptions: ChunkingOptions = {
+  strategy: 'headings',
+  maxTokens: 500,
+  overlapTokens: 50
+};
+
+export interface PageChunk {
+  pageNumber: number;
+  chunkIndex: number;
+  text: string;
+  // Character offsets of the chunk within the page text (end is exclusive)
+  startOffset: number;
+  endOffset: number;
+}
+
+// Rough token estimate. Good enough for sizing chunks without pulling in a tokenizer.
+const CHARS_PER_TOKEN = 4;
+
+interface Span {
+  start: number;
+  end: number;
+}
+
+// Find the best place to end a window: a paragraph break, then a line break, then a sentence end,
+// then whitespace. Only looks in the last third of the window so chunks don't get too small.
+function findBreak(text: string, start: number, end: number) {
+  if (end >= text.length) return text.length;
+
+  const minEnd = start + Math.floor(((end - start) * 2) / 3);
+  const window = text.slice(minEnd, end);
+
+  for (const separator of ['\n\n', '\n', '. ', ' ']) {
+    const index = window.lastIndexOf(separator);
+    if (index !== -1) {
+      return minEnd + index + separator.length;
+    }
+  }
+  return end;
+}
+
+function splitByTokens(
+  text: string,
+  span: Span,
+  { maxTokens, overlapTokens }: ChunkingOptions
+): Span[] {
+  const maxChars = maxTokens * CHARS_PER_TOKEN;
+  const overlapChars = Math.min(
+    overlapTokens * CHARS_PER_TOKEN,
+    Math.floor(maxChars / 2)
+  );
+
+  if (span.end - span.start <= maxChars) return [span];
+
+  const spans: Span[] = [];
+  let start = span.start;
+  while (start < span.end) {
+    const end = Math.min(findBreak(text, start, start + maxChars), span.end);
+    spans.push({ start, end });
+    if (end >= span.end) break;
+    // Start the overlap on a word boundary so chunks don't begin mid-word
+    const overlapStart = end - overlapChars;
+    const wordStart = text.slice(overlapStart, end).search(/\s/);
+    start = Math.max(
+      wordStart === -1 ? overlapStart : overlapStart + wordStart + 1,
+      start + 1
+    );
+  }
+  return spans;
+}
+
+// Markdown heading boundaries in the page, always including the start of the page
+function splitByHeadings(text: string): Span[] {
+  const starts = [0];
+  const headingPattern = /^#{1,6}\s/gm;
+  let match: RegExpExecArray | null;
+  while ((match = headingPattern.exec(text)) !== null) {
+    if (match.index > 0) starts.push(match.index);
+  }
+
+  return starts.map((start, index) => ({
+    start,
+    end: starts[index + 1] ?? text.length
+  }));
+}
+
+// Merge neighbouring sections while they fit in one chunk, so short headings don't become tiny chunks
+function mergeSmallSections(sections: Span[], maxChars: number): Span[] {
+  return sections.reduce<Span[]>((merged, section) => {
+    const previous = merged[merged.length - 1];
+    if (previous && section.end - previous.start <= maxChars) {
+      previous.end = section.end;
+    } else {
+      merged.push({ ...section });
+    }
+    return merged;
+  }, []);
+}
+
+export function chunkPage(
+  text: string,
+  pageNumber: number,
+  options: ChunkingOptions = defaultChunkingOptions
+): PageChunk[] {
+  const sections =
+    options.strategy === 'headings'
+      ? mergeSmallSections(
+          splitByHeadings(text),
+          options.maxTokens * CHARS_PER_TOKEN
+        )
+      : [{ start: 0, end: text.length }];
+
+  return sections
+    .flatMap((section) => splitByTokens(text, section, options))
+    .map((span) => {
+      // Trim whitespace but keep the offsets pointing at the trimmed text
+      const raw = text.slice(span.start, span.end);
+      const leading = raw.length - raw.trimStart().length;
+      const chunkText = raw.trim();
+      return {
+        text: chunkText,
+        startOffset: span.start + leading,
+        endOffset: span.start + leading + chunkText.length
+      };
+    })
+    .filter((chunk) => chunk.text !== '')
+    .map((chunk, chunkIndex) => ({ ...chunk, pageNumber, chunkIndex }));
+}
@@ -0,0 +1,449 @@
+import 'server-only';
+import { embedMany } from 'ai';
+import { voyage } from 'voyage-ai-provider';
+import { format } from 'date-fns';
+import { TZDate } from '@date-fns/tz';
+import { revalidatePath } from 'next/cache';
+import { createAdminClient } from '@/lib/server/admin';
+import { getParserForJob } from '@/lib/server/documentParser';
+import type { Json, Tables, TablesInsert } from '@/types/database';
+import {
+  preliminaryAnswerChainAgent,
+  generateDocumentMetadata
+} from './agentchains';
+import {
+  chunkPage,
+  defaultChunkingOptions,
+  type ChunkingOptions
+} from './chunker';
+
+// Pages processed per worker run. Small enough that one run fits well inside maxDuration.
+const PAGES_PER_BATCH = 10;
+// How long a worker run holds the job. A crashed run releases the job once the lease expires.
+const LEASE_SECONDS = 300;
+
+const embeddingModel = voyage.textEmbeddingModel('voyage-3-large', {
+  inputType: 'document',
+  truncation: false,
+  outputDimension: 1024,
+  outputDtype: 'int8'
+});
+
+export type IngestionJob = Tables<'document_ingestion_jobs'>;
+export type IngestionJobStatus =
+  'parsing' | 'queued' | 'processing' | 'completed' | 'failed';
+type PageErrors = Record<string, string>;
+type DocumentVectorRecord = TablesInsert<'user_documents_vec'>;
+
+function sanitizeFilename(filename: string): string {
+  const sanitized = filename
+    .normalize('NFD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .replace(/[^a-zA-Z0-9._-]/g, '_');
+  return sanitized;
+}
+
+// Shape returned to the client when it polls a job
+export const toJobStatus = (job: IngestionJob) => ({
+  jobId: job.id,
+  fileName: job.file_name,
+  status: job.status as IngestionJobStatus,
+  pagesDone: job.pages_done,
+  totalPages: job.total_pages,
+  pageErrors: job.page_errors as PageErrors,
+  error: job.error,
+  filterTags: job.filter_tags
+});
+
+export type IngestionJobStatusResponse = ReturnType<typeof toJobStatus>;
+
+export const canRunBatch = (job: IngestionJob) =>
+  (job.status === 'queued' || job.status === 'processing') &&
+  (!job.locked_until || new Date(job.locked_until) < new Date());
+
+async function processDocumentWithAgentChains(
+  doc: string,
+  ai_title: string,
+  ai_description: string,
+  ai_maintopics: string[],
+  userId: string
+): Promise<{
+  combinedPreliminaryAnswers: string;
+}> {
+  const prompt = `
+  Title: ${ai_title}
+  Description: ${ai_description}
+  Main Topics: ${ai_maintopics.join(', ')}
+  Document: ${doc}
+  `;
+
+  try {
+    const result = await preliminaryAnswerChainAgent(prompt, userId);
+
+    const { object } = result;
+
+    // If tags is potentially undefined, use nullish coalescing
+    const tagTaxProvisions = object.tags.join(', ') || '';
+
+    const combinedPreliminaryAnswers = [
+      object.preliminary_answer_1,
+      object.preliminary_answer_2,
+      tagTaxProvisions,
+      object.hypothetical_question_1,
+      object.hypothetical_question_2
+    ].join('\n');
+    return { combinedPreliminaryAnswers };
+  } catch (error) {
+    if (
+      error instanceof Error &&
+      error.message === 'Processing timeout after 15 seconds'
+    ) {
+      console.error(`Error processing document with agent chains: ${error}`);
+    }
+
+    return {
+      combinedPreliminaryAnswers: ''
+    };
+  }
+}
+
+// Filter tag of a document version. The first version keeps the original format, so documents
+// uploaded before versioning keep their tags.
+const versionFilterTags = (fileName: string, version: number) => {
+  const now = new TZDate(new Date(), 'Europe/Copenhagen');
+  const timestamp = format(now, 'yyyy-MM-dd');
+  const sanitizedFilename = sanitizeFilename(fileName);
+  return version === 1
+    ? `${sanitizedFilename}[[${timestamp}]]`
+    : `${sanitizedFilename}_v${version}[[${timestamp}]]`;
+};
+
+// First run of a job: generate the document metadata and create a new version of the document.
+// Earlier versions keep their row, vectors and file, so old citations still resolve.
+async function createDocumentRecord(job: IngestionJob, pages: string[]) {
+  const supabase = createAdminClient();
+  const title = job.file_name.replace(/ /g, '_').trim();
+
+  // A first run that died after creating the version reuses it instead of adding another one
+  const { data: existingVersion } = await supabase
+    .from('user_documents')
+    .select('id, filter_tags')
+    .eq('user_id', job.user_id)
+    .eq('file_path', job.file_path)
+    .maybeSingle();
+
+  if (existingVersion) {
+    return {
+      documentId: existingVersion.id,
+      filterTags: existingVersion.filter_tags
+    };
+  }
+
+  let selectedDocuments = pages;
+  if (pages.length > 19) {
+    selectedDocuments = [...pages.slice(0, 10), ...pages.slice(-10)];
+  }
+
+  const combinedDocumentContent = selectedDocuments.join('\n\n');
+  const { object } = await generateDocumentMetadata(
+    combinedDocumentContent,
+    job.user_id
+  );
+
+  const { data: latestVersion, error: versionError } = await supabase
+    .from('user_documents')
+    .select('version')
+    .eq('user_id', job.user_id)
+    .eq('title', title)
+    .order('version', { ascending: false })
+    .limit(1)
+    .maybeSingle();
+
+  if (versionError) {
+    throw new Error(
+      `Failed to read document versions: ${versionError.message}`
+    );
+  }
+
+  const version = (latestVersion?.version ?? 0) + 1;
+  const filterTags = versionFilterTags(job.file_name, version);
+
+  const { error: docError, data: docData } = await supabase
+    .from('user_documents')
+    .insert({
+      user_id: job.user_id,
+      title,
+      version,
+      file_path: job.file_path,
+      ai_title: object.descriptiveTitle,
+      ai_description: object.shortDescription,
+      ai_maintopics: object.mainTopics,
+      ai_keyentities: object.keyEntities,
+      filter_tags: filterTags,
+      total_pages: pages.length,
+      created_at: new Date().toISOString()
+    })
+    .select('id')
+    .single();
+
+  if (docError) {
+    console.error('Error creating document version:', docError);
+    throw new Error(`Failed to create document record: ${docError.message}`);
+  }
+
+  return { documentId: docData.id, filterTags };
+}
+
+async function embedPage(
+  doc: string,
+  pageNumber: number,
+  document: Pick<
+    Tables<'user_documents'>,
+    'id' | 'ai_title' | 'ai_description' | 'ai_maintopics' | 'ai_keyentities'
+  >,
+  fileName: string,
+  userId: string,
+  chunkingOptions: ChunkingOptions
+): Promise<DocumentVectorRecord[]> {
+  const descriptiveTitle = document.ai_title ?? fileName;
+  const shortDescription = document.ai_description ?? '';
+  const mainTopics = document.ai_maintopics ?? [];
+  const keyEntities = document.ai_keyentities ?? [];
+
+  const { combinedPreliminaryAnswers } = await processDocumentWithAgentChains(
+    doc,
+    descriptiveTitle,
+    shortDescription,
+    mainTopics,
+    userId
+  );
+
+  // Each chunk is embedded with the document context and the page's preliminary answers,
+  // but only the chunk itself is stored and later pasted into the prompt
+  const textChunks = chunkPage(doc, pageNumber, chunkingOptions);
+  const embeddingInputs = textChunks.map((chunk) =>
+    combinedPreliminaryAnswers
+      ? `
+      ${fileName} \n
+      ${descriptiveTitle} \n
+      ${shortDescription} \n
+      ${mainTopics} \n
+      ${keyEntities} \n\n
+
+      ${chunk.text} \n\n
+
+      ${combinedPreliminaryAnswers}
+      `
+      : `
+      ${descriptiveTitle} \n\n
+
+      ${chunk.text}
+      `
+  );
+
+  const { embeddings } = await embedMany({
+    model: embeddingModel,
+    values: embeddingInputs
+  });
+
+  return textChunks.map((chunk, index) => {
+    const embedding = embeddings[index];
+    if (!embedding) {
+      throw new Error(`No embedding generated for chunk ${chunk.chunkIndex}`);
+    }
+
+    return {
+      document_id: document.id,
+      page_number: pageNumber,
+      chunk_index: chunk.chunkIndex,
+      chunk_start: chunk.startOffset,
+      chunk_end: chunk.endOffset,
+      text_content: chunk.text,
+      embedding: `[${embedding.join(',')}]`
+    };
+  });
+}
+
+// Page numbers that already have vectors stored. Used to skip finished pages when a job resumes.
+async function getEmbeddedPages(documentId: string) {
+  const supabase = createAdminClient();
+  const { data, error } = await supabase
+    .from('user_documents_vec')
+    .select('page_number')
+    .eq('document_id', documentId)
+    // One row per page keeps this under the default row limit for large documents
+    .eq('chunk_index', 0);
+
+  if (error) {
+    throw new Error(`Failed to read embedded pages: ${error.message}`);
+  }
+
+  return new Set(data.map((row) => row.page_number));
+}
+
+// Claim the job for one worker run. Returns null if another run holds the lease or the job is not runnable.
+async function claimJob(jobId: string) {
+  const supabase = createAdminClient();
+  const now = new Date();
+  const { data, error } = await supabase
+    .from('document_ingestion_jobs')
+    .update({
+      locked_until: new Date(
+        now.getTime() + LEASE_SECONDS * 1000
+      ).toISOString(),
+      updated_at: now.toISOString()
+    })
+    .eq('id', jobId)
+    .in('status', ['queued', 'processing'])
+    .or(`locked_until.is.null,locked_until.lt.${now.toISOString()}`)
+    .select('*')
+    .maybeSingle();
+
+  if (error) {
+    console.error('Error claiming ingestion job:', error);
+    return null;
+  }
+  return data;
+}
+
+/**
+ * Process the next batch of pages for an ingestion job.
+ *
+ * Each run generates the document metadata on the first pass, then embeds up to PAGES_PER_BATCH
+ * pages that have neither vectors nor a recorded error. Progress is written back to the job row,
+ * so a run that dies midway only loses its own batch and the next run picks up where it stopped.
+ */
+export async function runIngestionBatch(
+  jobId: string,
+  chunkingOptions: ChunkingOptions = defaultChunkingOptions
+) {
+  const job = await claimJob(jobId);
+  if (!job) return;
+
+  const supabase = createAdminClient();
+  const pageErrors: PageErrors = { ...(job.page_errors as PageErrors) };
+
+  try {
+    const pages = await getParserForJob(job.parse_job_id).fetchPages(
+      job.parse_job_id
+    );
+
+    let documentId = job.document_id;
+    if (!documentId) {
+      const record = await createDocumentRecord(job, pages);
+      documentId = record.documentId;
+
+      const { error } = await supabase
+        .from('document_ingestion_jobs')
+        .update({
+          document_id: record.documentId,
+          filter_tags: record.filterTags,
+          total_pages: pages.length,
+          status: 'processing'
+        })
+        .eq('id', job.id);
+
+      if (error) {
+        throw new Error(`Failed to update ingestion job: ${error.message}`);
+      }
+    }
+
+    const { data: document, error: documentError } = await supabase
+      .from('user_documents')
+      .select('id, ai_title, ai_description, ai_maintopics, ai_keyentities')
+      .eq('id', documentId)
+      .single();
+
+    if (documentError) {
+      throw new Error(`Document record not found: ${documentError.message}`);
+    }
+
+    const embeddedPages = await getEmbeddedPages(documentId);
+    // Pages without text, e.g. scanned pages without OCR, have nothing to embed and count as done
+    pages.forEach((doc, index) => {
+      if (doc.trim() === '') embeddedPages.add(index + 1);
+    });
+    const pendingPages = pages
+      .map((doc, index) => ({ doc, pageNumber: index + 1 }))
+      .filter(
+        ({ pageNumber }) =>
+          !embeddedPages.has(pageNumber) && !(pageNumber in pageErrors)
+      );
+    const batch = pendingPages.slice(0, PAGES_PER_BATCH);
+
+    const results = await Promise.all(
+      batch.map(async ({ doc, pageNumber }) => {
+        try {
+          return await embedPage(
+            doc,
+            pageNumber,
+            document,
+            job.file_name,
+            job.user_id,
+            chunkingOptions
+          );
+        } catch (error) {
+          console.error(`Error processing document page: ${pageNumber}`, error);
+          pageErrors[pageNumber] =
+            error instanceof Error ? error.message : String(error);
+          return [];
+        }
+      })
+    );
+
+    const vectorRecords = results.flat();
+    if (vectorRecords.length > 0) {
+      const { error } = await supabase
+        .from('user_documents_vec')
+        .upsert(vectorRecords, {
+          onConflict: 'document_id,page_number,chunk_index'
+        });
+
+      if (error) {
+        // Nothing from this batch was stored, so the pages stay pending for the next run
+        throw new Error(`Failed to store vectors: ${error.message}`);
+      }
+      batch.forEach(({ pageNumber }) => {
+        if (!(pageNumber in pageErrors)) embeddedPages.add(pageNumber);
+      });
+    }
+
+    const isFinished = pendingPages.length <= batch.length;
+    const failedPages = Object.keys(pageErrors).length;
+    const status: IngestionJobStatus = !isFinished
+      ? 'processing'
+      : failedPages > 0
+        ? 'failed'
+        : 'completed';
+
+    await supabase
+      .from('document_ingestion_jobs')
+      .update({
+        status,
+        pages_done: embeddedPages.size,
+        page_errors: pageErrors as Json,
+        error:
+          status === 'failed' ? `${failedPages} page(s) failed to index` : null,
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+
+    if (isFinished) {
+      revalidatePath('/chat', 'layout');
+    }
+  } catch (error) {
+    console.error(`Error running ingestion job ${job.id}:`, error);
+    // Release the lease and keep the job resumable, a retry continues from the stored progress
+    await supabase
+      .from('document_ingestion_jobs')
+      .update({
+        status: 'failed',
+        page_errors: pageErrors as Json,
+        error: error instanceof Error ? error.message : String(error),
+        locked_until: null,
+        updated_at: new Date().toISOString()
+      })
+      .eq('id', job.id);
+  }
+}
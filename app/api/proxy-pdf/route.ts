@@ -1,47 +1,34 @@
 // app/api/proxy-pdf/route.ts
-import { type NextRequest, NextResponse } from 'next/server';
+import { NextResponse } from 'next/server';
+import { apiRoute, jsonError } from '@/lib/server/apiRoute';
+import { OutboundFetchError, safeFetch } from '@/lib/server/safeFetch';
 
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const url = searchParams.get('url');
-
-    if (!url) {
-      return NextResponse.json(
-        { error: 'URL parameter is required' },
-        { status: 400 }
-      );
-    }
-
-    // Extract base URL
-    const baseUrl = new URL(url).origin;
+// Streams a PDF from another site into the website viewer
+export const GET = apiRoute({ rateLimit: 'proxy' }, async (request) => {
+  const url = request.nextUrl.searchParams.get('url');
+  if (!url) {
+    return jsonError('URL parameter is required', 400);
+  }
 
-    const response = await fetch(url, {
-      headers: {
-        Referer: baseUrl,
-        Origin: baseUrl,
-        'User-Agent':
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        Accept: 'application/pdf,*/*'
-      }
+  try {
+    const response = await safeFetch(url, {
+      accept: 'application/pdf,*/*',
+      maxBytes: 20 * 1024 * 1024,
+      timeoutMs: 20000
     });
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch PDF: ${response.statusText}`);
-    }
-
-    const pdfBuffer = await response.arrayBuffer();
-
-    return new NextResponse(pdfBuffer, {
+    return new NextResponse(new Uint8Array(response.body), {
       headers: {
         'Content-Type': 'application/pdf',
         'Content-Disposition': 'inline',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=3600, must-revalidate'
+        'X-Content-Type-Options': 'nosniff',
+        'Cache-Control': 'private, max-age=3600'
       }
     });
   } catch (error) {
-    console.error('PDF proxy error:', error);
-    return NextResponse.json({ error: 'Failed to fetch PDF' }, { status: 500 });
+    if (error instanceof OutboundFetchError) {
+      return jsonError(error.message, error.status);
+    }
+    throw error;
   }
-}
+});
@@ -1,56 +1,76 @@
-// app/api/proxy-preview/route.ts
-import { type NextRequest, NextResponse } from 'next/server';
+// app/api/proxy-website/route.ts
+import { NextResponse } from 'next/server';
+import { apiRoute, jsonError } from '@/lib/server/apiRoute';
+import { OutboundFetchError, safeFetch } from '@/lib/server/safeFetch';
+import {
+  createReaderDocument,
+  type ReaderTheme
+} from '@/lib/server/readerMode';
 
-export async function GET(request: NextRequest) {
-  try {
-    const searchParams = request.nextUrl.searchParams;
-    const url = searchParams.get('url');
-
-    if (!url) {
-      return NextResponse.json(
-        { error: 'URL parameter is required' },
-        { status: 400 }
-      );
-    }
+const isHtml = (contentType: string) =>
+  contentType === '' || /html|xml/i.test(contentType);
 
-    // Extract base URL
-    const baseUrl = new URL(url).origin;
+// Loads a website into the website viewer. Reader mode (the default) shows the article as a clean
+// document without anything of the website running, mode=original shows the page itself.
+export const GET = apiRoute({ rateLimit: 'proxy' }, async (request) => {
+  const { searchParams } = request.nextUrl;
+  const url = searchParams.get('url');
+  if (!url) {
+    return jsonError('URL parameter is required', 400);
+  }
+  const mode = searchParams.get('mode') === 'original' ? 'original' : 'reader';
+  const theme: ReaderTheme =
+    searchParams.get('theme') === 'dark' ? 'dark' : 'light';
 
-    const response = await fetch(url, {
-      headers: {
-        Referer: baseUrl,
-        Origin: baseUrl,
-        'User-Agent':
-          'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36',
-        Accept:
-          'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8'
-      }
+  try {
+    const response = await safeFetch(url, {
+      accept:
+        'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8'
     });
+    const content = response.body.toString('utf-8');
 
-    if (!response.ok) {
-      throw new Error(`Failed to fetch content: ${response.statusText}`);
+    if (mode === 'reader') {
+      if (!isHtml(response.contentType)) {
+        return jsonError('Reader mode is only available for web pages', 415);
+      }
+      const nonce = crypto.randomUUID();
+      return new NextResponse(
+        createReaderDocument({
+          html: content,
+          url: response.url,
+          theme,
+          nonce
+        }),
+        {
+          headers: {
+            'Content-Type': 'text/html; charset=utf-8',
+            'Content-Security-Policy': `default-src 'none'; img-src https: http: data:; style-src 'nonce-${nonce}'; form-action 'none'`,
+            'Cache-Control': 'private, max-age=3600'
+          }
+        }
+      );
     }
 
-    const content = await response.text();
-
-    // Inject base tag to handle relative URLs
+    // Inject base tag to handle relative URLs, relative to the page after redirects
     const modifiedContent = content.replace(
       '<head>',
-      `<head><base href="${baseUrl}/">`
+      `<head><base href="${response.url.href}">`
     );
 
     return new NextResponse(modifiedContent, {
       headers: {
         'Content-Type': 'text/html',
-        'Access-Control-Allow-Origin': '*',
-        'Cache-Control': 'public, max-age=3600, must-revalidate'
+        // The page's scripts run in a unique origin, without access to the app's cookies and
+        // storage, also when the URL is opened outside the viewer
+        'Content-Security-Policy':
+          'sandbox allow-scripts allow-popups allow-forms',
+        'Cache-Control': 'private, max-age=3600'
       }
     });
   } catch (error) {
-    console.error('Preview proxy error:', error);
-    return NextResponse.json(
-      { error: 'Failed to fetch preview' },
-      { status: 500 }
-    );
+    if (error instanceof OutboundFetchError) {
+      return jsonError(error.message, error.status);
+    }
+    throw error;
   }
-}
+});
@@ -1,6 +1,10 @@
-import { type NextRequest, NextResponse } from 'next/server';
-import { getSession } from '@/lib/server/supabase';
+import { NextResponse } from 'next/server';
+import { z } from 'zod';
 import { createAdminClient } from '@/lib/server/admin';
+import { createServerSupabaseClient } from '@/lib/server/server';
+import { apiRoute, jsonError } from '@/lib/server/apiRoute';
+import { getDocumentParser } from '@/lib/server/documentParser';
+import { getRemainingUploadBytes } from '@/lib/server/quota';
 
 export const dynamic = 'force-dynamic';
 
@@ -8,75 +12,94 @@ export const maxDuration = 60;
 
 const supabaseAdmin = createAdminClient();
 
-export async function POST(req: NextRequest) {
-  try {
-    // Check for Llama Cloud API key
-    if (!process.env.LLAMA_CLOUD_API_KEY) {
-      console.error('LLAMA_CLOUD_API_KEY is not configured');
-      return NextResponse.json(
-        { error: 'Server configuration error: LLAMA_CLOUD_API_KEY is missing' },
-        { status: 500 }
-      );
-    }
+const uploadRequestSchema = z.object({
+  uploadedFiles: z
+    .array(
+      z.object({
+        name: z.string().min(1),
+        path: z.string().min(1)
+      })
+    )
+    .min(1, 'No files provided')
+});
 
-    const session = await getSession();
-    if (!session) {
-      return NextResponse.json(
-        { error: 'No active session found' },
-        { status: 401 }
-      );
+// Uploads are stored as `<user id>/<object name>`. Only that exact form is accepted, the storage API
+// resolves dot segments in the URL, so `<user id>/../<other user id>/file` would reach another folder.
+const STORAGE_OBJECT_NAME = /^[\w.=-]+$/;
+
+const isOwnStoragePath = (path: string, userId: string) => {
+  const [folder, name, ...rest] = path.split('/');
+  return (
+    folder === userId &&
+    rest.length === 0 &&
+    name !== undefined &&
+    STORAGE_OBJECT_NAME.test(name) &&
+    name !== '.' &&
+    name !== '..'
+  );
+};
+
+export const POST = apiRoute(
+  { body: uploadRequestSchema, rateLimit: 'upload' },
+  async (_req, { session, body: { uploadedFiles } }) => {
+    if (
+      uploadedFiles.some((file) => !isOwnStoragePath(file.path, session.id))
+    ) {
+      return jsonError('Invalid file path', 400);
     }
 
-    const { uploadedFiles } = await req.json();
+    // Checked with the user's own client, so storage policies apply before the admin client is used
+    const supabase = await createServerSupabaseClient();
+    const existing = await Promise.all(
+      uploadedFiles.map((file) =>
+        supabase.storage.from('userfiles').exists(file.path)
+      )
+    );
+    if (existing.some(({ data }) => !data)) {
+      return jsonError('File not found', 404);
+    }
 
-    if (!Array.isArray(uploadedFiles) || uploadedFiles.length === 0) {
-      return NextResponse.json({ error: 'No files provided' }, { status: 400 });
+    // The files are already in storage, so a batch that goes over the plan's upload limit is removed again
+    if ((await getRemainingUploadBytes(session.id)) < 0) {
+      await supabaseAdmin.storage
+        .from('userfiles')
+        .remove(uploadedFiles.map((file) => file.path));
+      return jsonError(
+        'Upload would exceed the storage limit of your plan.',
+        413
+      );
     }
 
     const results = [];
 
     for (const file of uploadedFiles) {
       try {
-        const { data, error } = await supabaseAdmin.storage
-          .from('userfiles')
-          .download(file.path);
-
-        if (error) {
-          console.error('Error downloading file:', error);
-          results.push({
-            file: file.name,
-            status: 'error',
-            message: 'Download failed'
-          });
-          continue;
-        }
-
-        const formData = new FormData();
-        formData.append('file', new Blob([data]), file.name);
-
-        const uploadResponse = await fetch(
-          'https://api.cloud.llamaindex.ai/api/v1/parsing/upload',
-          {
-            method: 'POST',
-            headers: {
-              Authorization: `Bearer ${process.env.LLAMA_CLOUD_API_KEY}`,
-              Accept: 'application/json'
-            },
-            body: formData
-          }
+        const parseJobId = await getDocumentParser(file.name).submit(
+          file.path,
+          file.name
         );
 
-        if (!uploadResponse.ok) {
-          throw new Error(
-            `Failed to upload file: ${uploadResponse.statusText}`
-          );
+        // The ingestion job tracks parsing and indexing progress, the client polls it via /api/checkdoc
+        const { data: job, error } = await supabaseAdmin
+          .from('document_ingestion_jobs')
+          .insert({
+            user_id: session.id,
+            file_name: file.name,
+            file_path: file.path,
+            parse_job_id: parseJobId,
+            status: 'parsing'
+          })
+          .select('id')
+          .single();
+
+        if (error) {
+          throw new Error(`Failed to create ingestion job: ${error.message}`);
         }
 
-        const uploadResult = await uploadResponse.json();
         results.push({
           file: file.name,
           status: 'success',
-          jobId: uploadResult.id
+          jobId: job.id
         });
       } catch (error) {
         console.error(`Error processing file ${file.name}:`, error);
@@ -89,11 +112,5 @@ export async function POST(req: NextRequest) {
     }
 
     return NextResponse.json({ results });
-  } catch (error) {
-    console.error('Error in POST request:', error);
-    return NextResponse.json(
-      { error: 'Internal server error' },
-      { status: 500 }
-    );
   }
-}
+);
@@ -0,0 +1,10 @@
+import { NextResponse } from 'next/server';
+import { apiRoute } from '@/lib/server/apiRoute';
+import { getUsageSummary } from '@/lib/server/quota';
+
+export const dynamic = 'force-dynamic';
+
+// Plan limits and current usage: messages left per endpoint, tokens used this month and upload storage
+export const GET = apiRoute({}, async (_req, { session }) =>
+  NextResponse.json(await getUsageSummary(session.id))
+);
@@ -3,13 +3,21 @@ import 'server-only';
 import { createServerSupabaseClient } from '@/lib/server/server';
 import { unstable_noStore as noStore } from 'next/cache';
 import type { LanguageModelV1Source } from '@ai-sdk/provider';
-import { type Message } from '@ai-sdk/react';
 import type { Attachment, ToolInvocation } from '@ai-sdk/ui-utils';
-import type { Tables } from '@/types/database';
+import type { SupabaseClient } from '@supabase/supabase-js';
+import type { Database, Tables } from '@/types/database';
+import type { BranchMessage } from '@/app/chat/utils/branches';
+import {
+  MESSAGE_PARTS_VERSION,
+  getMessageText,
+  type MessagePart,
+  type MessageStatusAnnotation
+} from '@/lib/messageParts';
 
 type ChatMessage = Pick<
   Tables<'chat_messages'>,
   | 'id'
+  | 'parent_id'
   | 'is_user_message'
   | 'content'
   | 'created_at'
@@ -17,6 +25,10 @@ type ChatMessage = Pick<
   | 'reasoning'
   | 'attachments'
   | 'tool_invocations'
+  | 'parts'
+  | 'parts_version'
+  | 'status'
+  | 'error'
 >;
 
 function parseSources(sources: unknown): LanguageModelV1Source[] {
@@ -91,68 +103,90 @@ function parseToolInvocations(toolInvocations: unknown): ToolInvocation[] {
   }
 }
 
-export function formatMessages(messages: ChatMessage[]): Message[] {
-  return messages.map((message) => {
-    const messageParts = [];
+// Rebuilds the parts of a message saved before the parts were stored. The order is a guess,
+// the text always comes first and tool calls last.
+function legacyParts(message: ChatMessage): MessagePart[] {
+  const messageParts: MessagePart[] = [];
+
+  // Add the text part
+  messageParts.push({
+    type: 'text' as const,
+    text: message.content ?? ''
+  });
 
-    // Add the text part
+  // Add reasoning part if available (only for assistant messages)
+  if (!message.is_user_message && message.reasoning) {
     messageParts.push({
-      type: 'text' as const,
-      text: message.content ?? ''
+      type: 'reasoning' as const,
+      reasoning: message.reasoning,
+      details: [
+        {
+          type: 'text' as const,
+          text: message.reasoning
+        }
+      ]
     });
+  }
 
-    // Add reasoning part if available (only for assistant messages)
-    if (!message.is_user_message && message.reasoning) {
-      messageParts.push({
-        type: 'reasoning' as const,
-        reasoning: message.reasoning,
-        details: [
-          {
-            type: 'text' as const,
-            text: message.reasoning
-          }
-        ]
-      });
-    }
+  // Add source parts if available - now including title
+  if (parseSources(message.sources).length > 0) {
+    messageParts.push(
+      ...parseSources(message.sources).map((source) => ({
+        type: 'source' as const,
+        source: {
+          sourceType: 'url' as const,
+          id: source.id,
+          url: source.url,
+          title: source.title
+        }
+      }))
+    );
+  }
 
-    // Add source parts if available - now including title
-    if (parseSources(message.sources).length > 0) {
+  // Add tool invocation parts if available
+  if (!message.is_user_message && message.tool_invocations) {
+    const toolInvocations = parseToolInvocations(message.tool_invocations);
+
+    if (toolInvocations.length > 0) {
       messageParts.push(
-        ...parseSources(message.sources).map((source) => ({
-          type: 'source' as const,
-          source: {
-            sourceType: 'url' as const,
-            id: source.id,
-            url: source.url,
-            title: source.title
-          }
+        ...toolInvocations.map((invocation: ToolInvocation) => ({
+          type: 'tool-invocation' as const,
+          toolInvocation: invocation
         }))
       );
     }
+  }
 
-    // Add tool invocation parts if available
-    if (!message.is_user_message && message.tool_invocations) {
-      const toolInvocations = parseToolInvocations(message.tool_invocations);
+  return messageParts;
+}
 
-      if (toolInvocations.length > 0) {
-        messageParts.push(
-          ...toolInvocations.map((invocation: ToolInvocation) => ({
-            type: 'tool-invocation' as const,
-            toolInvocation: invocation
-          }))
-        );
-      }
-    }
+export function formatMessages(messages: ChatMessage[]): BranchMessage[] {
+  return messages.map((message) => {
+    // Stored parts are returned as saved, so the message renders like it did while streaming
+    const messageParts =
+      message.parts_version === MESSAGE_PARTS_VERSION
+        ? (message.parts as MessagePart[])
+        : legacyParts(message);
 
     // Create the message object
-    const formattedMessage: Message = {
+    const formattedMessage: BranchMessage = {
       role: message.is_user_message ? 'user' : 'assistant',
       id: message.id,
-      content: message.content ?? '',
+      parentId: message.parent_id,
+      content: getMessageText(messageParts),
       parts: messageParts,
       createdAt: new Date(message.created_at)
     };
 
+    if (message.status === 'aborted' || message.status === 'failed') {
+      formattedMessage.annotations = [
+        {
+          status: message.status,
+          ...(message.error && { error: message.error })
+        } satisfies MessageStatusAnnotation
+      ];
+    }
+
     if (message.is_user_message && message.attachments) {
       const attachments = parseAttachments(message.attachments);
 
@@ -185,13 +219,18 @@ export async function fetchChat(chatId: string) {
         updated_at,
         chat_messages!inner (
           id,
+          parent_id,
           is_user_message,
           content,
           created_at,
           sources,
           reasoning,
           attachments,
-          tool_invocations
+          tool_invocations,
+          parts,
+          parts_version,
+          status,
+          error
         )
       `
     )
@@ -208,3 +247,40 @@ export async function fetchChat(chatId: string) {
 
   return data;
 }
+
+// Every saved message of the chat, all branches included. Pass a client to read a chat that is not
+// the user's own, e.g. a shared one.
+export async function fetchChatMessages(
+  chatId: string,
+  client?: SupabaseClient<Database>
+) {
+  const supabase = client ?? (await createServerSupabaseClient());
+
+  const { data, error } = await supabase
+    .from('chat_messages')
+    .select(
+      `
+        id,
+        parent_id,
+        is_user_message,
+        content,
+        created_at,
+        sources,
+        reasoning,
+        attachments,
+        tool_invocations,
+        parts,
+        parts_version,
+        status,
+        error
+      `
+    )
+    .eq('chat_session_id', chatId)
+    .order('created_at', { ascending: true });
+
+  if (error) {
+    throw new Error(`Failed to fetch chat messages: ${error.message}`);
+  }
+
+  return formatMessages(data);
+}
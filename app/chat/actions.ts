@@ -7,10 +7,12 @@ import { createAdminClient } from '@/lib/server/admin';
 import { revalidatePath } from 'next/cache';
 import { cookies } from 'next/headers';
 import { decodeBase64 } from './utils/base64';
+import { randomBytes } from 'crypto';
 
 export interface ChatPreview {
   id: string;
   firstMessage: string;
+  summary: string | null;
   created_at: string;
 }
 
@@ -31,6 +33,7 @@ export async function fetchMoreChatPreviews(offset: number) {
           id,
           created_at,
           chat_title,
+          chat_summary,
           first_message:chat_messages!inner(content)
         `
       )
@@ -46,6 +49,7 @@ export async function fetchMoreChatPreviews(offset: number) {
         session.chat_title ??
         session.first_message[0]?.content ??
         'No messages yet',
+      summary: session.chat_summary,
       created_at: session.created_at
     }));
 
@@ -82,13 +86,6 @@ const deleteFileSchema = z.object({
   filePath: z.string()
 });
 
-function sanitizeFilename(filename: string): string {
-  return filename
-    .normalize('NFD')
-    .replace(/[\u0300-\u036f]/g, '')
-    .replace(/[^a-zA-Z0-9._-]/g, '_');
-}
-
 export async function deleteFilterTagAndDocumentChunks(formData: FormData) {
   const session = await getSession();
   if (!session) {
@@ -109,14 +106,34 @@ export async function deleteFilterTagAndDocumentChunks(formData: FormData) {
 
     const { filePath } = result.data;
     const userId = session.id;
-
-    // Delete the file from storage
     const supabase = await createServerSupabaseClient();
-    const fileToDelete = userId + '/' + filePath;
+
+    // Every version of the document is deleted, each version has its own file
+    const { data: versions, error: versionsError } = await supabase
+      .from('user_documents')
+      .select('id, file_path')
+      .eq('user_id', userId)
+      .eq('title', decodeBase64(filePath));
+
+    if (versionsError) {
+      console.error('Error loading document versions:', versionsError);
+      return {
+        success: false,
+        message: 'Error deleting document metadata'
+      };
+    }
+
+    // Documents uploaded before versioning live under their encoded title
+    const filesToDelete = [
+      userId + '/' + filePath,
+      ...versions.flatMap((version) =>
+        version.file_path ? [version.file_path] : []
+      )
+    ];
 
     const { error: deleteError } = await supabase.storage
       .from('userfiles')
-      .remove([fileToDelete]);
+      .remove(filesToDelete);
 
     if (deleteError) {
       console.error('Error deleting file from Supabase storage:', deleteError);
@@ -126,17 +143,14 @@ export async function deleteFilterTagAndDocumentChunks(formData: FormData) {
       };
     }
 
-    // Generate the filter tag from the file path
-    const prefixToDelete = decodeBase64(filePath);
-    const sanitizedFilename = sanitizeFilename(prefixToDelete);
-
-    // Find and delete document records with the matching filter tag
     // Vector records will be deleted automatically via ON DELETE CASCADE
     const { data: deletedData, error: docDeleteError } = await supabase
       .from('user_documents')
       .delete()
-      .eq('user_id', userId)
-      .like('filter_tags', `${sanitizedFilename}%`)
+      .in(
+        'id',
+        versions.map((version) => version.id)
+      )
       .select('id, title');
 
     if (docDeleteError) {
@@ -164,6 +178,75 @@ export async function deleteFilterTagAndDocumentChunks(formData: FormData) {
   }
 }
 
+const deleteDocumentVersionSchema = z.object({
+  documentId: z.string().uuid('Invalid document ID format')
+});
+
+// Delete a single version of a document, its vectors and its file. Other versions are kept.
+export async function deleteDocumentVersion(formData: FormData) {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const result = deleteDocumentVersionSchema.safeParse({
+    documentId: formData.get('documentId')
+  });
+
+  if (!result.success) {
+    console.error('Validation failed:', result.error.errors);
+    return {
+      success: false,
+      message: result.error.errors.map((e) => e.message).join(', ')
+    };
+  }
+
+  const supabase = await createServerSupabaseClient();
+  try {
+    const { data: document, error: documentError } = await supabase
+      .from('user_documents')
+      .select('id, file_path')
+      .eq('id', result.data.documentId)
+      .eq('user_id', session.id)
+      .single();
+
+    if (documentError) {
+      console.error('Error loading document version:', documentError);
+      return { success: false, message: 'Document version not found' };
+    }
+
+    if (document.file_path) {
+      const { error: deleteError } = await supabase.storage
+        .from('userfiles')
+        .remove([document.file_path]);
+
+      if (deleteError) {
+        console.error(
+          'Error deleting file from Supabase storage:',
+          deleteError
+        );
+        return {
+          success: false,
+          message: 'Error deleting file from storage'
+        };
+      }
+    }
+
+    const { error: docDeleteError } = await supabase
+      .from('user_documents')
+      .delete()
+      .eq('id', document.id);
+
+    if (docDeleteError) throw docDeleteError;
+
+    revalidatePath('/chat', 'layout');
+    return { success: true, message: 'Document version deleted' };
+  } catch (error) {
+    console.error('Error deleting document version:', error);
+    return { success: false, message: 'Error deleting document version' };
+  }
+}
+
 const updateChatTitleSchema = z.object({
   title: z.string().min(1, 'Title cannot be empty'),
   chatId: z.string().uuid('Invalid chat ID format')
@@ -212,6 +295,123 @@ export async function updateChatTitle(formData: FormData) {
 
   return { success: true };
 }
+
+export interface ChatShare {
+  id: string;
+  token: string;
+  expiresAt: string | null;
+  createdAt: string;
+}
+
+// Active share links of a chat, revoked and expired links are left out
+export async function fetchChatShares(chatId: string): Promise<ChatShare[]> {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const supabase = await createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from('chat_shares')
+    .select('id, token, expires_at, created_at')
+    .eq('chat_session_id', chatId)
+    .eq('user_id', session.id)
+    .is('revoked_at', null)
+    .or(`expires_at.is.null,expires_at.gt.${new Date().toISOString()}`)
+    .order('created_at', { ascending: false });
+
+  if (error) {
+    console.error('Error fetching chat shares:', error);
+    return [];
+  }
+
+  return data.map((share) => ({
+    id: share.id,
+    token: share.token,
+    expiresAt: share.expires_at,
+    createdAt: share.created_at
+  }));
+}
+
+const createChatShareSchema = z.object({
+  chatId: z.string().uuid('Invalid chat ID format'),
+  // Null for a link that doesn't expire
+  expiresInDays: z.union([z.literal(1), z.literal(7), z.literal(30)]).nullable()
+});
+
+export async function createChatShare(
+  chatId: string,
+  expiresInDays: number | null
+) {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const result = createChatShareSchema.safeParse({ chatId, expiresInDays });
+  if (!result.success) {
+    return {
+      success: false,
+      message: result.error.errors.map((e) => e.message).join(', ')
+    };
+  }
+
+  const expiresAt = result.data.expiresInDays
+    ? new Date(
+        Date.now() + result.data.expiresInDays * 24 * 60 * 60 * 1000
+      ).toISOString()
+    : null;
+
+  // The RLS policy only accepts shares of the user's own chats
+  const supabase = await createServerSupabaseClient();
+  const { data, error } = await supabase
+    .from('chat_shares')
+    .insert({
+      chat_session_id: result.data.chatId,
+      user_id: session.id,
+      token: randomBytes(24).toString('base64url'),
+      expires_at: expiresAt
+    })
+    .select('id, token, expires_at, created_at')
+    .single();
+
+  if (error) {
+    console.error('Error creating chat share:', error);
+    return { success: false, message: 'Error creating share link' };
+  }
+
+  return {
+    success: true,
+    share: {
+      id: data.id,
+      token: data.token,
+      expiresAt: data.expires_at,
+      createdAt: data.created_at
+    } satisfies ChatShare
+  };
+}
+
+// A revoked link stops working immediately and can't be enabled again
+export async function revokeChatShare(shareId: string) {
+  const session = await getSession();
+  if (!session) {
+    throw new Error('User not authenticated');
+  }
+
+  const supabase = await createServerSupabaseClient();
+  const { error } = await supabase
+    .from('chat_shares')
+    .update({ revoked_at: new Date().toISOString() })
+    .eq('id', shareId)
+    .eq('user_id', session.id);
+
+  if (error) {
+    console.error('Error revoking chat share:', error);
+    return { success: false, message: 'Error revoking share link' };
+  }
+
+  return { success: true };
+}
 export async function setModelSettings(
   modelType: string,
   selectedOption: string
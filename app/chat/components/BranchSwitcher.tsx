@@ -0,0 +1,46 @@
+import React from 'react';
+import { ChevronLeft, ChevronRight } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+
+interface BranchSwitcherProps {
+  index: number;
+  total: number;
+  disabled: boolean;
+  onSelect: (index: number) => void;
+}
+
+// Shown on messages that have edited or regenerated siblings, e.g. "2/3"
+const BranchSwitcher: React.FC<BranchSwitcherProps> = ({
+  index,
+  total,
+  disabled,
+  onSelect
+}) => (
+  <div className="flex items-center text-xs text-muted-foreground">
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6"
+      disabled={disabled || index === 0}
+      onClick={() => onSelect(index - 1)}
+      aria-label="Previous version"
+    >
+      <ChevronLeft size={14} />
+    </Button>
+    <span className="tabular-nums">
+      {index + 1}/{total}
+    </span>
+    <Button
+      variant="ghost"
+      size="icon"
+      className="h-6 w-6"
+      disabled={disabled || index === total - 1}
+      onClick={() => onSelect(index + 1)}
+      aria-label="Next version"
+    >
+      <ChevronRight size={14} />
+    </Button>
+  </div>
+);
+
+export default BranchSwitcher;
@@ -1,14 +1,21 @@
 'use client';
 
-import React, { useState, useOptimistic, startTransition } from 'react';
-import { useChat, type Message } from '@ai-sdk/react';
-import { useParams } from 'next/navigation';
+import React, {
+  useState,
+  useMemo,
+  useEffect,
+  useOptimistic,
+  startTransition
+} from 'react';
+import { useChat } from '@ai-sdk/react';
+import { useParams, useSearchParams } from 'next/navigation';
 import { useSWRConfig } from 'swr';
 import { ChatScrollAnchor } from '../hooks/chat-scroll-anchor';
 import { setModelSettings } from '../actions';
 import Link from 'next/link';
 // Shadcn UI components
 import { Button } from '@/components/ui/button';
+import { Textarea } from '@/components/ui/textarea';
 import {
   Accordion,
   AccordionContent,
@@ -21,14 +28,38 @@ import ReasoningContent from './tools/Reasoning';
 import SourceView from './tools/SourceView';
 import DocumentSearchTool from './tools/DocumentChatTool';
 import WebsiteSearchTool from './tools/WebsiteChatTool';
+import SearchAnswerTool from './tools/SearchAnswerTool';
 import MessageInput from './ChatMessageInput';
+import BranchSwitcher from './BranchSwitcher';
 import { toast } from 'sonner';
+import { getApiErrorMessage } from '../utils/apiError';
+import { getMessageStatus } from '@/lib/messageParts';
+import { chatRequestOptions } from '../utils/chatRequest';
+import {
+  addBranch,
+  createTree,
+  getBranch,
+  getChildren,
+  getLatestLeaf,
+  type BranchMessage
+} from '../utils/branches';
+import { useUpload } from '../context/uploadContext';
 
 // Icons from Lucide React
-import { User, Bot, Copy, CheckCircle, FileIcon } from 'lucide-react';
+import {
+  User,
+  Bot,
+  Copy,
+  CheckCircle,
+  FileIcon,
+  AlertCircle,
+  Pencil,
+  RefreshCw
+} from 'lucide-react';
 
 interface ChatProps {
-  currentChat?: Message[];
+  // Every saved message of the chat, all branches included
+  currentChat?: BranchMessage[];
   chatId: string;
   initialModelType: string;
   initialSelectedOption: string;
@@ -42,6 +73,8 @@ const ChatComponent: React.FC<ChatProps> = ({
 }) => {
   const param = useParams();
   const currentChatId = param.id as string;
+  // Set by the chat search to open the chat at a matching message
+  const targetMessageId = useSearchParams().get('message');
 
   const [optimisticModelType, setOptimisticModelType] = useOptimistic<
     string,
@@ -67,26 +100,39 @@ const ChatComponent: React.FC<ChatProps> = ({
     });
   };
 
-  // Determine API endpoint based on model type
-  const getApiEndpoint = () => {
-    switch (optimisticModelType) {
-      case 'perplex':
-        return '/api/perplexity';
-      case 'website':
-        return '/api/websitechat';
-      default:
-        return '/api/chat';
-    }
-  };
+  const { selectedBlobs } = useUpload();
 
-  const apiEndpoint = getApiEndpoint();
+  // Messages of the branches that are not shown. The chat opens on the branch that was used last,
+  // or the latest branch with the message the search linked to.
+  const [savedTree, setSavedTree] = useState(() =>
+    createTree(currentChat ?? [])
+  );
+  const [initialBranch] = useState(() => {
+    const leafId = getLatestLeaf(
+      savedTree,
+      targetMessageId && targetMessageId in savedTree
+        ? targetMessageId
+        : undefined
+    );
+    return leafId ? getBranch(savedTree, leafId) : [];
+  });
+  const [editing, setEditing] = useState<{
+    id: string;
+    content: string;
+  } | null>(null);
 
   // Get messages from chat
-  const { messages, status } = useChat({
+  const { messages, status, setMessages, append, reload } = useChat({
     id: 'chat',
-    api: apiEndpoint,
+    ...chatRequestOptions,
     experimental_throttle: 50,
-    initialMessages: currentChat,
+    initialMessages: initialBranch,
+    body: {
+      chatId: chatId,
+      option: optimisticOption,
+      mode: optimisticModelType,
+      selectedBlobs: selectedBlobs
+    },
     onFinish: async () => {
       if (chatId === currentChatId) return;
 
@@ -94,12 +140,56 @@ const ChatComponent: React.FC<ChatProps> = ({
     },
 
     onError: (error) => {
-      toast.error(error.message || 'An error occurred');
+      toast.error(getApiErrorMessage(error));
     }
   });
 
   const { mutate } = useSWRConfig();
 
+  useEffect(() => {
+    if (!targetMessageId) return;
+    document
+      .getElementById(`message-${targetMessageId}`)
+      ?.scrollIntoView({ block: 'center' });
+  }, [targetMessageId]);
+
+  const tree = useMemo(
+    () => addBranch(savedTree, messages),
+    [savedTree, messages]
+  );
+  const isBusy = status === 'submitted' || status === 'streaming';
+
+  // The shown branch is kept in the tree before it is replaced
+  const showBranch = (leafId: string) => {
+    setSavedTree(tree);
+    setMessages(getBranch(tree, leafId));
+  };
+
+  const selectSibling = (siblings: BranchMessage[], index: number) => {
+    const leafId = getLatestLeaf(tree, siblings[index].id);
+    if (leafId) showBranch(leafId);
+  };
+
+  // An edit is a new sibling of the user message, the old version stays in its own branch
+  const submitEdit = async (index: number, content: string) => {
+    const message = messages[index];
+    setEditing(null);
+    setSavedTree(tree);
+    setMessages(messages.slice(0, index));
+    await append({
+      role: 'user',
+      content,
+      experimental_attachments: message.experimental_attachments
+    });
+  };
+
+  // Answers the user message before it again, as a new sibling of the answer
+  const regenerate = async (index: number) => {
+    setSavedTree(tree);
+    setMessages(messages.slice(0, index));
+    await reload();
+  };
+
   return (
     <div className="flex h-[calc(100vh-48px)] w-full flex-col overflow-y-auto">
       {messages.length === 0 ? (
@@ -160,8 +250,25 @@ const ChatComponent: React.FC<ChatProps> = ({
             const sourceParts =
               message.parts?.filter((part) => part.type === 'source') || [];
 
+            // Set on saved messages that were stopped or failed
+            const messageStatus = getMessageStatus(message.annotations);
+
+            const siblings = getChildren(tree, tree[message.id]?.parentId);
+            const siblingIndex = siblings.findIndex(
+              (sibling) => sibling.id === message.id
+            );
+            const isEditing = editing?.id === message.id;
+
             return (
-              <li key={`${message.id}-${index}`} className="my-4 mx-2">
+              <li
+                key={`${message.id}-${index}`}
+                id={`message-${message.id}`}
+                className={`my-4 mx-2 ${
+                  message.id === targetMessageId
+                    ? 'rounded-xl ring-2 ring-yellow-400/70'
+                    : ''
+                }`}
+              >
                 <Card
                   className={`relative gap-2 py-2 ${
                     isUserMessage
@@ -201,6 +308,42 @@ const ChatComponent: React.FC<ChatProps> = ({
                               })}
                         </p>
                       </div>
+                      {siblings.length > 1 && (
+                        <BranchSwitcher
+                          index={siblingIndex}
+                          total={siblings.length}
+                          disabled={isBusy}
+                          onSelect={(index) => selectSibling(siblings, index)}
+                        />
+                      )}
+                      {isUserMessage ? (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={isBusy}
+                          onClick={() =>
+                            setEditing({
+                              id: message.id,
+                              content: message.content
+                            })
+                          }
+                          aria-label="Edit message"
+                        >
+                          <Pencil size={14} />
+                        </Button>
+                      ) : (
+                        <Button
+                          variant="ghost"
+                          size="icon"
+                          className="h-6 w-6"
+                          disabled={isBusy}
+                          onClick={() => regenerate(index)}
+                          aria-label="Regenerate answer"
+                        >
+                          <RefreshCw size={14} />
+                        </Button>
+                      )}
                       {!isUserMessage && (
                         <Button
                           variant="ghost"
@@ -223,15 +366,44 @@ const ChatComponent: React.FC<ChatProps> = ({
 
                   <CardContent className="py-0 px-4">
                     {/* Render text parts first (main message content) */}
-                    {textParts.map((part, partIndex) => (
-                      <MemoizedMarkdown
-                        key={`text-${partIndex}`}
-                        content={part.text}
-                        id={`${isUserMessage ? 'user' : 'assistant'}-text-${
-                          message.id
-                        }-${partIndex}`}
-                      />
-                    ))}
+                    {isEditing ? (
+                      <div className="space-y-2">
+                        <Textarea
+                          value={editing.content}
+                          onChange={(e) =>
+                            setEditing({ ...editing, content: e.target.value })
+                          }
+                          className="min-h-20"
+                          autoFocus
+                        />
+                        <div className="flex justify-end gap-2">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => setEditing(null)}
+                          >
+                            Cancel
+                          </Button>
+                          <Button
+                            size="sm"
+                            disabled={isBusy || !editing.content.trim()}
+                            onClick={() => submitEdit(index, editing.content)}
+                          >
+                            Send
+                          </Button>
+                        </div>
+                      </div>
+                    ) : (
+                      textParts.map((part, partIndex) => (
+                        <MemoizedMarkdown
+                          key={`text-${partIndex}`}
+                          content={part.text}
+                          id={`${isUserMessage ? 'user' : 'assistant'}-text-${
+                            message.id
+                          }-${partIndex}`}
+                        />
+                      ))
+                    )}
 
                     {/* Then render reasoning parts (only for assistant messages) */}
                     {!isUserMessage &&
@@ -319,6 +491,25 @@ const ChatComponent: React.FC<ChatProps> = ({
                                         <WebsiteSearchTool
                                           key={toolId}
                                           toolInvocation={part.toolInvocation}
+                                          answer={textParts
+                                            .map((textPart) => textPart.text)
+                                            .join('\n')}
+                                        />
+                                      );
+                                    case 'perplexitySearch':
+                                      return (
+                                        <SearchAnswerTool
+                                          key={toolId}
+                                          toolInvocation={part.toolInvocation}
+                                          label="Perplexity Search"
+                                        />
+                                      );
+                                    case 'openAIWebSearch':
+                                      return (
+                                        <SearchAnswerTool
+                                          key={toolId}
+                                          toolInvocation={part.toolInvocation}
+                                          label="OpenAI Web Search"
                                         />
                                       );
                                     default:
@@ -331,6 +522,21 @@ const ChatComponent: React.FC<ChatProps> = ({
                         </Accordion>
                       </div>
                     )}
+
+                    {messageStatus && (
+                      <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                        <AlertCircle size={14} />
+                        <span>
+                          {messageStatus.status === 'aborted'
+                            ? 'The response was stopped.'
+                            : `The response failed${
+                                messageStatus.error
+                                  ? `: ${messageStatus.error}`
+                                  : '.'
+                              }`}
+                        </span>
+                      </div>
+                    )}
                   </CardContent>
                 </Card>
               </li>
@@ -343,7 +549,6 @@ const ChatComponent: React.FC<ChatProps> = ({
       <div className="sticky bottom-0 mt-auto max-w-[720px] mx-auto w-full z-5 pb-2">
         <MessageInput
           chatId={chatId}
-          apiEndpoint={apiEndpoint}
           currentChat={messages}
           option={optimisticOption}
           currentChatId={currentChatId}
@@ -5,6 +5,10 @@ import { useRouter } from 'next/navigation';
 import { useSWRConfig } from 'swr';
 import { useUpload } from '../context/uploadContext';
 import { toast } from 'sonner';
+import { getApiErrorMessage } from '../utils/apiError';
+import { chatRequestOptions } from '../utils/chatRequest';
+import { models, getModelDefinition } from '@/lib/models';
+import { chatModes } from '@/lib/chatModes';
 // Shadcn UI components
 import { Button } from '@/components/ui/button';
 import { Textarea } from '@/components/ui/textarea';
@@ -109,15 +113,8 @@ const FilePreview = React.memo(
 // Add display name for debugging
 FilePreview.displayName = 'FilePreview';
 
-const modelTypes = [
-  { value: 'standart', label: 'Standard' },
-  { value: 'perplex', label: 'Perplexity' },
-  { value: 'website', label: 'Website' }
-];
-
 const MessageInput = ({
   chatId,
-  apiEndpoint,
   currentChat,
   option,
   currentChatId,
@@ -127,7 +124,6 @@ const MessageInput = ({
   handleOptionChange
 }: {
   chatId: string;
-  apiEndpoint: string;
   currentChat: Message[];
   option: string;
   currentChatId: string;
@@ -141,14 +137,17 @@ const MessageInput = ({
   const { mutate } = useSWRConfig();
   const fileInputRef = useRef<HTMLInputElement | null>(null);
   const [attachedFiles, setAttachedFiles] = useState<File[]>([]);
+  const selectedModel = getModelDefinition(selectedOption);
+  const canAttachFiles = !!selectedModel?.capabilities.pdfAttachments;
 
   const { input, handleInputChange, handleSubmit, status, stop } = useChat({
     id: 'chat', // Use the same ID to share state
-    api: apiEndpoint,
+    ...chatRequestOptions,
     initialMessages: currentChat,
     body: {
       chatId: chatId,
       option: option,
+      mode: modelType,
       selectedBlobs: selectedBlobs
     },
     onFinish: async () => {
@@ -156,7 +155,7 @@ const MessageInput = ({
       router.refresh();
     },
     onError: (error) => {
-      toast.error(error.message || 'An error occurred'); // This could lead to sensitive information exposure. A general error message is safer.
+      toast.error(getApiErrorMessage(error)); // This could lead to sensitive information exposure. A general error message is safer.
     }
   });
 
@@ -263,7 +262,7 @@ const MessageInput = ({
         {/* Bottom controls row with buttons */}
         <div className="flex px-2.5 pb-1 pt-1.5 items-center gap-2 justify-between">
           <div className="flex items-center gap-2">
-            {attachedFiles.length === 0 && (
+            {attachedFiles.length === 0 && canAttachFiles && (
               <Button
                 type="button"
                 variant="outline"
@@ -283,60 +282,50 @@ const MessageInput = ({
                   <SelectValue placeholder="Select model" />
                 </SelectTrigger>
                 <SelectContent>
-                  {modelTypes.map((model) => (
+                  {chatModes.map((mode) => (
                     <SelectItem
-                      key={model.value}
-                      value={model.value}
+                      key={mode.id}
+                      value={mode.id}
                       className="text-xs"
                     >
-                      {model.label}
+                      {mode.label}
                     </SelectItem>
                   ))}
                 </SelectContent>
               </Select>
             </div>
 
-            {modelType === 'standart' && (
-              <div className="flex-1 ml-2">
-                <DropdownMenu>
-                  <DropdownMenuTrigger asChild>
-                    <Button
-                      variant="outline"
-                      size="sm"
-                      className="w-full h-8 justify-between text-xs"
+            <div className="flex-1 ml-2">
+              <DropdownMenu>
+                <DropdownMenuTrigger asChild>
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full h-8 justify-between text-xs"
+                  >
+                    <span className="truncate">
+                      {selectedModel?.label ?? 'Select model'}
+                    </span>
+                    <ChevronDown className="h-3 w-3 ml-2 flex-shrink-0 opacity-70" />
+                  </Button>
+                </DropdownMenuTrigger>
+                <DropdownMenuContent className="w-56">
+                  {models.map((model) => (
+                    <DropdownMenuItem
+                      key={model.id}
+                      onClick={() => handleOptionChange(model.id)}
+                      className={`text-xs ${
+                        selectedOption === model.id
+                          ? 'bg-primary/20 dark:bg-primary/30 text-primary dark:text-primary-foreground'
+                          : ''
+                      }`}
                     >
-                      <span className="truncate">{selectedOption}</span>
-                      <ChevronDown className="h-3 w-3 ml-2 flex-shrink-0 opacity-70" />
-                    </Button>
-                  </DropdownMenuTrigger>
-                  <DropdownMenuContent className="w-56">
-                    {[
-                      { value: 'gpt-4.1', label: 'GPT-4.1' },
-                      { value: 'gpt-4.1-mini', label: 'GPT-4.1 Mini' },
-                      { value: 'o3', label: 'OpenAI O3' },
-                      {
-                        value: 'claude-3.7-sonnet',
-                        label: 'Claude 3.7 Sonnet'
-                      },
-                      { value: 'gemini-2.5-pro', label: 'Gemini 2.5 Pro' },
-                      { value: 'gemini-2.5-flash', label: 'Gemini 2.5 Flash' }
-                    ].map((option) => (
-                      <DropdownMenuItem
-                        key={option.value}
-                        onClick={() => handleOptionChange(option.value)}
-                        className={`text-xs ${
-                          selectedOption === option.value
-                            ? 'bg-primary/20 dark:bg-primary/30 text-primary dark:text-primary-foreground'
-                            : ''
-                        }`}
-                      >
-                        {option.label}
-                      </DropdownMenuItem>
-                    ))}
-                  </DropdownMenuContent>
-                </DropdownMenu>
-              </div>
-            )}
+                      {model.label}
+                    </DropdownMenuItem>
+                  ))}
+                </DropdownMenuContent>
+              </DropdownMenu>
+            </div>
 
             {selectedBlobs.length > 0 && (
               <div className="hidden sm:flex items-center rounded-full text-xs px-2 h-8 bg-primary/10 border border-primary/30">
@@ -8,18 +8,29 @@ import { createClient } from '@/lib/client/client';
 import Link from 'next/link';
 import { decodeBase64 } from '../utils/base64';
 import { useSearchParams, useRouter } from 'next/navigation';
+import {
+  documentFileTypes,
+  getDocumentFileType,
+  type DocumentViewerKind
+} from '@/lib/documentTypes';
+import ParsedDocumentViewer from './ParsedDocumentViewer';
+import {
+  getDocumentFilePath,
+  getDocumentVersion
+} from '../utils/documentVersions';
 
 const supabase = createClient();
 
 const fetcher = async (
-  fileName: string,
+  title: string,
   userId: string,
-  fileExtension: string
+  viewer: DocumentViewerKind,
+  version: number | null
 ) => {
-  const decodedFileName = decodeURIComponent(fileName);
-  const filePath = `${userId}/${decodedFileName}`;
+  const document = await getDocumentVersion(title, userId, version);
+  const filePath = getDocumentFilePath(document, title, userId);
 
-  if (fileExtension === 'pdf') {
+  if (viewer === 'pdf') {
     const { data, error } = await supabase.storage
       .from('userfiles')
       .download(filePath);
@@ -31,7 +42,7 @@ const fetcher = async (
 
     const blob = new Blob([data], { type: 'application/pdf' });
     return URL.createObjectURL(blob);
-  } else if (['doc', 'docx'].includes(fileExtension)) {
+  } else if (viewer === 'office') {
     const { data, error } = await supabase.storage
       .from('userfiles')
       .createSignedUrl(filePath, 300);
@@ -60,22 +71,28 @@ export default function DocumentViewer({
   const handleClose = () => {
     const url = new URL(window.location.href);
     url.searchParams.delete('pdf');
+    url.searchParams.delete('v');
     url.searchParams.delete('p');
     router.replace(url.pathname + url.search);
   };
 
   const decodedFileName = decodeURIComponent(decodeBase64(fileName));
 
-  const fileExtension = decodedFileName.split('.').pop()?.toLowerCase() ?? '';
+  const fileType = getDocumentFileType(decodedFileName);
+  const viewer = fileType ? documentFileTypes[fileType].viewer : null;
   const page = Number(searchParams.get('p')) || 1;
+  const version = Number(searchParams.get('v')) || null;
   const {
     data: fileUrl,
     error,
     isLoading
   } = useSWRImmutable(
-    userId ? [fileName, userId, fileExtension] : null,
-    ([fileName, userId, fileExtension]) =>
-      fetcher(fileName, userId, fileExtension)
+    // Parsed documents load their pages in ParsedDocumentViewer
+    userId && viewer && viewer !== 'parsed'
+      ? [decodedFileName, userId, viewer, version]
+      : null,
+    ([title, userId, viewer, version]) =>
+      fetcher(title, userId, viewer, version)
   );
 
   if (!userId) {
@@ -118,7 +135,7 @@ export default function DocumentViewer({
     );
   }
 
-  if (!fileUrl) {
+  if (!fileUrl && viewer !== 'parsed') {
     return (
       <div className="w-[55%] border-l border-border hidden sm:flex flex-row justify-center items-start overflow-hidden relative h-[96vh]">
         <p className="text-foreground text-base">No file available.</p>
@@ -126,8 +143,8 @@ export default function DocumentViewer({
     );
   }
 
-  const isPdf = fileExtension === 'pdf';
-  const isOfficeDocument = ['doc', 'docx'].includes(fileExtension);
+  const isPdf = viewer === 'pdf';
+  const isOfficeDocument = viewer === 'office';
   const iframeId = `document-viewer-${fileName.replace(/[^a-zA-Z0-9]/g, '-')}`;
 
   return (
@@ -157,7 +174,14 @@ export default function DocumentViewer({
             referrerPolicy="no-referrer"
             aria-label={`PDF document: ${decodedFileName}`}
           />
-        ) : isOfficeDocument ? (
+        ) : viewer === 'parsed' ? (
+          <ParsedDocumentViewer
+            title={decodedFileName}
+            userId={userId}
+            version={version}
+            page={page}
+          />
+        ) : isOfficeDocument && fileUrl ? (
           <iframe
             id={iframeId}
             src={`https://view.officeapps.live.com/op/embed.aspx?src=${encodeURIComponent(
@@ -0,0 +1,147 @@
+'use client';
+
+import React from 'react';
+import { Button } from '@/components/ui/button';
+import { ChevronLeft, ChevronRight, Loader2 } from 'lucide-react';
+import useSWRImmutable from 'swr/immutable';
+import { useRouter } from 'next/navigation';
+import { createClient } from '@/lib/client/client';
+import { getDocumentVersion } from '../utils/documentVersions';
+import MemoizedMarkdown from './tools/MemoizedMarkdown';
+
+const supabase = createClient();
+
+interface StoredChunk {
+  text_content: string;
+  chunk_start: number | null;
+  chunk_end: number | null;
+}
+
+// Rebuild a page from its stored chunks. Chunks overlap, so each chunk only adds the text after
+// the end of the previous one.
+function joinChunks(chunks: StoredChunk[]) {
+  let text = '';
+  let end = 0;
+  for (const chunk of chunks) {
+    if (chunk.chunk_start === null || chunk.chunk_end === null) {
+      text = text ? `${text}\n\n${chunk.text_content}` : chunk.text_content;
+      continue;
+    }
+    if (chunk.chunk_end <= end) continue;
+
+    const overlap = Math.max(end - chunk.chunk_start, 0);
+    const separator = text && chunk.chunk_start >= end ? '\n\n' : '';
+    text += separator + chunk.text_content.slice(overlap);
+    end = chunk.chunk_end;
+  }
+  return text;
+}
+
+// Spreadsheets, CSV, Markdown, HTML and text files have no native pages, so the viewer shows the
+// page text that was indexed. That is the same "page" a `?pdf=...&p=X` citation refers to.
+const fetcher = async (
+  title: string,
+  userId: string,
+  version: number | null,
+  page: number
+) => {
+  const document = await getDocumentVersion(title, userId, version);
+  if (!document) return null;
+
+  const { data: chunks, error: chunksError } = await supabase
+    .from('user_documents_vec')
+    .select('text_content, chunk_start, chunk_end')
+    .eq('document_id', document.id)
+    .eq('page_number', page)
+    .order('chunk_index');
+
+  if (chunksError) {
+    console.error('Error loading document page:', chunksError);
+    return null;
+  }
+
+  return {
+    text: joinChunks(chunks),
+    totalPages: document.total_pages
+  };
+};
+
+export default function ParsedDocumentViewer({
+  title,
+  userId,
+  version,
+  page
+}: {
+  title: string;
+  userId: string;
+  version: number | null;
+  page: number;
+}) {
+  const router = useRouter();
+  const { data, error, isLoading } = useSWRImmutable(
+    [title, userId, version, page],
+    ([title, userId, version, page]) => fetcher(title, userId, version, page)
+  );
+
+  const goToPage = (nextPage: number) => {
+    const url = new URL(window.location.href);
+    url.searchParams.set('p', String(nextPage));
+    router.replace(url.pathname + url.search);
+  };
+
+  if (isLoading) {
+    return (
+      <div className="flex h-full items-center justify-center">
+        <Loader2 className="h-8 w-8 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (error || !data) {
+    return (
+      <p className="text-foreground text-base p-4">
+        There was an error loading the document. Please try again later.
+      </p>
+    );
+  }
+
+  return (
+    <div className="flex h-full flex-col">
+      <div className="flex items-center justify-center gap-2 border-b border-border py-1">
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={page <= 1}
+          onClick={() => goToPage(page - 1)}
+          aria-label="Previous page"
+        >
+          <ChevronLeft className="h-4 w-4" />
+        </Button>
+        <span className="text-sm text-muted-foreground">
+          Page {page} of {data.totalPages}
+        </span>
+        <Button
+          variant="ghost"
+          size="icon"
+          disabled={page >= data.totalPages}
+          onClick={() => goToPage(page + 1)}
+          aria-label="Next page"
+        >
+          <ChevronRight className="h-4 w-4" />
+        </Button>
+      </div>
+      <div className="flex-1 overflow-y-auto px-6 py-4 text-sm">
+        {data.text ? (
+          <MemoizedMarkdown
+            content={data.text}
+            id={`parsed-document-${title}-${version}-${page}`}
+          />
+        ) : (
+          <p className="text-muted-foreground">
+            This page has not been indexed yet.
+          </p>
+        )}
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,135 @@
+'use client';
+
+import React from 'react';
+import { User, Bot, FileIcon, AlertCircle } from 'lucide-react';
+import { Card, CardHeader, CardContent } from '@/components/ui/card';
+import MemoizedMarkdown from './tools/MemoizedMarkdown';
+import ReasoningContent from './tools/Reasoning';
+import SourceView from './tools/SourceView';
+import type { SharedChat as SharedChatData } from '@/lib/server/chatShares';
+
+interface SharedChatProps {
+  chat: SharedChatData;
+}
+
+// Read-only view of a shared chat. Links open the website directly and document citations are
+// plain text, the viewer has no access to the owner's files.
+const SharedChat: React.FC<SharedChatProps> = ({ chat }) => (
+  <div className="max-w-[720px] mx-auto w-full px-2 py-6">
+    <div className="mb-6">
+      <h1 className="text-xl font-semibold">{chat.title ?? 'Shared chat'}</h1>
+      <p className="text-xs text-muted-foreground">
+        Read-only shared conversation
+        {chat.expiresAt &&
+          `, available until ${new Date(chat.expiresAt).toLocaleDateString()}`}
+      </p>
+    </div>
+
+    <ul className="space-y-4">
+      {chat.messages.map((message) => {
+        const isUserMessage = message.role === 'user';
+        const textParts = message.parts.filter((part) => part.type === 'text');
+        const reasoningParts = message.parts.filter(
+          (part) => part.type === 'reasoning'
+        );
+        const sourceParts = message.parts.filter(
+          (part) => part.type === 'source'
+        );
+
+        return (
+          <li key={message.id}>
+            <Card
+              className={`relative gap-2 py-2 ${
+                isUserMessage
+                  ? 'bg-primary/5 dark:bg-primary/10 border-primary/20'
+                  : 'bg-card dark:bg-card/90 border-border/50'
+              }`}
+            >
+              <CardHeader className="pb-2 px-4">
+                <div className="flex items-center gap-3">
+                  {isUserMessage ? (
+                    <div className="h-8 w-8 rounded-full bg-primary flex items-center justify-center">
+                      <User className="h-4 w-4 text-primary-foreground" />
+                    </div>
+                  ) : (
+                    <div className="h-8 w-8 rounded-full bg-primary/10 flex items-center justify-center">
+                      <Bot className="h-4 w-4 text-primary" />
+                    </div>
+                  )}
+                  <div className="flex-1">
+                    <h3 className="font-semibold text-sm">
+                      {isUserMessage ? 'User' : 'AI Assistant'}
+                    </h3>
+                    <p className="text-xs text-muted-foreground">
+                      {new Date(message.createdAt).toLocaleString([], {
+                        dateStyle: 'medium',
+                        timeStyle: 'short'
+                      })}
+                    </p>
+                  </div>
+                </div>
+              </CardHeader>
+
+              <CardContent className="py-0 px-4">
+                {textParts.map((part, partIndex) => (
+                  <MemoizedMarkdown
+                    key={`text-${partIndex}`}
+                    content={part.text}
+                    id={`shared-text-${message.id}-${partIndex}`}
+                    readOnly
+                  />
+                ))}
+
+                {reasoningParts.map((part, partIndex) => (
+                  <div key={`reasoning-${partIndex}`} className="mt-4">
+                    <ReasoningContent
+                      details={part.details}
+                      messageId={message.id}
+                      readOnly
+                    />
+                  </div>
+                ))}
+
+                {sourceParts.length > 0 && (
+                  <div className="mt-2">
+                    <SourceView
+                      sources={sourceParts.map((part) => part.source)}
+                      readOnly
+                    />
+                  </div>
+                )}
+
+                {message.attachmentNames.length > 0 && (
+                  <div className="mt-4 pt-4 border-t space-y-2">
+                    {message.attachmentNames.map((name, index) => (
+                      <div
+                        key={`attachment-${index}`}
+                        className="flex items-center gap-2 p-2 bg-background rounded border text-sm"
+                      >
+                        <FileIcon className="h-4 w-4 text-blue-500" />
+                        <span className="flex-1">{name}</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {message.status && (
+                  <div className="mt-2 flex items-center gap-2 text-xs text-muted-foreground">
+                    <AlertCircle size={14} />
+                    <span>
+                      {message.status === 'aborted'
+                        ? 'The response was stopped.'
+                        : 'The response failed.'}
+                    </span>
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+          </li>
+        );
+      })}
+    </ul>
+  </div>
+);
+
+export default SharedChat;
@@ -1,8 +1,9 @@
 'use client';
-import React from 'react';
+import React, { useState } from 'react';
 import Link from 'next/link';
 import { usePathname } from 'next/navigation';
-import { X, ExternalLink } from 'lucide-react';
+import { useTheme } from 'next-themes';
+import { X, ExternalLink, BookOpen, Globe } from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import {
   Tooltip,
@@ -16,14 +17,25 @@ interface WebsiteViewerProps {
 }
 
 const WebsiteViewer: React.FC<WebsiteViewerProps> = ({ url }) => {
+  const [showOriginal, setShowOriginal] = useState(false);
+  const { resolvedTheme } = useTheme();
+  const isPdf = url.toLowerCase().includes('pdf');
+
   const getProxiedUrl = (url: string) => {
-    if (url.toLowerCase().includes('pdf')) {
+    if (isPdf) {
       return `/api/proxy-pdf?url=${encodeURIComponent(url)}`;
     }
-    return `/api/proxy-website?url=${encodeURIComponent(url)}`;
+    if (showOriginal) {
+      return `/api/proxy-website?url=${encodeURIComponent(url)}&mode=original`;
+    }
+    return `/api/proxy-website?url=${encodeURIComponent(url)}&theme=${
+      resolvedTheme === 'dark' ? 'dark' : 'light'
+    }`;
   };
   const pathname = usePathname();
 
+  // Websites open in reader mode, only the article is shown and nothing of the website runs.
+  // The original page runs its scripts sandboxed, without access to the app.
   // Note: Not all websites can be proxied due to security restrictions.
   // If the website does some sort of POST request after render to get the data, it is not possible to proxy it with this technique.
   // Im also not sure if this might cause some legal issues... So use it at your own risk.
@@ -63,12 +75,48 @@ const WebsiteViewer: React.FC<WebsiteViewerProps> = ({ url }) => {
           </span>
           <ExternalLink className="ml-0.5 h-4 w-4" />
         </a>
+
+        {!isPdf && (
+          <TooltipProvider>
+            <Tooltip>
+              <TooltipTrigger asChild>
+                <Button
+                  variant="outline"
+                  size="icon"
+                  onClick={() => setShowOriginal((value) => !value)}
+                  className="ml-auto m-0.5 rounded-md p-1 h-7 w-7 bg-background text-foreground transition-all duration-200 
+                           hover:-translate-y-[1px] hover:bg-background hover:shadow-md hover:text-primary hover:border-primary"
+                  aria-label={
+                    showOriginal ? 'Show reader view' : 'Show original page'
+                  }
+                >
+                  {showOriginal ? (
+                    <BookOpen className="h-4 w-4" />
+                  ) : (
+                    <Globe className="h-4 w-4" />
+                  )}
+                </Button>
+              </TooltipTrigger>
+              <TooltipContent>
+                <p>{showOriginal ? 'Reader view' : 'Original page'}</p>
+              </TooltipContent>
+            </Tooltip>
+          </TooltipProvider>
+        )}
       </div>
       <div className="flex-1 bg-background/50">
         <iframe
           src={getProxiedUrl(url)}
           className="w-full h-full border-none"
           title="Website Viewer"
+          // Browsers don't show PDFs in sandboxed frames
+          sandbox={
+            isPdf
+              ? undefined
+              : showOriginal
+                ? 'allow-scripts allow-forms allow-popups allow-popups-to-escape-sandbox'
+                : 'allow-popups allow-popups-to-escape-sandbox'
+          }
         />
       </div>
     </div>
@@ -1,7 +1,16 @@
 import React, { type FC, useState, startTransition } from 'react';
 import { deleteChatData, updateChatTitle } from '../../actions';
 import { useRouter } from 'next/navigation';
-import { MoreHorizontal, Share, Edit, Trash } from 'lucide-react';
+import {
+  MoreHorizontal,
+  Share,
+  Edit,
+  Trash,
+  Download,
+  FileText,
+  FileJson,
+  Printer
+} from 'lucide-react';
 import { Button } from '@/components/ui/button';
 import { Input } from '@/components/ui/input';
 import {
@@ -16,6 +25,9 @@ import {
   DropdownMenu,
   DropdownMenuContent,
   DropdownMenuItem,
+  DropdownMenuSub,
+  DropdownMenuSubContent,
+  DropdownMenuSubTrigger,
   DropdownMenuTrigger
 } from '@/components/ui/dropdown-menu';
 import {
@@ -27,10 +39,13 @@ import {
   SidebarMenuButton,
   SidebarMenuAction
 } from '@/components/ui/sidebar';
+import type { ChatExportFormat } from '@/lib/server/chatExport';
+import ShareChatDialog from './ShareChatDialog';
 
 interface ChatPreview {
   id: string;
   firstMessage: string;
+  summary: string | null;
   created_at: string;
 }
 
@@ -65,6 +80,7 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
   const [editDialogOpen, setEditDialogOpen] = useState(false);
   const [editingChatId, setEditingChatId] = useState<string | null>(null);
   const [newTitle, setNewTitle] = useState('');
+  const [shareChatId, setShareChatId] = useState<string | null>(null);
 
   const router = useRouter();
 
@@ -111,6 +127,7 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
         currentChatId={currentChatId}
         handleDeleteClick={handleDeleteClick}
         handleOpenRename={handleOpenRename}
+        handleOpenShare={setShareChatId}
         onChatSelect={onChatSelect}
         searchParams={searchParams}
       />
@@ -120,6 +137,7 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
         currentChatId={currentChatId}
         handleDeleteClick={handleDeleteClick}
         handleOpenRename={handleOpenRename}
+        handleOpenShare={setShareChatId}
         onChatSelect={onChatSelect}
         searchParams={searchParams}
       />
@@ -129,6 +147,7 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
         currentChatId={currentChatId}
         handleDeleteClick={handleDeleteClick}
         handleOpenRename={handleOpenRename}
+        handleOpenShare={setShareChatId}
         onChatSelect={onChatSelect}
         searchParams={searchParams}
       />
@@ -138,6 +157,7 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
         currentChatId={currentChatId}
         handleDeleteClick={handleDeleteClick}
         handleOpenRename={handleOpenRename}
+        handleOpenShare={setShareChatId}
         onChatSelect={onChatSelect}
         searchParams={searchParams}
       />
@@ -147,6 +167,7 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
         currentChatId={currentChatId}
         handleDeleteClick={handleDeleteClick}
         handleOpenRename={handleOpenRename}
+        handleOpenShare={setShareChatId}
         onChatSelect={onChatSelect}
         searchParams={searchParams}
       />
@@ -156,11 +177,17 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
         currentChatId={currentChatId}
         handleDeleteClick={handleDeleteClick}
         handleOpenRename={handleOpenRename}
+        handleOpenShare={setShareChatId}
         onChatSelect={onChatSelect}
         searchParams={searchParams}
       />
 
       {/* Dialogs */}
+      <ShareChatDialog
+        chatId={shareChatId}
+        onClose={() => setShareChatId(null)}
+      />
+
       <Dialog
         open={deleteConfirmationOpen}
         onOpenChange={setDeleteConfirmationOpen}
@@ -239,12 +266,17 @@ const ChatHistorySection: FC<ChatHistorySectionProps> = ({
   );
 };
 
+// The print export opens a print-ready page in a new tab, the others are downloaded
+const exportHref = (chatId: string, format: ChatExportFormat) =>
+  `/api/chat/export?${new URLSearchParams({ chatId, format }).toString()}`;
+
 interface RenderChatSectionProps {
   title: string;
   chats: ChatPreview[];
   currentChatId: string | undefined;
   handleDeleteClick: (id: string) => void;
   handleOpenRename: (id: string) => void;
+  handleOpenShare: (id: string) => void;
   onChatSelect: () => void;
   searchParams: URLSearchParams;
 }
@@ -255,6 +287,7 @@ const RenderChatSectionWithSidebar: FC<RenderChatSectionProps> = ({
   currentChatId,
   handleDeleteClick,
   handleOpenRename,
+  handleOpenShare,
   onChatSelect,
   searchParams
 }) => {
@@ -265,7 +298,7 @@ const RenderChatSectionWithSidebar: FC<RenderChatSectionProps> = ({
       <SidebarGroupLabel>{title}</SidebarGroupLabel>
       <SidebarGroupContent>
         <SidebarMenu>
-          {chats.map(({ id, firstMessage }) => {
+          {chats.map(({ id, firstMessage, summary }) => {
             const currentParams = new URLSearchParams(searchParams.toString());
             const href = `/chat/${id}${
               currentParams.toString() ? '?' + currentParams.toString() : ''
@@ -278,7 +311,7 @@ const RenderChatSectionWithSidebar: FC<RenderChatSectionProps> = ({
                   isActive={currentChatId === id}
                   onClick={() => onChatSelect()}
                 >
-                  <a href={href}>
+                  <a href={href} title={summary ?? undefined}>
                     <span className="truncate">{firstMessage}</span>
                   </a>
                 </SidebarMenuButton>
@@ -291,8 +324,8 @@ const RenderChatSectionWithSidebar: FC<RenderChatSectionProps> = ({
                   </DropdownMenuTrigger>
                   <DropdownMenuContent className="rounded-lg">
                     <DropdownMenuItem
-                      disabled
-                      className="text-sm cursor-not-allowed"
+                      onClick={() => handleOpenShare(id)}
+                      className="text-sm"
                     >
                       <Share className="mr-2 h-4 w-4" />
                       <span>Share</span>
@@ -304,6 +337,36 @@ const RenderChatSectionWithSidebar: FC<RenderChatSectionProps> = ({
                       <Edit className="mr-2 h-4 w-4" />
                       <span>Rename</span>
                     </DropdownMenuItem>
+                    <DropdownMenuSub>
+                      <DropdownMenuSubTrigger className="text-sm">
+                        <Download className="mr-2 h-4 w-4" />
+                        <span>Export</span>
+                      </DropdownMenuSubTrigger>
+                      <DropdownMenuSubContent className="rounded-lg">
+                        <DropdownMenuItem asChild className="text-sm">
+                          <a href={exportHref(id, 'markdown')} download>
+                            <FileText className="mr-2 h-4 w-4" />
+                            <span>Markdown</span>
+                          </a>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild className="text-sm">
+                          <a
+                            href={exportHref(id, 'print')}
+                            target="_blank"
+                            rel="noopener noreferrer"
+                          >
+                            <Printer className="mr-2 h-4 w-4" />
+                            <span>Print / Save as PDF</span>
+                          </a>
+                        </DropdownMenuItem>
+                        <DropdownMenuItem asChild className="text-sm">
+                          <a href={exportHref(id, 'json')} download>
+                            <FileJson className="mr-2 h-4 w-4" />
+                            <span>JSON</span>
+                          </a>
+                        </DropdownMenuItem>
+                      </DropdownMenuSubContent>
+                    </DropdownMenuSub>
                     <DropdownMenuItem
                       onClick={() => handleDeleteClick(id)}
                       className="text-destructive text-sm"
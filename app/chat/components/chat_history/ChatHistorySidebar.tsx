@@ -1,10 +1,11 @@
 'use client';
-import React, { type FC, useState, useCallback } from 'react';
+import React, { type FC, useState, useCallback, useEffect } from 'react';
 import { fetchMoreChatPreviews } from '../../actions';
-import { useParams, useSearchParams } from 'next/navigation';
+import { useParams, useRouter, useSearchParams } from 'next/navigation';
 import useSWRInfinite from 'swr/infinite';
 import { Button } from '@/components/ui/button';
 import { Separator } from '@/components/ui/separator';
+import { Input } from '@/components/ui/input';
 import {
   Tooltip,
   TooltipContent,
@@ -27,25 +28,39 @@ import {
   MessageSquare,
   PanelLeftIcon,
   FilePlus,
-  Loader2
+  Loader2,
+  Search,
+  CalendarDays
 } from 'lucide-react';
 import Link from 'next/link';
 import type { Tables } from '@/types/database';
 import ChatHistorySection from './ChatHistorySection';
+import ChatSearchResults from './ChatSearchResults';
+import ChatImportButton from './ChatImportButton';
 import FilesSection from './FilesSection';
 import UploadPage from './FileUpload';
 
 type UserInfo = Pick<Tables<'users'>, 'full_name' | 'email' | 'id'>;
 type UserDocument = Pick<
   Tables<'user_documents'>,
-  'id' | 'title' | 'created_at' | 'total_pages' | 'filter_tags'
+  'id' | 'title' | 'created_at' | 'total_pages' | 'filter_tags' | 'version'
 >;
 interface ChatPreview {
   id: string;
   firstMessage: string;
+  summary: string | null;
   created_at: string;
 }
 
+// The title of a new chat is generated after its first answer was streamed, the sidebar checks
+// again until it has one. Chats whose summary failed are no longer checked after two minutes.
+const TITLE_REFRESH_INTERVAL_MS = 3000;
+const TITLE_WAIT_MS = 2 * 60 * 1000;
+
+const isWaitingForTitle = (chat: ChatPreview) =>
+  chat.summary === null &&
+  Date.now() - new Date(chat.created_at).getTime() < TITLE_WAIT_MS;
+
 interface CategorizedChats {
   today: ChatPreview[];
   yesterday: ChatPreview[];
@@ -70,8 +85,20 @@ const CombinedDrawer: FC<CombinedDrawerProps> = ({
 }) => {
   const [activeMode, setActiveMode] = useState<'chat' | 'files'>('chat');
   const [sidebarOpen, setSidebarOpen] = useState(true);
+  const [searchInput, setSearchInput] = useState('');
+  const [searchQuery, setSearchQuery] = useState('');
+  const [showDateFilter, setShowDateFilter] = useState(false);
+  const [dateFrom, setDateFrom] = useState('');
+  const [dateTo, setDateTo] = useState('');
+
+  // Searches once the user stops typing
+  useEffect(() => {
+    const timeout = setTimeout(() => setSearchQuery(searchInput.trim()), 300);
+    return () => clearTimeout(timeout);
+  }, [searchInput]);
 
   const params = useParams();
+  const router = useRouter();
   const searchParams = useSearchParams();
   const currentChatId = typeof params.id === 'string' ? params.id : undefined;
   const { setOpenMobile } = useSidebar();
@@ -103,6 +130,15 @@ const CombinedDrawer: FC<CombinedDrawerProps> = ({
   const hasMore =
     chatPreviews && chatPreviews[chatPreviews.length - 1]?.length === 30;
 
+  useEffect(() => {
+    if (!categorizedChats.today.some(isWaitingForTitle)) return;
+    const timeout = setTimeout(
+      () => router.refresh(),
+      TITLE_REFRESH_INTERVAL_MS
+    );
+    return () => clearTimeout(timeout);
+  }, [categorizedChats, router]);
+
   const loadMoreChats = useCallback(async () => {
     if (!isLoadingMore) {
       await setSize(size + 1);
@@ -258,6 +294,59 @@ const CombinedDrawer: FC<CombinedDrawerProps> = ({
               </Button>
             </div>
           </SidebarMenuItem>
+          {activeMode === 'chat' && userInfo.email && (
+            <SidebarMenuItem>
+              <div className="flex items-center gap-1">
+                <div className="relative flex-1">
+                  <Search
+                    size={14}
+                    className="absolute left-2 top-1/2 -translate-y-1/2 text-muted-foreground"
+                  />
+                  <Input
+                    type="search"
+                    value={searchInput}
+                    onChange={(e) => setSearchInput(e.target.value)}
+                    placeholder="Search chats..."
+                    className="h-8 pl-7 text-xs"
+                    aria-label="Search chats"
+                  />
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  onClick={() => setShowDateFilter(!showDateFilter)}
+                  className={`h-8 w-8 ${
+                    dateFrom || dateTo ? 'text-primary' : ''
+                  }`}
+                  aria-label="Filter by date"
+                >
+                  <CalendarDays size={16} />
+                </Button>
+                <ChatImportButton mutateChatPreviews={mutateChatPreviews} />
+              </div>
+              {showDateFilter && (
+                <div className="mt-1 flex items-center gap-1 text-xs text-muted-foreground">
+                  <Input
+                    type="date"
+                    value={dateFrom}
+                    max={dateTo || undefined}
+                    onChange={(e) => setDateFrom(e.target.value)}
+                    className="h-8 px-1 text-xs"
+                    aria-label="From date"
+                  />
+                  <span>–</span>
+                  <Input
+                    type="date"
+                    value={dateTo}
+                    min={dateFrom || undefined}
+                    onChange={(e) => setDateTo(e.target.value)}
+                    className="h-8 px-1 text-xs"
+                    aria-label="To date"
+                  />
+                </div>
+              )}
+            </SidebarMenuItem>
+          )}
         </SidebarMenu>
       </SidebarHeader>
 
@@ -277,6 +366,15 @@ const CombinedDrawer: FC<CombinedDrawerProps> = ({
             onChatSelect={handleChatSelect}
             documents={documents}
           />
+        ) : searchQuery ? (
+          <ChatSearchResults
+            query={searchQuery}
+            from={dateFrom}
+            to={dateTo}
+            currentChatId={currentChatId}
+            searchParams={searchParams}
+            onChatSelect={handleChatSelect}
+          />
         ) : (
           <ChatHistorySection
             initialChatPreviews={initialChatPreviews}
@@ -292,7 +390,7 @@ const CombinedDrawer: FC<CombinedDrawerProps> = ({
       <SidebarFooter className="px-0 pb-0">
         {activeMode === 'files' ? (
           <UploadPage />
-        ) : hasMore ? (
+        ) : hasMore && !searchQuery ? (
           <Button
             onClick={loadMoreChats}
             disabled={isLoadingMore}
@@ -0,0 +1,108 @@
+import React, { type FC, useRef, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { toast } from 'sonner';
+import { Loader2, Upload } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import type { ChatImportResult } from '@/lib/server/chatImport';
+import { getApiErrorMessage } from '../../utils/apiError';
+
+interface ChatImportButtonProps {
+  mutateChatPreviews: () => Promise<any>;
+}
+
+// Imports a JSON export of this app, ChatGPT or Claude, or a plain list of messages
+const ChatImportButton: FC<ChatImportButtonProps> = ({
+  mutateChatPreviews
+}) => {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const [isImporting, setIsImporting] = useState(false);
+  const router = useRouter();
+
+  const importFile = async (file: File) => {
+    setIsImporting(true);
+    try {
+      const body = await file.text();
+      try {
+        JSON.parse(body);
+      } catch {
+        toast.error('The file is not valid JSON');
+        return;
+      }
+
+      const response = await fetch('/api/chat/import', {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body
+      });
+      if (response.status === 413) {
+        toast.error('The file is too large to import');
+        return;
+      }
+      if (!response.ok) {
+        throw new Error(await response.text());
+      }
+
+      const { chats, skippedCount } =
+        (await response.json()) as ChatImportResult;
+      if (chats.length === 0) {
+        toast.error('The file contains no messages to import');
+        return;
+      }
+
+      toast.success(
+        chats.length === 1
+          ? `Imported "${chats[0].title ?? 'Untitled chat'}"`
+          : `Imported ${chats.length} chats`,
+        skippedCount > 0
+          ? {
+              description: `${skippedCount} more conversations in the file were not imported, import them from a smaller file.`
+            }
+          : undefined
+      );
+      await mutateChatPreviews();
+      router.push(`/chat/${chats[0].id}`);
+    } catch (error) {
+      toast.error(
+        error instanceof Error
+          ? getApiErrorMessage(error)
+          : 'Failed to import the chat'
+      );
+    } finally {
+      setIsImporting(false);
+    }
+  };
+
+  return (
+    <>
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".json,application/json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0];
+          // Cleared so the same file can be picked again
+          e.target.value = '';
+          if (file) void importFile(file);
+        }}
+      />
+      <Button
+        variant="ghost"
+        size="icon"
+        onClick={() => inputRef.current?.click()}
+        disabled={isImporting}
+        className="h-8 w-8"
+        aria-label="Import chats"
+        title="Import chats"
+      >
+        {isImporting ? (
+          <Loader2 size={16} className="animate-spin" />
+        ) : (
+          <Upload size={16} />
+        )}
+      </Button>
+    </>
+  );
+};
+
+export default ChatImportButton;
@@ -0,0 +1,144 @@
+import React, { type FC } from 'react';
+import useSWR from 'swr';
+import { Loader2 } from 'lucide-react';
+import {
+  SidebarGroup,
+  SidebarGroupContent,
+  SidebarGroupLabel,
+  SidebarMenu,
+  SidebarMenuItem,
+  SidebarMenuButton
+} from '@/components/ui/sidebar';
+import type { ChatSearchResult } from '@/lib/server/chatSearch';
+import { getApiErrorMessage } from '../../utils/apiError';
+
+interface ChatSearchResultsProps {
+  query: string;
+  from: string;
+  to: string;
+  currentChatId: string | undefined;
+  searchParams: URLSearchParams;
+  onChatSelect: () => void;
+}
+
+const searchChats = async ([, query, from, to]: [
+  string,
+  string,
+  string,
+  string
+]) => {
+  const response = await fetch('/api/chat/search', {
+    method: 'POST',
+    headers: { 'Content-Type': 'application/json' },
+    body: JSON.stringify({
+      query,
+      from: from || undefined,
+      to: to || undefined
+    })
+  });
+  if (!response.ok) {
+    throw new Error(await response.text());
+  }
+  const { results } = (await response.json()) as {
+    results: ChatSearchResult[];
+  };
+  return results;
+};
+
+// The server marks every match in the snippet with \u0002 and \u0003
+const renderSnippet = (snippet: string) =>
+  snippet.split('\u0002').flatMap((chunk, index) => {
+    if (index === 0) return [chunk];
+    const [match, rest] = chunk.split('\u0003');
+    return [
+      <mark
+        key={index}
+        className="rounded-sm bg-yellow-200 text-inherit dark:bg-yellow-700"
+      >
+        {match}
+      </mark>,
+      rest
+    ];
+  });
+
+const ChatSearchResults: FC<ChatSearchResultsProps> = ({
+  query,
+  from,
+  to,
+  currentChatId,
+  searchParams,
+  onChatSelect
+}) => {
+  const {
+    data: results,
+    error,
+    isLoading
+  } = useSWR(['chatSearch', query, from, to], searchChats, {
+    keepPreviousData: true,
+    revalidateOnFocus: false
+  });
+
+  return (
+    <SidebarGroup>
+      <SidebarGroupLabel>
+        Search results
+        {isLoading && <Loader2 className="ml-2 h-3 w-3 animate-spin" />}
+      </SidebarGroupLabel>
+      <SidebarGroupContent>
+        {error ? (
+          <p className="px-2 text-xs text-destructive">
+            {getApiErrorMessage(error)}
+          </p>
+        ) : results?.length === 0 ? (
+          <p className="px-2 text-xs text-muted-foreground">No chats found</p>
+        ) : (
+          <SidebarMenu>
+            {results?.map((result) => {
+              // Opens the chat on the branch with the matching message and scrolls to it
+              const params = new URLSearchParams(searchParams.toString());
+              if (result.messageId) {
+                params.set('message', result.messageId);
+              } else {
+                params.delete('message');
+              }
+              const href = `/chat/${result.chatId}${
+                params.toString() ? '?' + params.toString() : ''
+              }`;
+
+              return (
+                <SidebarMenuItem
+                  key={`${result.chatId}-${result.messageId ?? 'title'}`}
+                >
+                  <SidebarMenuButton
+                    asChild
+                    isActive={currentChatId === result.chatId}
+                    onClick={() => onChatSelect()}
+                    className="h-auto flex-col items-start gap-0.5 py-1.5"
+                  >
+                    <a href={href}>
+                      <span className="w-full truncate text-xs font-medium">
+                        {result.messageId
+                          ? (result.chatTitle ?? 'Untitled chat')
+                          : renderSnippet(result.snippet)}
+                      </span>
+                      {result.messageId && (
+                        <span className="line-clamp-3 text-xs text-muted-foreground">
+                          {renderSnippet(result.snippet)}
+                        </span>
+                      )}
+                      <span className="text-[10px] text-muted-foreground">
+                        {new Date(result.createdAt).toLocaleDateString()}
+                      </span>
+                    </a>
+                  </SidebarMenuButton>
+                </SidebarMenuItem>
+              );
+            })}
+          </SidebarMenu>
+        )}
+      </SidebarGroupContent>
+    </SidebarGroup>
+  );
+};
+
+export default ChatSearchResults;
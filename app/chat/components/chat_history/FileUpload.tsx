@@ -1,9 +1,10 @@
 import React, { useCallback, useRef } from 'react';
-import type { FileRejection, FileWithPath } from 'react-dropzone';
+import type { FileWithPath } from 'react-dropzone';
 import { useDropzone } from 'react-dropzone';
-import { useUpload } from '../../context/uploadContext';
+import { useUpload, type UploadQueueItem } from '../../context/uploadContext';
 import {
   Loader2,
+  RotateCcw as RetryIcon,
   Upload as CloudUploadIcon,
   X as CloseIcon,
   FileText as DescriptionIcon
@@ -12,14 +13,22 @@ import { Button } from '@/components/ui/button';
 import { Progress } from '@/components/ui/progress';
 import { Alert, AlertDescription } from '@/components/ui/alert';
 import { Card } from '@/components/ui/card';
+import { documentFileTypes } from '@/lib/documentTypes';
 
-const SUPPORTED_FILE_TYPES: Record<string, string[]> = {
-  'application/pdf': ['.pdf', '.PDF'],
-  'application/vnd.openxmlformats-officedocument.wordprocessingml.document': [
-    '.docx',
-    '.DOCX'
-  ]
-};
+// Dropzone accept map built from the shared file type registry, in both lower and upper case
+const SUPPORTED_FILE_TYPES: Record<string, string[]> = Object.fromEntries(
+  Object.values(documentFileTypes).flatMap((type) => {
+    const extensions = type.extensions.flatMap((extension) => [
+      `.${extension}`,
+      `.${extension.toUpperCase()}`
+    ]);
+    return type.mimeTypes.map((mimeType) => [mimeType, extensions]);
+  })
+);
+
+const SUPPORTED_FORMATS_LABEL = Object.values(documentFileTypes)
+  .map((type) => type.label)
+  .join(', ');
 
 const MAX_FILE_SIZE = 50 * 1024 * 1024; // 50 MB in bytes
 
@@ -34,11 +43,13 @@ function LinearProgressWithLabel({
     'Uploading file...',
     'Preparing file for analysis...',
     'Analyzing file...',
-    'Finalizing files...',
-    'Still analyzing files...'
+    'Finalizing file...',
+    'Still analyzing file...',
+    'Resuming file processing...'
   ];
 
-  const shouldShowSpinner = statusesWithSpinner.includes(status);
+  const shouldShowSpinner =
+    statusesWithSpinner.includes(status) || status.startsWith('Indexing pages');
 
   return (
     <>
@@ -67,48 +78,100 @@ function LinearProgressWithLabel({
   );
 }
 
+function UploadQueueRow({ item }: { item: UploadQueueItem }) {
+  const { isUploading, removeFile, retryFile } = useUpload();
+  const canRemove = item.status === 'pending' || item.status === 'failed';
+  // Files resumed after a reload have no File object, so they can only be retried once a job exists
+  const canRetry =
+    item.status === 'failed' && (item.jobId !== null || item.file !== null);
+
+  return (
+    <Card className="bg-card/50 p-3 rounded-lg shadow-none gap-0">
+      <div className="flex justify-between items-center">
+        <div className="flex items-center gap-2 min-w-0">
+          <div className="w-8 h-8 shrink-0 bg-primary rounded-lg flex items-center justify-center text-primary-foreground">
+            <DescriptionIcon className="h-4 w-4" />
+          </div>
+          <div className="min-w-0">
+            <p className="text-foreground text-sm font-medium overflow-hidden line-clamp-2 break-words leading-tight mb-0.5">
+              {item.fileName}
+            </p>
+            {item.size !== null && (
+              <p className="text-xs text-muted-foreground">
+                {(item.size / (1024 * 1024)).toFixed(2)} MB
+              </p>
+            )}
+          </div>
+        </div>
+        {canRemove && (
+          <Button
+            type="button"
+            variant="ghost"
+            size="sm"
+            onClick={() => removeFile(item.id)}
+            className="text-foreground hover:text-primary"
+            aria-label={`Remove ${item.fileName}`}
+          >
+            <CloseIcon className="h-4 w-4" />
+          </Button>
+        )}
+      </div>
+
+      {item.status !== 'pending' && (
+        <div className="mt-2">
+          {item.status === 'failed' ? (
+            <Alert variant="destructive" className="rounded-lg">
+              <AlertDescription>{item.statusText}</AlertDescription>
+            </Alert>
+          ) : (
+            <LinearProgressWithLabel
+              value={item.progress}
+              status={item.statusText}
+            />
+          )}
+          {canRetry && (
+            <Button
+              type="button"
+              variant="outline"
+              size="sm"
+              disabled={isUploading && !item.jobId}
+              onClick={() => retryFile(item.id)}
+              className="w-full mt-1 rounded-lg"
+            >
+              <RetryIcon className="mr-2 h-4 w-4" />
+              {item.jobId ? 'Retry processing' : 'Retry upload'}
+            </Button>
+          )}
+        </div>
+      )}
+    </Card>
+  );
+}
+
 export default function UploadPage() {
   const formRef = useRef<HTMLFormElement | null>(null);
-  const {
-    isUploading,
-    uploadFile,
-    uploadProgress,
-    uploadStatus,
-    statusSeverity,
-    selectedFile,
-    setSelectedFile
-  } = useUpload();
-
-  const validateFile = useCallback(
-    (file: FileWithPath | null, fileRejections: FileRejection[]) => {
-      if (fileRejections.length > 0) {
-        return false;
-      }
-      return true;
-    },
-    []
-  );
+  const { uploadQueue, batchError, addFiles, uploadFiles } = useUpload();
+
+  const pendingCount = uploadQueue.filter(
+    (item) => item.status === 'pending'
+  ).length;
 
   const onDrop = useCallback(
-    (acceptedFiles: FileWithPath[], fileRejections: FileRejection[]) => {
-      const file = acceptedFiles[0] || null;
-      if (validateFile(file, fileRejections)) {
-        setSelectedFile(file);
+    (acceptedFiles: FileWithPath[]) => {
+      // Rejected files (wrong type or too large) are left out of the queue
+      if (acceptedFiles.length > 0) {
+        addFiles(acceptedFiles);
       }
     },
-    [setSelectedFile, validateFile]
+    [addFiles]
   );
 
-  const handleRemoveFile = () => {
-    setSelectedFile(null);
-  };
-
   const handleSubmit = async (e: React.FormEvent<HTMLFormElement>) => {
     e.preventDefault();
-    if (!selectedFile) return;
+    if (pendingCount === 0) return;
 
     try {
-      await uploadFile(selectedFile);
+      await uploadFiles();
     } finally {
       formRef.current?.reset();
     }
@@ -118,7 +181,7 @@ export default function UploadPage() {
     onDrop,
     accept: SUPPORTED_FILE_TYPES,
     maxSize: MAX_FILE_SIZE,
-    multiple: false
+    multiple: true
   });
 
   return (
@@ -127,100 +190,71 @@ export default function UploadPage() {
       onSubmit={handleSubmit}
       ref={formRef}
     >
-      {!selectedFile ? (
-        <>
-          <div
-            {...getRootProps()}
-            className={`min-h-[50px] border-2 border-dashed ${
-              isDragActive
-                ? 'border-primary bg-primary/5'
-                : 'border-border hover:border-primary hover:bg-primary/5'
-            } rounded-lg flex items-center justify-center text-center cursor-pointer p-4 transition-all duration-200`}
-          >
-            <input {...getInputProps()} />
-            <div>
-              <div className="flex justify-center">
-                <CloudUploadIcon
-                  className={`w-9 h-9 ${
-                    isDragActive ? 'text-primary' : 'text-foreground'
-                  } transition-colors duration-200`}
-                />
-              </div>
-              <h6
-                className={`text-lg font-semibold mb-1 ${
-                  isDragActive ? 'text-primary' : 'text-foreground'
-                } transition-colors duration-200`}
-              >
-                {isDragActive ? 'Drop the file here...' : 'Drag files here'}
-              </h6>
-              <p className="text-muted-foreground mb-0.5">Or</p>
-              <Button
-                variant="outline"
-                className="text-foreground border-border px-3 hover:border-primary hover:bg-transparent"
-                type="button"
-              >
-                Browse
-              </Button>
-              <p className="text-muted-foreground mt-1 text-sm">
-                Supported formats: PDF, DOCX
-              </p>
-              <p className="text-muted-foreground/70 text-xs mt-0.5 italic">
-                Note that files with more than approximately 600 pages are not
-                currently supported.
-              </p>
-            </div>
-          </div>
-        </>
-      ) : (
-        <Card className="bg-card/50 p-4 mb-4 rounded-lg shadow-none">
-          <div className="flex justify-between items-center">
-            <div className="flex items-center gap-2">
-              <div className="w-10 h-10 bg-primary rounded-lg flex items-center justify-center text-primary-foreground">
-                <DescriptionIcon className="h-5 w-5" />
-              </div>
-              <div className="min-w-0 max-w-[80%]">
-                <p className="text-foreground font-medium overflow-hidden line-clamp-2 break-words leading-tight mb-0.5">
-                  {selectedFile.name}
-                </p>
-                <p className="text-sm text-muted-foreground">
-                  {(selectedFile.size / (1024 * 1024)).toFixed(2)} MB
-                </p>
-              </div>
-            </div>
-            <Button
-              variant="ghost"
-              size="sm"
-              onClick={handleRemoveFile}
-              disabled={isUploading}
-              className="text-foreground hover:text-primary"
-            >
-              <CloseIcon className="h-4 w-4" />
-            </Button>
-          </div>
-
-          <div className="mt-2">
-            <LinearProgressWithLabel
-              value={uploadProgress}
-              status={uploadStatus}
+      <div
+        {...getRootProps()}
+        className={`min-h-[50px] border-2 border-dashed ${
+          isDragActive
+            ? 'border-primary bg-primary/5'
+            : 'border-border hover:border-primary hover:bg-primary/5'
+        } rounded-lg flex items-center justify-center text-center cursor-pointer p-4 transition-all duration-200`}
+      >
+        <input {...getInputProps()} />
+        <div>
+          <div className="flex justify-center">
+            <CloudUploadIcon
+              className={`w-9 h-9 ${
+                isDragActive ? 'text-primary' : 'text-foreground'
+              } transition-colors duration-200`}
             />
-            {uploadStatus && statusSeverity !== 'info' && (
-              <Alert
-                variant={statusSeverity === 'error' ? 'destructive' : 'default'}
-                className="mt-1 rounded-lg"
-              >
-                <AlertDescription>{uploadStatus}</AlertDescription>
-              </Alert>
-            )}
           </div>
+          <h6
+            className={`text-lg font-semibold mb-1 ${
+              isDragActive ? 'text-primary' : 'text-foreground'
+            } transition-colors duration-200`}
+          >
+            {isDragActive ? 'Drop the files here...' : 'Drag files here'}
+          </h6>
+          <p className="text-muted-foreground mb-0.5">Or</p>
           <Button
-            type="submit"
-            disabled={isUploading || !selectedFile}
-            className="w-full bg-primary hover:bg-primary/90 text-primary-foreground text-base font-semibold rounded-lg py-2 disabled:opacity-50"
+            variant="outline"
+            className="text-foreground border-border px-3 hover:border-primary hover:bg-transparent"
+            type="button"
           >
-            <CloudUploadIcon className="mr-2 h-5 w-5" />
-            {isUploading ? 'Uploading...' : 'Upload File'}
+            Browse
           </Button>
-        </Card>
+          <p className="text-muted-foreground mt-1 text-sm">
+            Supported formats: {SUPPORTED_FORMATS_LABEL}
+          </p>
+          <p className="text-muted-foreground/70 text-xs mt-0.5 italic">
+            Note that files with more than approximately 600 pages are not
+            currently supported.
+          </p>
+        </div>
+      </div>
+
+      {batchError && (
+        <Alert variant="destructive" className="mt-2 rounded-lg">
+          <AlertDescription>{batchError}</AlertDescription>
+        </Alert>
+      )}
+
+      {uploadQueue.length > 0 && (
+        <div className="flex flex-col gap-2 mt-2 mb-4">
+          {uploadQueue.map((item) => (
+            <UploadQueueRow key={item.id} item={item} />
+          ))}
+        </div>
+      )}
+
+      {pendingCount > 0 && (
+        <Button
+          type="submit"
+          disabled={uploadQueue.some((item) => item.status === 'uploading')}
+          className="w-full bg-primary hover:bg-primary/90 text-primary-foreground text-base font-semibold rounded-lg py-2 disabled:opacity-50"
+        >
+          <CloudUploadIcon className="mr-2 h-5 w-5" />
+          {pendingCount === 1 ? 'Upload File' : `Upload ${pendingCount} Files`}
+        </Button>
       )}
     </form>
   );
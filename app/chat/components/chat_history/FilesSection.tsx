@@ -2,7 +2,10 @@ import React, { type FC } from 'react';
 import { format } from 'date-fns';
 import { useRouter } from 'next/navigation';
 import { useUpload } from '../../context/uploadContext';
-import { deleteFilterTagAndDocumentChunks } from '../../actions';
+import {
+  deleteDocumentVersion,
+  deleteFilterTagAndDocumentChunks
+} from '../../actions';
 import { useFormStatus } from 'react-dom';
 import { Loader2, Trash } from 'lucide-react';
 import { Button } from '@/components/ui/button';
@@ -26,7 +29,7 @@ import { decodeBase64, encodeBase64 } from '../../utils/base64';
 
 type UserDocument = Pick<
   Tables<'user_documents'>,
-  'id' | 'title' | 'created_at' | 'total_pages' | 'filter_tags'
+  'id' | 'title' | 'created_at' | 'total_pages' | 'filter_tags' | 'version'
 >;
 interface FilesSectionProps {
   searchParams: URLSearchParams;
@@ -34,6 +37,26 @@ interface FilesSectionProps {
   documents: UserDocument[];
 }
 
+// Versions of one document, newest first
+interface DocumentGroup {
+  title: string;
+  versions: UserDocument[];
+}
+
+function groupDocumentVersions(documents: UserDocument[]): DocumentGroup[] {
+  const groups = new Map<string, UserDocument[]>();
+  documents.forEach((document) => {
+    groups.set(document.title, [
+      ...(groups.get(document.title) ?? []),
+      document
+    ]);
+  });
+  return Array.from(groups, ([title, versions]) => ({
+    title,
+    versions: versions.sort((a, b) => b.version - a.version)
+  }));
+}
+
 const FilesSection: FC<FilesSectionProps> = ({
   searchParams,
   onChatSelect,
@@ -42,95 +65,141 @@ const FilesSection: FC<FilesSectionProps> = ({
   const { selectedBlobs, setSelectedBlobs } = useUpload();
   const router = useRouter();
 
-  // Get the current PDF from URL parameters
+  // Get the current PDF and version from URL parameters
   const currentPdfParam = searchParams.get('pdf');
   const currentPdf = currentPdfParam
     ? decodeBase64(decodeURIComponent(currentPdfParam))
     : null;
+  const currentVersion = Number(searchParams.get('v')) || null;
+
+  const toggleSelected = (filterTags: string) => {
+    if (selectedBlobs.includes(filterTags)) {
+      setSelectedBlobs(selectedBlobs.filter((blob) => blob !== filterTags));
+    } else {
+      setSelectedBlobs([...selectedBlobs, filterTags]);
+    }
+  };
+
+  // Links without a version open the latest one
+  const documentHref = (title: string, version: number | null) => {
+    const newParams = new URLSearchParams(searchParams.toString());
+    newParams.set('pdf', encodeURIComponent(encodeBase64(title)));
+    if (version) {
+      newParams.set('v', String(version));
+    } else {
+      newParams.delete('v');
+    }
+    newParams.delete('url');
+    return `?${newParams.toString()}`;
+  };
 
   return (
     <SidebarGroup className="px-0">
       <SidebarGroupLabel>Your Documents</SidebarGroupLabel>
       <SidebarGroupContent>
         <SidebarMenu>
-          {documents.map((document) => {
-            const displayName = document.title.replace(/_/g, ' ');
-            const isSelected = selectedBlobs.includes(document.filter_tags);
-            const isCurrentFile = currentPdf === document.title;
-
-            const newParams = new URLSearchParams(searchParams.toString());
-            newParams.set(
-              'pdf',
-              encodeURIComponent(encodeBase64(document.title))
-            );
-            newParams.delete('url');
-            const href = `?${newParams.toString()}`;
+          {groupDocumentVersions(documents).map(({ title, versions }) => {
+            const [latest, ...olderVersions] = versions;
+            const displayName = title.replace(/_/g, ' ');
+            const isCurrentFile =
+              currentPdf === title &&
+              (currentVersion === null || currentVersion === latest.version);
+            const href = documentHref(title, null);
 
             return (
-              <SidebarMenuItem
-                key={document.id}
-                className="flex w-full items-center gap-2"
-              >
-                <TooltipProvider>
-                  <Tooltip>
-                    <TooltipTrigger asChild className="flex-grow min-w-0">
+              <React.Fragment key={latest.id}>
+                <SidebarMenuItem className="flex w-full items-center gap-2">
+                  <TooltipProvider>
+                    <Tooltip>
+                      <TooltipTrigger asChild className="flex-grow min-w-0">
+                        <Link
+                          href={href}
+                          prefetch={false}
+                          onMouseEnter={() => {
+                            router.prefetch(href);
+                          }}
+                          onClick={onChatSelect}
+                          className={`block p-2 rounded hover:bg-muted/50 transition-colors ${
+                            isCurrentFile ? 'bg-muted/80' : ''
+                          }`}
+                        >
+                          <div className="text-sm font-medium truncate">
+                            {displayName}
+                          </div>
+                          <div className="text-xs text-muted-foreground">
+                            {format(new Date(latest.created_at), 'PPP')}
+                            {versions.length > 1 && ` · v${latest.version}`}
+                          </div>
+                        </Link>
+                      </TooltipTrigger>
+                      <TooltipContent
+                        side="right"
+                        className="max-w-[300px] break-words"
+                      >
+                        {displayName}
+                      </TooltipContent>
+                    </Tooltip>
+                  </TooltipProvider>
+
+                  <div className="flex items-center space-x-1 pr-1">
+                    <Checkbox
+                      checked={selectedBlobs.includes(latest.filter_tags)}
+                      onCheckedChange={() => toggleSelected(latest.filter_tags)}
+                      onClick={(e) => e.stopPropagation()}
+                    />
+                    <form
+                      action={async (formData: FormData) => {
+                        formData.append('filePath', encodeBase64(title));
+                        await deleteFilterTagAndDocumentChunks(formData);
+                      }}
+                    >
+                      <SubmitButton />
+                    </form>
+                  </div>
+                </SidebarMenuItem>
+
+                {olderVersions.map((version) => {
+                  const versionHref = documentHref(title, version.version);
+                  const isCurrentVersion =
+                    currentPdf === title && currentVersion === version.version;
+
+                  return (
+                    <SidebarMenuItem
+                      key={version.id}
+                      className="flex w-full items-center gap-2 pl-4"
+                    >
                       <Link
-                        href={href}
+                        href={versionHref}
                         prefetch={false}
-                        onMouseEnter={() => {
-                          router.prefetch(href);
-                        }}
                         onClick={onChatSelect}
-                        className={`block p-2 rounded hover:bg-muted/50 transition-colors ${
-                          isCurrentFile ? 'bg-muted/80' : ''
+                        className={`flex-grow min-w-0 block px-2 py-1 rounded text-xs text-muted-foreground hover:bg-muted/50 transition-colors ${
+                          isCurrentVersion ? 'bg-muted/80' : ''
                         }`}
                       >
-                        <div className="text-sm font-medium truncate">
-                          {displayName}
-                        </div>
-                        <div className="text-xs text-muted-foreground">
-                          {format(new Date(document.created_at), 'PPP')}
-                        </div>
+                        v{version.version} ·{' '}
+                        {format(new Date(version.created_at), 'PPP')}
                       </Link>
-                    </TooltipTrigger>
-                    <TooltipContent
-                      side="right"
-                      className="max-w-[300px] break-words"
-                    >
-                      {displayName}
-                    </TooltipContent>
-                  </Tooltip>
-                </TooltipProvider>
-
-                <div className="flex items-center space-x-1 pr-1">
-                  <Checkbox
-                    checked={isSelected}
-                    onCheckedChange={() => {
-                      if (selectedBlobs.includes(document.filter_tags)) {
-                        setSelectedBlobs(
-                          selectedBlobs.filter(
-                            (blob) => blob !== document.filter_tags
-                          )
-                        );
-                      } else {
-                        setSelectedBlobs([
-                          ...selectedBlobs,
-                          document.filter_tags
-                        ]);
-                      }
-                    }}
-                    onClick={(e) => e.stopPropagation()}
-                  />
-                  <form
-                    action={async (formData: FormData) => {
-                      formData.append('filePath', encodeBase64(document.title));
-                      await deleteFilterTagAndDocumentChunks(formData);
-                    }}
-                  >
-                    <SubmitButton />
-                  </form>
-                </div>
-              </SidebarMenuItem>
+                      <div className="flex items-center space-x-1 pr-1">
+                        <Checkbox
+                          checked={selectedBlobs.includes(version.filter_tags)}
+                          onCheckedChange={() =>
+                            toggleSelected(version.filter_tags)
+                          }
+                          onClick={(e) => e.stopPropagation()}
+                        />
+                        <form
+                          action={async (formData: FormData) => {
+                            formData.append('documentId', version.id);
+                            await deleteDocumentVersion(formData);
+                          }}
+                        >
+                          <SubmitButton />
+                        </form>
+                      </div>
+                    </SidebarMenuItem>
+                  );
+                })}
+              </React.Fragment>
             );
           })}
         </SidebarMenu>
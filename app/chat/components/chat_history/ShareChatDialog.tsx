@@ -0,0 +1,174 @@
+import React, { type FC, useState } from 'react';
+import useSWR from 'swr';
+import { toast } from 'sonner';
+import { Copy, Link2, Loader2, Trash } from 'lucide-react';
+import {
+  createChatShare,
+  fetchChatShares,
+  revokeChatShare
+} from '../../actions';
+import { Button } from '@/components/ui/button';
+import {
+  Dialog,
+  DialogContent,
+  DialogDescription,
+  DialogHeader,
+  DialogTitle
+} from '@/components/ui/dialog';
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue
+} from '@/components/ui/select';
+
+interface ShareChatDialogProps {
+  chatId: string | null;
+  onClose: () => void;
+}
+
+const expiryOptions = [
+  { value: 'never', label: 'Never expires', days: null },
+  { value: '1', label: 'Expires in 1 day', days: 1 },
+  { value: '7', label: 'Expires in 7 days', days: 7 },
+  { value: '30', label: 'Expires in 30 days', days: 30 }
+];
+
+const getShareUrl = (token: string) =>
+  `${window.location.origin}/share/${token}`;
+
+const copyShareUrl = async (token: string) => {
+  try {
+    await navigator.clipboard.writeText(getShareUrl(token));
+    toast.success('Link copied');
+  } catch {
+    toast.error('Failed to copy the link');
+  }
+};
+
+// Anyone with a link can read the chat without signing in, until the link is revoked or expires
+const ShareChatDialog: FC<ShareChatDialogProps> = ({ chatId, onClose }) => {
+  const [expiry, setExpiry] = useState('never');
+  const [isCreating, setIsCreating] = useState(false);
+  const {
+    data: shares,
+    isLoading,
+    mutate
+  } = useSWR(chatId ? ['chatShares', chatId] : null, ([, id]) =>
+    fetchChatShares(id)
+  );
+
+  const handleCreate = async () => {
+    if (!chatId) return;
+    setIsCreating(true);
+    try {
+      const days =
+        expiryOptions.find((option) => option.value === expiry)?.days ?? null;
+      const result = await createChatShare(chatId, days);
+      if (!result.success || !result.share) {
+        toast.error(result.message ?? 'Error creating share link');
+        return;
+      }
+      await mutate();
+      await copyShareUrl(result.share.token);
+    } finally {
+      setIsCreating(false);
+    }
+  };
+
+  const handleRevoke = async (shareId: string) => {
+    const result = await revokeChatShare(shareId);
+    if (!result.success) {
+      toast.error(result.message ?? 'Error revoking share link');
+      return;
+    }
+    await mutate();
+    toast.success('Link revoked');
+  };
+
+  return (
+    <Dialog open={chatId !== null} onOpenChange={(open) => !open && onClose()}>
+      <DialogContent className="p-4 max-w-[90vw] sm:max-w-[440px]">
+        <DialogHeader>
+          <DialogTitle>Share Chat</DialogTitle>
+          <DialogDescription>
+            Anyone with the link can read this chat. Your documents and
+            attachments are not shared.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Select value={expiry} onValueChange={setExpiry}>
+            <SelectTrigger className="flex-1">
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {expiryOptions.map((option) => (
+                <SelectItem key={option.value} value={option.value}>
+                  {option.label}
+                </SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+          <Button onClick={handleCreate} disabled={isCreating}>
+            {isCreating ? (
+              <Loader2 className="mr-2 h-4 w-4 animate-spin" />
+            ) : (
+              <Link2 className="mr-2 h-4 w-4" />
+            )}
+            Create link
+          </Button>
+        </div>
+
+        {isLoading ? (
+          <Loader2 className="mx-auto h-4 w-4 animate-spin text-muted-foreground" />
+        ) : shares && shares.length > 0 ? (
+          <ul className="space-y-2">
+            {shares.map((share) => (
+              <li
+                key={share.id}
+                className="flex items-center gap-2 rounded border p-2 text-xs"
+              >
+                <div className="min-w-0 flex-1">
+                  <p className="truncate font-mono">
+                    /share/{share.token.slice(0, 8)}…
+                  </p>
+                  <p className="text-muted-foreground">
+                    {share.expiresAt
+                      ? `Expires ${new Date(share.expiresAt).toLocaleString()}`
+                      : 'Never expires'}
+                  </p>
+                </div>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7"
+                  onClick={() => copyShareUrl(share.token)}
+                  aria-label="Copy link"
+                >
+                  <Copy size={14} />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="icon"
+                  className="h-7 w-7 text-destructive"
+                  onClick={() => handleRevoke(share.id)}
+                  aria-label="Revoke link"
+                >
+                  <Trash size={14} />
+                </Button>
+              </li>
+            ))}
+          </ul>
+        ) : (
+          <p className="text-xs text-muted-foreground">
+            This chat has no active share links.
+          </p>
+        )}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default ShareChatDialog;
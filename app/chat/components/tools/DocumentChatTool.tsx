@@ -1,7 +1,10 @@
 import React from 'react';
 import { FileText, CheckCircle } from 'lucide-react';
 import { type ToolInvocation } from 'ai';
-import type { SearchDocumentsArgs } from '@/app/chat/types/tooltypes';
+import type {
+  SearchDocumentsArgs,
+  SearchDocumentsResult
+} from '@/app/chat/types/tooltypes';
 
 interface DocumentsToolProps {
   toolInvocation: ToolInvocation;
@@ -40,7 +43,11 @@ const DocumentsTool: React.FC<DocumentsToolProps> = ({ toolInvocation }) => {
         </div>
       );
 
-    case 'result':
+    case 'result': {
+      // Older saved results only contain the system prompt
+      const { results = [] } =
+        (toolInvocation.result as Partial<SearchDocumentsResult>) || {};
+
       return (
         <div className="my-1 p-2 bg-primary/5 dark:bg-primary/10 rounded-md border border-primary/20 dark:border-primary/30">
           <div className="flex items-center gap-2 mt-2">
@@ -59,8 +66,37 @@ const DocumentsTool: React.FC<DocumentsToolProps> = ({ toolInvocation }) => {
               </span>
             </div>
           )}
+          {results.length > 0 && (
+            <ul className="mt-2 space-y-1">
+              {results.map((result) => (
+                <li
+                  key={result.id}
+                  className="flex items-center justify-between gap-2 text-xs"
+                >
+                  <span className="truncate text-foreground/80">
+                    {result.title}
+                    {result.version > 1 && ` (v${result.version})`}, p.
+                    {result.page}
+                  </span>
+                  <span
+                    className="shrink-0 tabular-nums text-muted-foreground"
+                    title={
+                      result.rerankScore !== null
+                        ? 'Rerank relevance score'
+                        : 'Retrieval score'
+                    }
+                  >
+                    {result.rerankScore !== null
+                      ? result.rerankScore.toFixed(2)
+                      : result.score.toFixed(3)}
+                  </span>
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       );
+    }
 
     default:
       return null;
@@ -16,6 +16,7 @@ import {
   HoverCardTrigger
 } from '@/components/ui/hover-card';
 import { Skeleton } from '@/components/ui/skeleton';
+import type { PageMetadata } from '@/lib/server/pageMetadata';
 
 // Function to parse markdown into blocks for memoization
 function parseMarkdownIntoBlocks(markdown: string): string[] {
@@ -28,10 +29,8 @@ const highlightOptionsAI: HighlightOptions = {
   prefix: 'hljs-'
 };
 
-interface MetadataResponse {
-  title: string;
-  description: string;
-  url: string;
+// Error responses have only the error
+interface MetadataResponse extends Partial<PageMetadata> {
   error?: string;
 }
 // Fetcher function for useSWR
@@ -62,8 +61,16 @@ const ExternalLinkWithHovercard = ({
     }
   }, [href]);
 
-  // Get favicon URL using Google's favicon service
-  const faviconUrl = `https://www.google.com/s2/favicons?domain=${hostname}&sz=64`;
+  // The page's own icon, Google's favicon service when the page has none or it fails to load
+  const fallbackFaviconUrl = `https://www.google.com/s2/favicons?domain=${hostname}&sz=64`;
+  const faviconUrl = data?.favicon || fallbackFaviconUrl;
+  const details = [
+    data?.author,
+    data?.publishedAt &&
+      new Date(data.publishedAt).toLocaleDateString([], {
+        dateStyle: 'medium'
+      })
+  ].filter(Boolean);
 
   return (
     <HoverCard openDelay={300} closeDelay={200}>
@@ -80,6 +87,18 @@ const ExternalLinkWithHovercard = ({
         </Link>
       </HoverCardTrigger>
       <HoverCardContent className="w-80 p-0 overflow-hidden border border-border/40 shadow-lg">
+        {data?.image && (
+          <img
+            src={data.image}
+            alt=""
+            referrerPolicy="no-referrer"
+            className="h-36 w-full object-cover border-b border-border/10"
+            onError={(e) => {
+              // Hide the preview image if it fails to load
+              (e.target as HTMLImageElement).style.display = 'none';
+            }}
+          />
+        )}
         {/* Card Header with gradient background */}
         <div className="bg-gradient-to-r from-slate-100 to-slate-50 dark:from-slate-900 dark:to-slate-800 p-2 border-b border-border/10">
           <div className="flex items-center gap-3">
@@ -91,10 +110,16 @@ const ExternalLinkWithHovercard = ({
                 <img
                   src={faviconUrl}
                   alt="Website favicon"
+                  referrerPolicy="no-referrer"
                   className="max-h-10 max-w-10 object-contain"
                   onError={(e) => {
-                    // Fallback if favicon fails to load
-                    (e.target as HTMLImageElement).src =
+                    const image = e.target as HTMLImageElement;
+                    // Try Google's favicon service first, then the fallback icon
+                    if (image.src !== fallbackFaviconUrl) {
+                      image.src = fallbackFaviconUrl;
+                      return;
+                    }
+                    image.src =
                       'data:image/svg+xml;base64,PHN2ZyB4bWxucz0iaHR0cDovL3d3dy53My5vcmcvMjAwMC9zdmciIHdpZHRoPSIyNCIgaGVpZ2h0PSIyNCIgdmlld0JveD0iMCAwIDI0IDI0IiBmaWxsPSJub25lIiBzdHJva2U9ImN1cnJlbnRDb2xvciIgc3Ryb2tlLXdpZHRoPSIyIiBzdHJva2UtbGluZWNhcD0icm91bmQiIHN0cm9rZS1saW5lam9pbj0icm91bmQiIGNsYXNzPSJsdWNpZGUgbHVjaWRlLWdsb2JlIj48Y2lyY2xlIGN4PSIxMiIgY3k9IjEyIiByPSIxMCIvPjxsaW5lIHgxPSIyIiB5MT0iMTIiIHgyPSIyMiIgeTI9IjEyIi8+PHBhdGggZD0iTTEyIDJhMTUuMyAxNS4zIDAgMCAxIDQgMTAgMTUuMyAxNS4zIDAgMCAxLTQgMTAgMTUuMyAxNS4zIDAgMCAxLTQtMTAgMTUuMyAxNS4zIDAgMCAxIDQtMTB6Ii8+PC9zdmc+';
                   }}
                 />
@@ -115,7 +140,7 @@ const ExternalLinkWithHovercard = ({
                   <span className="w-3 h-3 mr-1 text-slate-400">
                     <ExternalLink className="h-3 w-3" />
                   </span>
-                  {hostname}
+                  {data?.siteName || hostname}
                 </span>
               </div>
             </div>
@@ -141,6 +166,11 @@ const ExternalLinkWithHovercard = ({
                   No description available
                 </p>
               )}
+              {details.length > 0 && (
+                <p className="mt-1 text-[11px] text-slate-400 dark:text-slate-500 truncate">
+                  {details.join(' · ')}
+                </p>
+              )}
             </div>
           )}
         </div>
@@ -148,15 +178,17 @@ const ExternalLinkWithHovercard = ({
     </HoverCard>
   );
 };
-// Memoized component for rendering a single markdown block
+// Memoized component for rendering a single markdown block. Read-only blocks are shown outside the
+// chat (shared links), where the website and document viewers are not available.
 const MemoizedMarkdownBlock = memo(
-  ({ content }: { content: string }) => {
+  ({ content, readOnly }: { content: string; readOnly?: boolean }) => {
     const createDocumentLink = (href: string) => {
       // Parse the existing URL parameters
       const params = new URLSearchParams(href.substring(1)); // Remove the leading '?'
 
       // Get the PDF filename and page number
       const pdfTitle = params.get('pdf');
+      const version = params.get('v');
       const pageNumber = params.get('p');
 
       // Create new URLSearchParams
@@ -168,6 +200,11 @@ const MemoizedMarkdownBlock = memo(
         newSearchParams.set('pdf', encodedFilename);
       }
 
+      if (version) {
+        // Pin the citation to the document version it was generated from
+        newSearchParams.set('v', version);
+      }
+
       if (pageNumber) {
         // Keep the page number as is
         newSearchParams.set('p', pageNumber);
@@ -184,12 +221,28 @@ const MemoizedMarkdownBlock = memo(
             if (href) {
               // Check if the link starts with http:// or https://
               if (href.startsWith('http://') || href.startsWith('https://')) {
+                if (readOnly) {
+                  return (
+                    <a
+                      href={href}
+                      target="_blank"
+                      rel="noopener noreferrer"
+                      className="text-blue-600 dark:text-blue-400 hover:underline inline-flex items-center gap-1"
+                    >
+                      {children}
+                      <ExternalLink className="h-3 w-3 opacity-70" />
+                    </a>
+                  );
+                }
                 // For web links, return a regular link that opens in a new tab
                 return (
                   <ExternalLinkWithHovercard href={href}>
                     {children}
                   </ExternalLinkWithHovercard>
                 );
+              } else if (readOnly) {
+                // The viewer can't open the owner's documents
+                return <span className="font-medium">{children}</span>;
               } else {
                 // For document links, use createDocumentLink
                 const fullHref = createDocumentLink(href);
@@ -341,7 +394,10 @@ const MemoizedMarkdownBlock = memo(
   },
   (prevProps, nextProps) => {
     // Only re-render if the content has changed
-    return prevProps.content === nextProps.content;
+    return (
+      prevProps.content === nextProps.content &&
+      prevProps.readOnly === nextProps.readOnly
+    );
   }
 );
 
@@ -349,11 +405,23 @@ MemoizedMarkdownBlock.displayName = 'MemoizedMarkdownBlock';
 
 // Component that breaks markdown into blocks and renders each with memoization
 export const MemoizedMarkdown = memo(
-  ({ content, id }: { content: string; id: string }) => {
+  ({
+    content,
+    id,
+    readOnly
+  }: {
+    content: string;
+    id: string;
+    readOnly?: boolean;
+  }) => {
     const blocks = useMemo(() => parseMarkdownIntoBlocks(content), [content]);
 
     return blocks.map((block, index) => (
-      <MemoizedMarkdownBlock content={block} key={`${id}-block_${index}`} />
+      <MemoizedMarkdownBlock
+        content={block}
+        readOnly={readOnly}
+        key={`${id}-block_${index}`}
+      />
     ));
   }
 );
@@ -11,11 +11,13 @@ import type { ReasoningUIPart } from '@ai-sdk/ui-utils';
 interface ReasoningContentProps {
   details: ReasoningUIPart['details'];
   messageId: string;
+  readOnly?: boolean;
 }
 
 const ReasoningContent: React.FC<ReasoningContentProps> = ({
   details,
-  messageId
+  messageId,
+  readOnly
 }) => {
   return (
     <div className="mt-4 pt-2 border-t border-border/40">
@@ -41,6 +43,7 @@ const ReasoningContent: React.FC<ReasoningContentProps> = ({
                       <MemoizedMarkdown
                         content={detail.text}
                         id={`reasoning-${messageId}-${index}`}
+                        readOnly={readOnly}
                       />
                     </div>
                   ) : (
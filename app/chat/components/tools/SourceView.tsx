@@ -12,15 +12,12 @@ import {
   AccordionItem,
   AccordionTrigger
 } from '@/components/ui/accordion';
+import type { PageMetadata } from '@/lib/server/pageMetadata';
 
 interface SourceViewProps {
   sources: LanguageModelV1Source[];
-}
-
-interface Metadata {
-  title: string;
-  description: string;
-  url: string;
+  // Links to the website instead of the website viewer, e.g. on shared chats
+  readOnly?: boolean;
 }
 
 // Simple fetcher for SWR
@@ -39,14 +36,17 @@ const getDomain = (url: string): string => {
 
 const SourceItem = ({
   source,
-  index
+  index,
+  readOnly
 }: {
   source: LanguageModelV1Source;
   index: number;
+  readOnly?: boolean;
 }) => {
   // useSWR hook at the top level
-  const { data, error, isLoading } = useSWR<Metadata>(
-    source.url
+  // Previews need a session, read-only views are usually seen by visitors
+  const { data, error, isLoading } = useSWR<Partial<PageMetadata>>(
+    source.url && !readOnly
       ? `/api/getmetadata?url=${encodeURIComponent(source.url)}`
       : null,
     fetcher,
@@ -58,11 +58,21 @@ const SourceItem = ({
   // Determine the link title with fallback logic
   const linkTitle = source.title || data?.title || source.url;
 
-  // Get domain for favicon
+  // Get domain for favicon, the page's own icon is used once the metadata is loaded
   const domain = getDomain(source.url);
-  const faviconUrl = domain
-    ? `https://www.google.com/s2/favicons?domain=${domain}&sz=32`
-    : null;
+  const faviconUrl =
+    data?.favicon ||
+    (domain
+      ? `https://www.google.com/s2/favicons?domain=${domain}&sz=32`
+      : null);
+  const details = [
+    data?.siteName || domain,
+    data?.author,
+    data?.publishedAt &&
+      new Date(data.publishedAt).toLocaleDateString([], {
+        dateStyle: 'medium'
+      })
+  ].filter(Boolean);
 
   return (
     <li
@@ -84,6 +94,7 @@ const SourceItem = ({
               <img
                 src={faviconUrl}
                 alt=""
+                referrerPolicy="no-referrer"
                 className="w-4 h-4 mr-2 flex-shrink-0"
                 onError={(e) => {
                   // Hide favicon if it fails to load
@@ -92,7 +103,13 @@ const SourceItem = ({
               />
             )}
             <Link
-              href={`?url=${encodeURIComponent(source.url)}`}
+              href={
+                readOnly ? source.url : `?url=${encodeURIComponent(source.url)}`
+              }
+              {...(readOnly && {
+                target: '_blank',
+                rel: 'noopener noreferrer'
+              })}
               scroll={false}
               prefetch={false}
               className="text-sm text-primary hover:text-primary/80 underline decoration-primary/30 hover:decoration-primary/100 transition-colors inline-flex items-center gap-0.5 rounded-md hover:bg-primary/5"
@@ -103,7 +120,7 @@ const SourceItem = ({
           </div>
 
           <div className="text-xs text-muted-foreground mt-0.5 truncate pl-6">
-            {domain}
+            {details.join(' · ')}
           </div>
 
           {isLoading && (
@@ -132,7 +149,7 @@ const SourceItem = ({
   );
 };
 
-const SourceView: React.FC<SourceViewProps> = ({ sources }) => {
+const SourceView: React.FC<SourceViewProps> = ({ sources, readOnly }) => {
   const validSources = sources?.filter((s) => s.url) || [];
 
   if (validSources.length === 0) return null;
@@ -156,6 +173,7 @@ const SourceView: React.FC<SourceViewProps> = ({ sources }) => {
                   key={`source-${index}`}
                   source={source}
                   index={index}
+                  readOnly={readOnly}
                 />
               ))}
             </ul>
@@ -1,14 +1,49 @@
 import React from 'react';
-import { Globe, CheckCircle } from 'lucide-react';
+import Link from 'next/link';
+import { Globe, CheckCircle, AlertCircle, Quote } from 'lucide-react';
 import { type ToolInvocation } from 'ai';
-import type { WebsiteSearchArgs } from '@/app/chat/types/tooltypes';
+import type {
+  WebsiteSearchArgs,
+  WebsiteSearchResult
+} from '@/app/chat/types/tooltypes';
+import { Badge } from '@/components/ui/badge';
 
 interface WebsiteSearchToolProps {
   toolInvocation: ToolInvocation;
+  // The text of the answer, to show which results it links to
+  answer?: string;
 }
 
+// Compared without fragment, trailing slash and www, the model doesn't always copy URLs exactly
+const normalizeUrl = (url: string) => {
+  try {
+    const parsed = new URL(url);
+    parsed.hash = '';
+    return parsed.href.replace(/^(https?:\/\/)www\./, '$1').replace(/\/$/, '');
+  } catch {
+    return url;
+  }
+};
+
+// Markdown links of the answer
+const getCitedUrls = (answer: string) =>
+  new Set(
+    [...answer.matchAll(/\]\(<?(https?:\/\/[^\s)>]+)>?\)/g)].map((match) =>
+      normalizeUrl(match[1])
+    )
+  );
+
+const getDomain = (url: string) => {
+  try {
+    return new URL(url).hostname.replace(/^www\./, '');
+  } catch {
+    return url;
+  }
+};
+
 const WebsiteSearchTool: React.FC<WebsiteSearchToolProps> = ({
-  toolInvocation
+  toolInvocation,
+  answer = ''
 }) => {
   const args = (toolInvocation.args as WebsiteSearchArgs) || { query: '' };
   const query = args.query || '';
@@ -44,19 +79,35 @@ const WebsiteSearchTool: React.FC<WebsiteSearchToolProps> = ({
         </div>
       );
 
-    case 'result':
+    case 'result': {
+      // Messages from before structured results only have a systemPrompt
+      const { results = [], error } =
+        toolInvocation.result as Partial<WebsiteSearchResult>;
+      const citedUrls = getCitedUrls(answer);
+      const isCited = (url: string) => citedUrls.has(normalizeUrl(url));
+      const citedCount = results.filter((result) => isCited(result.url)).length;
+
       return (
         <div className="my-1 p-2 bg-primary/5 dark:bg-primary/10 rounded-md border border-primary/20 dark:border-primary/30">
           {toolHeader}
-          <div className="flex items-center gap-2 mt-2">
-            <CheckCircle
-              size={16}
-              className="text-green-600 dark:text-green-400"
-            />
-            <span className="text-xs text-green-700 dark:text-green-400">
-              Search completed
-            </span>
-          </div>
+          {error ? (
+            <div className="flex items-center gap-2 mt-2">
+              <AlertCircle size={16} className="text-destructive" />
+              <span className="text-xs text-destructive">{error}</span>
+            </div>
+          ) : (
+            <div className="flex items-center gap-2 mt-2">
+              <CheckCircle
+                size={16}
+                className="text-green-600 dark:text-green-400"
+              />
+              <span className="text-xs text-green-700 dark:text-green-400">
+                Search completed
+                {results.length > 0 &&
+                  `, ${results.length} results, ${citedCount} cited`}
+              </span>
+            </div>
+          )}
           {query && (
             <div className="mt-1">
               <span className="text-xs text-foreground/70">
@@ -64,8 +115,59 @@ const WebsiteSearchTool: React.FC<WebsiteSearchToolProps> = ({
               </span>
             </div>
           )}
+          {results.length > 0 && (
+            <ul className="mt-2 space-y-2 list-none">
+              {results.map((result, index) => (
+                <li
+                  key={result.url}
+                  className={`p-2 rounded-md border ${
+                    isCited(result.url)
+                      ? 'border-primary/40 bg-background'
+                      : 'border-border/30 bg-muted/30'
+                  }`}
+                >
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-bold text-muted-foreground">
+                      {index + 1}.
+                    </span>
+                    <Link
+                      href={`?url=${encodeURIComponent(result.url)}`}
+                      scroll={false}
+                      prefetch={false}
+                      className="flex-1 min-w-0 truncate text-sm font-medium text-primary hover:underline"
+                    >
+                      {result.title || result.url}
+                    </Link>
+                    {isCited(result.url) && (
+                      <Badge variant="secondary" className="gap-1 text-[10px]">
+                        <Quote size={10} />
+                        Cited
+                      </Badge>
+                    )}
+                  </div>
+                  <div className="mt-0.5 text-xs text-muted-foreground truncate">
+                    {getDomain(result.url)}
+                    {result.score !== null &&
+                      ` · ${Math.round(result.score * 100)}% relevance`}
+                    {` · retrieved ${new Date(
+                      result.retrievedAt
+                    ).toLocaleString([], {
+                      dateStyle: 'short',
+                      timeStyle: 'short'
+                    })}`}
+                  </div>
+                  {result.snippet && (
+                    <p className="mt-1 text-xs text-foreground/70 line-clamp-2">
+                      {result.snippet}
+                    </p>
+                  )}
+                </li>
+              ))}
+            </ul>
+          )}
         </div>
       );
+    }
 
     default:
       return null;
@@ -4,29 +4,71 @@ import React, {
   useState,
   useContext,
   useMemo,
-  useCallback
+  useCallback,
+  useEffect,
+  useRef
 } from 'react';
 import { createClient } from '@/lib/client/client';
 import { encodeBase64 } from '../utils/base64';
 import useSWR, { mutate } from 'swr';
 import { useRouter } from 'next/navigation';
+import { v4 as uuidv4 } from 'uuid';
+import type { IngestionJobStatusResponse } from '@/app/api/processdoc/worker';
+import type { UsageSummary } from '@/lib/server/quota';
+
+// The most job ids /api/checkdoc accepts in one request (MAX_JOBS_PER_REQUEST)
+const STATUS_BATCH_SIZE = 25;
+
+// Polls in a row that can fail before the processing files are shown as failed
+const MAX_FAILED_POLLS = 5;
+
+async function fetchJobStatuses(
+  url: string,
+  jobIds: string[]
+): Promise<IngestionJobStatusResponse[]> {
+  const response = await fetch(url, {
+    method: 'POST',
+    headers: {
+      'Content-Type': 'application/json'
+    },
+    body: JSON.stringify({ jobIds })
+  });
+  if (!response.ok) {
+    throw new Error('Failed to fetch processing status');
+  }
+  const { jobs } = await response.json();
+  return jobs;
+}
+
+export type UploadItemStatus =
+  'pending' | 'uploading' | 'processing' | 'completed' | 'failed';
+
+export interface UploadQueueItem {
+  id: string;
+  fileName: string;
+  size: number | null;
+  // Null for jobs picked up again after a page reload, those can only be retried server side
+  file: File | null;
+  jobId: string | null;
+  status: UploadItemStatus;
+  progress: number;
+  statusText: string;
+}
 
 interface UploadContextType {
+  uploadQueue: UploadQueueItem[];
   isUploading: boolean;
-  uploadFile: (file: File) => Promise<void>;
-  uploadProgress: number;
-  uploadStatus: string;
-  statusSeverity: string;
-  selectedFile: File | null;
-  setSelectedFile: React.Dispatch<React.SetStateAction<File | null>>;
+  batchError: string | null;
+  addFiles: (files: File[]) => void;
+  removeFile: (id: string) => void;
+  uploadFiles: () => Promise<void>;
+  retryFile: (id: string) => Promise<void>;
   selectedBlobs: string[];
   setSelectedBlobs: (blobs: string[]) => void;
-  resetUploadState: () => void;
 }
 
 const UploadContext = createContext<UploadContextType | undefined>(undefined);
 
-const MAX_TOTAL_SIZE = 150 * 1024 * 1024;
 const supabase = createClient();
 
 export const useUpload = () => {
@@ -37,291 +79,465 @@ export const useUpload = () => {
   return context;
 };
 
+const toStorageName = (fileName: string) => fileName.replace(/ /g, '_').trim();
+
+// Map a polled ingestion job onto its queue item
+function applyJobStatus(
+  item: UploadQueueItem,
+  job: IngestionJobStatusResponse
+): UploadQueueItem {
+  switch (job.status) {
+    case 'parsing':
+      return { ...item, statusText: 'Still analyzing file...' };
+    case 'queued':
+    case 'processing':
+      return {
+        ...item,
+        progress: job.totalPages
+          ? 50 + (job.pagesDone / job.totalPages) * 49
+          : 50,
+        statusText: job.totalPages
+          ? `Indexing pages ${job.pagesDone}/${job.totalPages}...`
+          : 'Finalizing file...'
+      };
+    case 'completed':
+      return {
+        ...item,
+        status: 'completed',
+        progress: 100,
+        statusText: 'File is uploaded and processed.'
+      };
+    default:
+      // The job keeps its progress, so it can be retried from where it stopped
+      return {
+        ...item,
+        status: 'failed',
+        statusText: job.error || 'Error finalizing file.'
+      };
+  }
+}
+
+// The server enforces the limit in /api/uploaddoc, this only avoids uploading a batch that would be rejected
+async function getUploadUsage(): Promise<UsageSummary['uploads'] | null> {
+  try {
+    const response = await fetch('/api/usage');
+    if (!response.ok) {
+      throw new Error(`Failed to fetch usage: ${response.statusText}`);
+    }
+    const { uploads } = await response.json();
+    return uploads;
+  } catch (error) {
+    console.error('Error fetching upload usage:', error);
+    return null;
+  }
+}
+
+async function uploadToSupabase(file: File, userId: string) {
+  // Every upload gets its own object, so a re-upload becomes a new version instead of replacing the file
+  // URL-safe, so the name is one path segment, /api/uploaddoc rejects nested paths
+  const encodedFileName = encodeBase64(toStorageName(file.name))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_');
+  const filePath = `${userId}/${encodedFileName}-${uuidv4()}`;
+
+  const { data, error } = await supabase.storage
+    .from('userfiles')
+    .upload(filePath, file);
+
+  if (error) {
+    console.error('Error uploading file:', error);
+    throw new Error(`Failed to upload file: ${file.name}`);
+  }
+
+  if (!data?.path) {
+    console.error('Upload successful but path is missing');
+    throw new Error(`Failed to get path for uploaded file: ${file.name}`);
+  }
+
+  return data.path;
+}
+
+async function removeFromSupabase(filePath: string) {
+  try {
+    const { error } = await supabase.storage
+      .from('userfiles')
+      .remove([filePath]);
+
+    if (error) {
+      console.error(`Error deleting file ${filePath}:`, error);
+    }
+  } catch (error) {
+    console.error(`Error deleting file ${filePath}:`, error);
+  }
+}
+
 export const UploadProvider: React.FC<{
   children: React.ReactNode;
   userId: string;
 }> = ({ children, userId }) => {
-  const [isUploading, setIsUploading] = useState(false);
-  const [uploadProgress, setUploadProgress] = useState(0);
-  const [uploadStatus, setUploadStatus] = useState('');
-  const [statusSeverity, setStatusSeverity] = useState<string>('info');
-  const [currentJobId, setCurrentJobId] = useState<string | null>(null);
-  const [currentFileName, setCurrentFileName] = useState<string | null>(null);
-  const [shouldCheckStatus, setShouldCheckStatus] = useState(false);
-  const [shouldProcessDoc, setShouldProcessDoc] = useState(false);
-  const [selectedFile, setSelectedFile] = useState<File | null>(null);
+  const [uploadQueue, setUploadQueue] = useState<UploadQueueItem[]>([]);
+  const [batchError, setBatchError] = useState<string | null>(null);
   const [selectedBlobs, setSelectedBlobs] = useState<string[]>([]);
 
   const router = useRouter();
 
-  // SWR for checking document processing status
-  useSWR(
-    shouldCheckStatus && currentJobId ? [`/api/checkdoc`, currentJobId] : null,
-    async ([url, jobId]) => {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ jobId })
-      });
-      if (!response.ok) {
-        throw new Error('Failed to fetch processing status');
-      }
-      return response.json();
+  const updateItems = useCallback(
+    (ids: string[], patch: Partial<UploadQueueItem>) => {
+      setUploadQueue((queue) =>
+        queue.map((item) =>
+          ids.includes(item.id) ? { ...item, ...patch } : item
+        )
+      );
     },
-    {
-      refreshInterval: 5000,
-      revalidateOnFocus: false,
-      onSuccess: (data) => {
-        if (data.status === 'SUCCESS') {
-          setUploadProgress(75);
-          setUploadStatus('Finalizing files...');
-          setShouldCheckStatus(false);
-          setShouldProcessDoc(true);
-        } else if (data.status === 'PENDING') {
-          setUploadStatus('Still analyzing files...');
-        } else {
-          // Handle other statuses like ERROR
-          setIsUploading(false);
-          setUploadStatus('Error analyzing files.');
-          setStatusSeverity('error');
-          resetUploadState();
-        }
-      },
-      onError: (error) => {
-        console.error('Error fetching processing status:', error);
-        setIsUploading(false);
-        setUploadStatus('Error analyzing files.');
-        setStatusSeverity('error');
-        resetUploadState();
-      }
-    }
+    []
+  );
+
+  const activeJobIds = useMemo(
+    () =>
+      uploadQueue
+        .flatMap((item) =>
+          item.status === 'processing' && item.jobId ? [item.jobId] : []
+        )
+        .sort(),
+    [uploadQueue]
   );
 
-  // SWR for processing document
+  const failedPolls = useRef(0);
+
+  // SWR for polling every unfinished ingestion job. Each poll also lets the server schedule the next batch of pages.
+  // Large queues are polled in batches, a batch that fails only leaves its files unchanged until the next poll.
   useSWR(
-    shouldProcessDoc && currentJobId && currentFileName
-      ? ['/api/processdoc', currentJobId, currentFileName]
-      : null,
-    async ([url, jobId, fileName]) => {
-      const response = await fetch(url, {
-        method: 'POST',
-        headers: {
-          'Content-Type': 'application/json'
-        },
-        body: JSON.stringify({ jobId, fileName })
-      });
-      if (!response.ok) {
-        throw new Error('Failed to process document');
+    activeJobIds.length > 0 ? [`/api/checkdoc`, ...activeJobIds] : null,
+    async ([url, ...jobIds]): Promise<IngestionJobStatusResponse[]> => {
+      const batches: string[][] = [];
+      for (let i = 0; i < jobIds.length; i += STATUS_BATCH_SIZE) {
+        batches.push(jobIds.slice(i, i + STATUS_BATCH_SIZE));
+      }
+      const results = await Promise.allSettled(
+        batches.map((batch) => fetchJobStatuses(url, batch))
+      );
+      const failed = results.find((result) => result.status === 'rejected');
+      if (failed && results.every((result) => result.status === 'rejected')) {
+        throw failed.reason;
       }
-      return response.json();
+      return results.flatMap((result) =>
+        result.status === 'fulfilled' ? result.value : []
+      );
     },
     {
-      onSuccess: (data) => {
-        if (data.status === 'SUCCESS') {
-          setIsUploading(false);
-          setUploadProgress(100);
-          setUploadStatus('Files are uploaded and processed.');
-          setStatusSeverity('success');
+      refreshInterval: 5000,
+      revalidateOnFocus: false,
+      onSuccess: (jobs) => {
+        failedPolls.current = 0;
+        const jobsById = new Map(jobs.map((job) => [job.jobId, job]));
+        setUploadQueue((queue) =>
+          queue.map((item) => {
+            const job = item.jobId ? jobsById.get(item.jobId) : undefined;
+            return job && item.status === 'processing'
+              ? applyJobStatus(item, job)
+              : item;
+          })
+        );
+
+        const completedJobIds = jobs
+          .filter((job) => job.status === 'completed')
+          .map((job) => job.jobId);
+
+        if (completedJobIds.length > 0) {
           mutate('userFiles');
           router.refresh();
 
-          // Reset state after 3 seconds
+          // Clear finished files from the queue after 3 seconds
           setTimeout(() => {
-            resetUploadState();
+            setUploadQueue((queue) =>
+              queue.filter(
+                (item) => !item.jobId || !completedJobIds.includes(item.jobId)
+              )
+            );
           }, 3000);
-        } else {
-          setIsUploading(false);
-          setUploadStatus('Error finalizing files.');
-          setStatusSeverity('error');
-          resetUploadState();
         }
       },
       onError: (error) => {
-        console.error('Error processing document:', error);
-        setIsUploading(false);
-        setUploadStatus('Error finalizing files.');
-        setStatusSeverity('error');
-        resetUploadState();
+        console.error('Error fetching processing status:', error);
+        // The jobs keep running on the server, a single failed poll doesn't fail them
+        failedPolls.current += 1;
+        if (failedPolls.current < MAX_FAILED_POLLS) return;
+        failedPolls.current = 0;
+        setUploadQueue((queue) =>
+          queue.map((item) =>
+            item.jobId && activeJobIds.includes(item.jobId)
+              ? {
+                  ...item,
+                  status: 'failed',
+                  statusText: 'Error analyzing file.'
+                }
+              : item
+          )
+        );
       }
     }
   );
 
-  const resetUploadState = useCallback(() => {
-    // Cancel any ongoing SWR requests
-    setShouldCheckStatus(false);
-    setShouldProcessDoc(false);
-
-    // Clear SWR cache
-    mutate([`/api/checkdoc`, currentJobId], null, false);
-    mutate(['/api/processdoc', currentJobId, currentFileName], null, false);
-
-    // Reset all state variables
-    setIsUploading(false);
-    setUploadProgress(0);
-    setUploadStatus('');
-    setStatusSeverity('info');
-    setCurrentJobId(null);
-    setCurrentFileName(null);
-    setSelectedFile(null);
-  }, [currentJobId, currentFileName]);
-
-  const uploadFile = useCallback(
-    async (file: File) => {
-      // First reset all state
-      setIsUploading(true);
-      setUploadProgress(0);
-      setUploadStatus('Uploading file...');
-      setStatusSeverity('info');
-
-      let uploadedFilePath: string | null = null;
-      async function getTotalUploadedSize(): Promise<number> {
-        const { data, error } = await supabase.storage
-          .from('userfiles')
-          .list(userId);
-
-        if (error) {
-          console.error('Error fetching user files:', error);
-          return 0;
-        }
-
-        return data.reduce(
-          (total, file) => total + (file.metadata?.size || 0),
-          0
+  // Pick up jobs that were still running when the page was closed, so they keep progressing
+  useEffect(() => {
+    if (!userId) return;
+
+    supabase
+      .from('document_ingestion_jobs')
+      .select('id, file_name')
+      .eq('user_id', userId)
+      .in('status', ['parsing', 'queued', 'processing'])
+      .order('created_at', { ascending: true })
+      .then(({ data }) => {
+        if (!data || data.length === 0) return;
+
+        setUploadQueue((queue) => [
+          ...queue,
+          ...data
+            .filter((job) => !queue.some((item) => item.jobId === job.id))
+            .map((job): UploadQueueItem => ({
+              id: uuidv4(),
+              fileName: job.file_name,
+              size: null,
+              file: null,
+              jobId: job.id,
+              status: 'processing',
+              progress: 50,
+              statusText: 'Resuming file processing...'
+            }))
+        ]);
+      });
+  }, [userId]);
+
+  const addFiles = useCallback((files: File[]) => {
+    setBatchError(null);
+    setUploadQueue((queue) => {
+      // A file with the same name replaces the queued one, unless that one is already uploading
+      const busyNames = new Set(
+        queue
+          .filter(
+            (item) =>
+              item.status === 'uploading' || item.status === 'processing'
+          )
+          .map((item) => toStorageName(item.fileName))
+      );
+      const newItems = files
+        .filter((file) => !busyNames.has(toStorageName(file.name)))
+        .map((file): UploadQueueItem => ({
+          id: uuidv4(),
+          fileName: file.name,
+          size: file.size,
+          file,
+          jobId: null,
+          status: 'pending',
+          progress: 0,
+          statusText: ''
+        }));
+      const newNames = new Set(
+        newItems.map((item) => toStorageName(item.fileName))
+      );
+
+      return [
+        ...queue.filter((item) => !newNames.has(toStorageName(item.fileName))),
+        ...newItems
+      ];
+    });
+  }, []);
+
+  const removeFile = useCallback((id: string) => {
+    setUploadQueue((queue) => queue.filter((item) => item.id !== id));
+  }, []);
+
+  // Upload a set of queue items to storage and create one ingestion job per file
+  const startUpload = useCallback(
+    async (items: UploadQueueItem[]) => {
+      setBatchError(null);
+
+      // The quota covers the whole batch, so a batch that doesn't fit is rejected before anything is uploaded
+      const batchSize = items.reduce(
+        (total, item) => total + (item.size ?? 0),
+        0
+      );
+      const uploadUsage = await getUploadUsage();
+      if (
+        uploadUsage &&
+        uploadUsage.usedBytes + batchSize > uploadUsage.limitBytes
+      ) {
+        setBatchError(
+          `Upload would exceed the maximum allowed total size of ${Math.round(
+            uploadUsage.limitBytes / (1024 * 1024)
+          )} MB.`
         );
+        return;
       }
-      try {
-        const currentTotalSize = await getTotalUploadedSize();
-        const newTotalSize = currentTotalSize + file.size;
 
-        if (newTotalSize > MAX_TOTAL_SIZE) {
-          throw new Error(
-            'Upload would exceed the maximum allowed total size of 150 MB.'
-          );
+      updateItems(
+        items.map((item) => item.id),
+        {
+          status: 'uploading',
+          progress: 0,
+          statusText: 'Uploading file...'
         }
+      );
+
+      const uploaded: { item: UploadQueueItem; path: string }[] = [];
+      for (const item of items) {
+        if (!item.file) continue;
+        try {
+          const path = await uploadToSupabase(item.file, userId);
+          uploaded.push({ item, path });
+          updateItems([item.id], {
+            progress: 25,
+            statusText: 'Preparing file for analysis...'
+          });
+        } catch (error) {
+          updateItems([item.id], {
+            status: 'failed',
+            statusText:
+              error instanceof Error
+                ? error.message
+                : 'Error uploading file. Please try again.'
+          });
+        }
+      }
 
-        uploadedFilePath = await uploadToSupabase(file, userId);
-        const fileNameWithUnderscores = file.name.replace(/ /g, '_').trim();
-
-        setUploadProgress(25);
-        setUploadStatus('Preparing file for analysis...');
+      if (uploaded.length === 0) return;
 
+      try {
         const response = await fetch('/api/uploaddoc', {
           method: 'POST',
           headers: {
             'Content-Type': 'application/json'
           },
           body: JSON.stringify({
-            uploadedFiles: [
-              { name: fileNameWithUnderscores, path: uploadedFilePath }
-            ]
+            uploadedFiles: uploaded.map(({ item, path }) => ({
+              name: toStorageName(item.fileName),
+              path
+            }))
           })
         });
 
         if (!response.ok) {
+          const { error } = await response.json().catch(() => ({}));
           throw new Error(
-            `Error processing file on server: ${response.statusText}`
+            error || `Error processing file on server: ${response.statusText}`
           );
         }
 
-        const result = await response.json();
-
-        setUploadProgress(50);
-        setUploadStatus('Analyzing file...');
-
-        if (result.results[0].jobId) {
-          setCurrentJobId(result.results[0].jobId);
-          setCurrentFileName(file.name);
-          // Activate the SWR for status checking
-          setShouldCheckStatus(true);
-        } else {
-          throw new Error('No job ID received from server.');
-        }
-      } catch (error) {
-        console.error('Error uploading file:', error);
-
-        if (uploadedFilePath) {
-          try {
-            const { error: deleteError } = await supabase.storage
-              .from('userfiles')
-              .remove([uploadedFilePath]);
-
-            if (deleteError) {
-              console.error(
-                `Error deleting file ${uploadedFilePath}:`,
-                deleteError
-              );
+        const { results } = await response.json();
+
+        // Results come back in the order the files were sent
+        await Promise.all(
+          uploaded.map(async ({ item, path }, index) => {
+            const jobId: string | undefined = results[index]?.jobId;
+            if (jobId) {
+              updateItems([item.id], {
+                jobId,
+                status: 'processing',
+                progress: 50,
+                statusText: 'Analyzing file...'
+              });
+            } else {
+              await removeFromSupabase(path);
+              updateItems([item.id], {
+                status: 'failed',
+                statusText: 'Error processing file. Please try again.'
+              });
             }
-          } catch (deleteError) {
-            console.error(
-              `Error deleting file ${uploadedFilePath}:`,
-              deleteError
-            );
+          })
+        );
+      } catch (error) {
+        console.error('Error uploading files:', error);
+        await Promise.all(uploaded.map(({ path }) => removeFromSupabase(path)));
+        updateItems(
+          uploaded.map(({ item }) => item.id),
+          {
+            status: 'failed',
+            statusText:
+              error instanceof Error
+                ? error.message
+                : 'Error uploading or processing file. Please try again.'
           }
-        }
-
-        if (error instanceof Error) {
-          setUploadStatus(error.message);
-        } else {
-          setUploadStatus(
-            'Error uploading or processing file. Please try again.'
-          );
-        }
-        setStatusSeverity('error');
-        setIsUploading(false);
+        );
       }
     },
-    [userId]
+    [userId, updateItems]
   );
 
-  // Helper functions for uploadFile
+  const uploadFiles = useCallback(async () => {
+    await startUpload(
+      uploadQueue.filter((item) => item.status === 'pending' && item.file)
+    );
+  }, [uploadQueue, startUpload]);
+
+  const retryFile = useCallback(
+    async (id: string) => {
+      const item = uploadQueue.find((queued) => queued.id === id);
+      if (!item) return;
+
+      // Nothing reached the server yet, so upload the file again
+      if (!item.jobId) {
+        await startUpload([item]);
+        return;
+      }
 
-  const uploadToSupabase = async (file: File, userId: string) => {
-    const fileNameWithUnderscores = file.name.replace(/ /g, '_').trim();
-    const encodedFileName = encodeBase64(fileNameWithUnderscores);
-    const filePath = `${userId}/${encodedFileName}`;
+      updateItems([id], {
+        status: 'uploading',
+        statusText: 'Resuming file processing...'
+      });
 
-    const { data, error } = await supabase.storage
-      .from('userfiles')
-      .upload(filePath, file, { upsert: true });
+      try {
+        const response = await fetch('/api/processdoc', {
+          method: 'POST',
+          headers: {
+            'Content-Type': 'application/json'
+          },
+          body: JSON.stringify({ jobId: item.jobId })
+        });
 
-    if (error) {
-      console.error('Error uploading file:', error);
-      throw new Error(`Failed to upload file: ${file.name}`);
-    }
+        if (!response.ok) {
+          throw new Error(`Error retrying file: ${response.statusText}`);
+        }
 
-    if (!data?.path) {
-      console.error('Upload successful but path is missing');
-      throw new Error(`Failed to get path for uploaded file: ${file.name}`);
-    }
+        // Back to polling, the next poll reports where the job continues from
+        updateItems([id], { status: 'processing' });
+      } catch (error) {
+        console.error('Error retrying ingestion job:', error);
+        updateItems([id], {
+          status: 'failed',
+          statusText:
+            error instanceof Error ? error.message : 'Error retrying file.'
+        });
+      }
+    },
+    [uploadQueue, startUpload, updateItems]
+  );
 
-    return data.path;
-  };
+  const isUploading = uploadQueue.some(
+    (item) => item.status === 'uploading' || item.status === 'processing'
+  );
 
   const contextValue = useMemo(
     () => ({
+      uploadQueue,
       isUploading,
-      uploadFile,
-      uploadProgress,
-      uploadStatus,
-      statusSeverity,
-      selectedFile,
-      setSelectedFile,
+      batchError,
+      addFiles,
+      removeFile,
+      uploadFiles,
+      retryFile,
       selectedBlobs,
-      setSelectedBlobs,
-      resetUploadState
+      setSelectedBlobs
     }),
     [
+      uploadQueue,
       isUploading,
-      uploadFile,
-      uploadProgress,
-      uploadStatus,
-      statusSeverity,
-      selectedFile,
-      setSelectedFile,
-      selectedBlobs,
-      resetUploadState
+      batchError,
+      addFiles,
+      removeFile,
+      uploadFiles,
+      retryFile,
+      selectedBlobs
     ]
   );
 
@@ -7,6 +7,7 @@ type UserInfo = Pick<Tables<'users'>, 'full_name' | 'email' | 'id'>;
 interface ChatSessionPreview {
   id: string;
   firstMessage: string;
+  summary: string | null;
   created_at: string;
 }
 
@@ -38,6 +39,7 @@ export async function fetchUserDataAndChatSessions(
                   id,
           created_at,
           chat_title,
+          chat_summary,
           first_message:chat_messages!inner(content)
         )
       `
@@ -70,6 +72,7 @@ export async function fetchUserDataAndChatSessions(
         session.chat_title ??
         session.first_message?.[0]?.content ??
         'No messages yet',
+      summary: session.chat_summary,
       created_at: session.created_at
     })
   );
@@ -13,6 +13,7 @@ export const maxDuration = 60;
 interface ChatPreview {
   id: string;
   firstMessage: string;
+  summary: string | null;
   created_at: string;
 }
 
@@ -43,6 +44,7 @@ const fetchUserData = async () => {
           id,
           created_at,
           chat_title,
+          chat_summary,
           first_message:chat_messages!inner(content)
         ),
         user_documents (
@@ -50,7 +52,8 @@ const fetchUserData = async () => {
           title,
           created_at,
           total_pages,
-          filter_tags
+          filter_tags,
+          version
         )
       `
       )
@@ -78,6 +81,7 @@ const fetchUserData = async () => {
         session.chat_title ??
         session.first_message[0]?.content ??
         'No messages yet',
+      summary: session.chat_summary,
       created_at: session.created_at
     }));
 
@@ -87,7 +91,8 @@ const fetchUserData = async () => {
       title: doc.title,
       created_at: doc.created_at,
       total_pages: doc.total_pages,
-      filter_tags: doc.filter_tags
+      filter_tags: doc.filter_tags,
+      version: doc.version
     }));
 
     return {
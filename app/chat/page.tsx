@@ -5,6 +5,8 @@ import DocumentViewer from './components/PDFViewer';
 import WebsiteWiever from './components/WebsiteWiever';
 import { v4 as uuidv4 } from 'uuid';
 import { getUserInfo } from '@/lib/server/supabase';
+import { DEFAULT_MODEL_ID, isModelId } from '@/lib/models';
+import { DEFAULT_CHAT_MODE_ID, isChatModeId } from '@/lib/chatModes';
 
 interface PageProps {
   searchParams: Promise<Record<string, string>>;
@@ -13,9 +15,15 @@ interface PageProps {
 export default async function ChatPage(props: PageProps) {
   const searchParams = await props.searchParams;
   const cookieStore = await cookies();
-  const modelType = cookieStore.get('modelType')?.value ?? 'standart';
-  const selectedOption =
-    cookieStore.get('selectedOption')?.value ?? 'gpt-3.5-turbo-1106';
+  const storedMode = cookieStore.get('modelType')?.value;
+  const modelType = isChatModeId(storedMode)
+    ? storedMode
+    : DEFAULT_CHAT_MODE_ID;
+  const storedOption = cookieStore.get('selectedOption')?.value;
+  // Fall back to the default model if the cookie holds a model that was removed from the registry
+  const selectedOption = isModelId(storedOption)
+    ? storedOption
+    : DEFAULT_MODEL_ID;
   const createChatId = uuidv4();
 
   return (
@@ -2,6 +2,8 @@
 import type { ToolCallUnion, ToolResultUnion } from 'ai';
 import { searchUserDocument } from '@/app/api/chat/tools/documentChat';
 import { websiteSearchTool } from '@/app/api/chat/tools/WebsiteSearchTool';
+import { perplexitySearchTool } from '@/app/api/chat/tools/PerplexitySearchTool';
+import { openAIWebSearchTool } from '@/app/api/chat/tools/OpenAIWebSearchTool';
 
 // Define the toolset with just the document search tool
 export const toolSet = {
@@ -9,7 +11,9 @@ export const toolSet = {
     userId: '123',
     selectedBlobs: []
   }),
-  websiteSearchTool: websiteSearchTool
+  websiteSearchTool: websiteSearchTool(),
+  perplexitySearch: perplexitySearchTool({ userId: '123', chatSessionId: '' }),
+  openAIWebSearch: openAIWebSearchTool({ userId: '123', chatSessionId: '' })
 };
 
 // Generate tool call and result types
@@ -37,3 +41,14 @@ export type WebsiteSearchResult = Extract<
   ToolResult,
   { toolName: 'websiteSearchTool' }
 >['result'];
+
+// Helper types for the Perplexity and OpenAI search tools, both answer with sources
+export type SearchAnswerCall = Extract<
+  ToolCall,
+  { toolName: 'perplexitySearch' | 'openAIWebSearch' }
+>;
+export type SearchAnswerArgs = SearchAnswerCall['args'];
+export type SearchAnswerResult = Extract<
+  ToolResult,
+  { toolName: 'perplexitySearch' | 'openAIWebSearch' }
+>['result'];
@@ -0,0 +1,11 @@
+// API routes answer errors with `{ error }`. useChat passes the raw response body on as the error
+// message, so read the JSON message out of it when there is one.
+export function getApiErrorMessage(error: Error) {
+  try {
+    const body = JSON.parse(error.message);
+    if (typeof body?.error === 'string') return body.error;
+  } catch {
+    // Not a JSON body, e.g. a stream error
+  }
+  return error.message || 'An error occurred';
+}
@@ -0,0 +1,62 @@
+import type { Message } from '@ai-sdk/react';
+
+// Messages form a tree through parent_id. Editing a user message or regenerating an answer adds a
+// sibling, and the chat shows one branch (root to leaf) at a time.
+export interface BranchMessage extends Message {
+  parentId: string | null;
+}
+
+export type MessageTree = Record<string, BranchMessage>;
+
+export const createTree = (messages: BranchMessage[]): MessageTree =>
+  Object.fromEntries(messages.map((message) => [message.id, message]));
+
+// Adds the messages of a shown branch, each one is the child of the message before it
+export const addBranch = (
+  tree: MessageTree,
+  branch: Message[]
+): MessageTree => ({
+  ...tree,
+  ...Object.fromEntries(
+    branch.map((message, index) => [
+      message.id,
+      { ...message, parentId: branch[index - 1]?.id ?? null }
+    ])
+  )
+});
+
+const getTime = (message: Message) =>
+  message.createdAt ? new Date(message.createdAt).getTime() : 0;
+
+// Oldest first, so a new edit or answer is always the last sibling
+export const getChildren = (tree: MessageTree, parentId: string | null) =>
+  Object.values(tree)
+    .filter((message) => message.parentId === parentId)
+    .sort((a, b) => getTime(a) - getTime(b));
+
+export function getBranch(tree: MessageTree, leafId: string): BranchMessage[] {
+  const branch: BranchMessage[] = [];
+  for (
+    let message: BranchMessage | undefined = tree[leafId];
+    message;
+    message = message.parentId ? tree[message.parentId] : undefined
+  ) {
+    branch.unshift(message);
+  }
+  return branch;
+}
+
+// The newest message below (or at) the given one, or in the whole tree. Children are created after
+// their parent, so it is always a leaf and its branch is the one that was used last.
+export function getLatestLeaf(tree: MessageTree, messageId?: string) {
+  const candidates = Object.values(tree).filter(
+    (message) =>
+      !messageId ||
+      getBranch(tree, message.id).some((ancestor) => ancestor.id === messageId)
+  );
+  return candidates.reduce<BranchMessage | undefined>(
+    (latest, message) =>
+      !latest || getTime(message) >= getTime(latest) ? message : latest,
+    undefined
+  )?.id;
+}
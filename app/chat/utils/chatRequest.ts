@@ -0,0 +1,16 @@
+import type { useChat } from '@ai-sdk/react';
+import { v4 as uuidv4 } from 'uuid';
+
+type ChatOptions = NonNullable<Parameters<typeof useChat>[0]>;
+
+// Shared by every useChat hook that sends to /api/chat. The server loads the branch up to the
+// parent from the database, so only the new (or regenerated) user message is sent.
+export const chatRequestOptions = {
+  api: '/api/chat',
+  generateId: uuidv4,
+  experimental_prepareRequestBody: ({ messages, requestBody }) => ({
+    ...requestBody,
+    message: messages[messages.length - 1],
+    parentId: messages[messages.length - 2]?.id ?? null
+  })
+} satisfies ChatOptions;
@@ -0,0 +1,36 @@
+import { createClient } from '@/lib/client/client';
+import { encodeBase64 } from './base64';
+
+const supabase = createClient();
+
+// The version a citation points at, or the latest version when the link has none
+export async function getDocumentVersion(
+  title: string,
+  userId: string,
+  version: number | null
+) {
+  const query = supabase
+    .from('user_documents')
+    .select('id, total_pages, file_path, version')
+    .eq('user_id', userId)
+    .eq('title', title);
+
+  const { data, error } = await (
+    version
+      ? query.eq('version', version)
+      : query.order('version', { ascending: false }).limit(1)
+  ).maybeSingle();
+
+  if (error) {
+    console.error('Error loading document version:', error);
+    return null;
+  }
+  return data;
+}
+
+// Documents uploaded before versioning have no file_path and live under their encoded title
+export const getDocumentFilePath = (
+  document: { file_path: string | null } | null,
+  title: string,
+  userId: string
+) => document?.file_path ?? `${userId}/${encodeBase64(title)}`;
@@ -0,0 +1,23 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import SharedChat from '@/app/chat/components/SharedChat';
+import { getSharedChat } from '@/lib/server/chatShares';
+
+export const dynamic = 'force-dynamic';
+
+// Share links are unlisted, search engines should not index them
+export const metadata: Metadata = {
+  title: 'Shared chat',
+  robots: { index: false, follow: false }
+};
+
+// Public, read-only page of a shared chat. Revoked and expired links show the not found page.
+export default async function SharedChatPage(props: {
+  params: Promise<{ token: string }>;
+}) {
+  const { token } = await props.params;
+  const chat = await getSharedChat(token);
+  if (!chat) notFound();
+
+  return <SharedChat chat={chat} />;
+}
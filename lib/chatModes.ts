@@ -0,0 +1,23 @@
+// Chat mode registry shared by the chat route and the mode picker in the chat input.
+// Every mode runs through /api/chat with the selected model, a mode only decides which
+// search tools the model gets and how it is told to use them. The ids are stored in the
+// `modelType` cookie, so they are kept from when every mode had its own route.
+
+export interface ChatModeDefinition {
+  id: string;
+  label: string;
+}
+
+export const chatModes = [
+  { id: 'standart', label: 'Standard' },
+  { id: 'perplex', label: 'Perplexity' },
+  { id: 'website', label: 'Website' }
+] as const satisfies readonly ChatModeDefinition[];
+
+export type ChatModeId = (typeof chatModes)[number]['id'];
+
+export const DEFAULT_CHAT_MODE_ID: ChatModeId = 'standart';
+
+export function isChatModeId(value: unknown): value is ChatModeId {
+  return chatModes.some((mode) => mode.id === value);
+}
@@ -0,0 +1,72 @@
+// How the document viewer shows a file. 'parsed' files are shown as the indexed page text,
+// so `?pdf=...&p=X` citations open the same "page" the search result came from.
+export type DocumentViewerKind = 'pdf' | 'office' | 'parsed';
+
+export interface DocumentFileType {
+  label: string;
+  mimeTypes: string[];
+  extensions: string[];
+  viewer: DocumentViewerKind;
+}
+
+export const documentFileTypes = {
+  pdf: {
+    label: 'PDF',
+    mimeTypes: ['application/pdf'],
+    extensions: ['pdf'],
+    viewer: 'pdf'
+  },
+  docx: {
+    label: 'DOCX',
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.wordprocessingml.document'
+    ],
+    extensions: ['docx'],
+    viewer: 'office'
+  },
+  xlsx: {
+    label: 'XLSX',
+    mimeTypes: [
+      'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet'
+    ],
+    extensions: ['xlsx'],
+    viewer: 'parsed'
+  },
+  csv: {
+    label: 'CSV',
+    mimeTypes: ['text/csv'],
+    extensions: ['csv'],
+    viewer: 'parsed'
+  },
+  markdown: {
+    label: 'Markdown',
+    mimeTypes: ['text/markdown'],
+    extensions: ['md', 'markdown'],
+    viewer: 'parsed'
+  },
+  html: {
+    label: 'HTML',
+    mimeTypes: ['text/html'],
+    extensions: ['html', 'htm'],
+    viewer: 'parsed'
+  },
+  text: {
+    label: 'TXT',
+    mimeTypes: ['text/plain'],
+    extensions: ['txt'],
+    viewer: 'parsed'
+  }
+} satisfies Record<string, DocumentFileType>;
+
+export type DocumentFileTypeId = keyof typeof documentFileTypes;
+
+export const getFileExtension = (fileName: string) =>
+  fileName.split('.').pop()?.toLowerCase() ?? '';
+
+export function getDocumentFileType(fileName: string) {
+  const extension = getFileExtension(fileName);
+  const entry = Object.entries(documentFileTypes).find(([, type]) =>
+    type.extensions.includes(extension)
+  );
+  return entry ? (entry[0] as DocumentFileTypeId) : null;
+}
@@ -0,0 +1,235 @@
+import type { LanguageModelUsage, TextStreamPart, ToolSet } from 'ai';
+import type {
+  ReasoningUIPart,
+  TextUIPart,
+  ToolInvocation,
+  UIMessage
+} from '@ai-sdk/ui-utils';
+
+export type MessagePart = UIMessage['parts'][number];
+
+// Stored in chat_messages.parts_version. Rows without a version are from before parts were stored
+// and are rebuilt from the content, reasoning, sources and tool_invocations columns when loaded.
+export const MESSAGE_PARTS_VERSION = 1;
+
+// Stored in chat_messages.status. An aborted message has the parts streamed before the user
+// stopped it, a failed one the parts streamed before the error.
+export type MessageStatus = 'complete' | 'aborted' | 'failed';
+
+export interface CollectedMessage {
+  // The message id useChat shows, undefined when the stream ended before the first step
+  id?: string;
+  parts: MessagePart[];
+  status: MessageStatus;
+  error?: string;
+  // Usage of the finished steps. A step that was stopped or failed has no usage from the
+  // provider, its output tokens are estimated from the streamed text.
+  usage: LanguageModelUsage;
+  modelId?: string;
+}
+
+// Roughly four characters per token for English text
+const CHARS_PER_TOKEN = 4;
+
+// Added to the annotations of loaded messages that did not complete
+export interface MessageStatusAnnotation {
+  status: Exclude<MessageStatus, 'complete'>;
+  error?: string;
+}
+
+export function getMessageStatus(
+  annotations: UIMessage['annotations']
+): MessageStatusAnnotation | undefined {
+  const annotation = annotations?.find(
+    (annotation) =>
+      typeof annotation === 'object' &&
+      annotation !== null &&
+      'status' in annotation &&
+      (annotation.status === 'aborted' || annotation.status === 'failed')
+  );
+  return annotation as MessageStatusAnnotation | undefined;
+}
+
+type ReasoningDetail = ReasoningUIPart['details'][number];
+
+// Builds the assistant message parts from the stream the same way useChat does on the client
+// (processChatResponse in @ai-sdk/ui-utils), so a stored message renders exactly like the streamed one.
+// Never throws, a stream that is cancelled or fails still returns what was streamed until then.
+export async function collectMessage<TOOLS extends ToolSet>(
+  stream: AsyncIterable<TextStreamPart<TOOLS>>,
+  {
+    abortSignal,
+    getErrorMessage
+  }: { abortSignal: AbortSignal; getErrorMessage: (error: unknown) => string }
+): Promise<CollectedMessage> {
+  const parts: MessagePart[] = [];
+  let id: string | undefined;
+  let status: MessageStatus = 'complete';
+  let error: string | undefined;
+  let step = 0;
+  let modelId: string | undefined;
+  const usage: LanguageModelUsage = {
+    promptTokens: 0,
+    completionTokens: 0,
+    totalTokens: 0
+  };
+  // Text and reasoning of the step that didn't finish yet
+  let stepCharacters = 0;
+  let textPart: TextUIPart | undefined;
+  let reasoningPart: ReasoningUIPart | undefined;
+  let reasoningDetail: Extract<ReasoningDetail, { type: 'text' }> | undefined;
+
+  // A tool call keeps its position in the message, later states replace the earlier ones
+  const setToolInvocation = (toolInvocation: ToolInvocation) => {
+    const index = parts.findIndex(
+      (part) =>
+        part.type === 'tool-invocation' &&
+        part.toolInvocation.toolCallId === toolInvocation.toolCallId
+    );
+    if (index === -1) {
+      parts.push({ type: 'tool-invocation', toolInvocation });
+    } else {
+      parts[index] = { type: 'tool-invocation', toolInvocation };
+    }
+  };
+
+  const setError = (streamError: unknown) => {
+    if (abortSignal.aborted) {
+      status = 'aborted';
+    } else {
+      status = 'failed';
+      error = getErrorMessage(streamError);
+    }
+  };
+
+  try {
+    for await (const chunk of stream) {
+      switch (chunk.type) {
+        case 'step-start':
+          // useChat switches to the id of every new step
+          id = chunk.messageId;
+          parts.push({ type: 'step-start' });
+          break;
+        case 'text-delta':
+          if (!textPart) {
+            textPart = { type: 'text', text: '' };
+            parts.push(textPart);
+          }
+          textPart.text += chunk.textDelta;
+          stepCharacters += chunk.textDelta.length;
+          break;
+        case 'reasoning':
+          if (!reasoningDetail) {
+            reasoningDetail = { type: 'text', text: '' };
+            reasoningPart?.details.push(reasoningDetail);
+          }
+          if (!reasoningPart) {
+            reasoningPart = {
+              type: 'reasoning',
+              reasoning: '',
+              details: [reasoningDetail]
+            };
+            parts.push(reasoningPart);
+          }
+          reasoningDetail.text += chunk.textDelta;
+          reasoningPart.reasoning += chunk.textDelta;
+          stepCharacters += chunk.textDelta.length;
+          break;
+        case 'reasoning-signature':
+          if (reasoningDetail) {
+            reasoningDetail.signature = chunk.signature;
+          }
+          break;
+        case 'redacted-reasoning':
+          if (!reasoningPart) {
+            reasoningPart = { type: 'reasoning', reasoning: '', details: [] };
+            parts.push(reasoningPart);
+          }
+          reasoningPart.details.push({ type: 'redacted', data: chunk.data });
+          reasoningDetail = undefined;
+          break;
+        case 'source':
+          parts.push({ type: 'source', source: chunk.source });
+          break;
+        case 'file':
+          parts.push({
+            type: 'file',
+            mimeType: chunk.mimeType,
+            data: chunk.base64
+          });
+          break;
+        case 'tool-call-streaming-start':
+          setToolInvocation({
+            state: 'partial-call',
+            step,
+            toolCallId: chunk.toolCallId,
+            toolName: chunk.toolName,
+            args: undefined
+          });
+          break;
+        case 'tool-call':
+          setToolInvocation({
+            state: 'call',
+            step,
+            toolCallId: chunk.toolCallId,
+            toolName: chunk.toolName,
+            args: chunk.args
+          });
+          break;
+        case 'tool-result':
+          setToolInvocation({
+            state: 'result',
+            step,
+            toolCallId: chunk.toolCallId,
+            toolName: chunk.toolName,
+            args: chunk.args,
+            result: chunk.result
+          });
+          break;
+        case 'step-finish':
+          step += 1;
+          modelId = chunk.response.modelId;
+          // Providers that don't report usage give NaN
+          usage.promptTokens += chunk.usage.promptTokens || 0;
+          usage.completionTokens += chunk.usage.completionTokens || 0;
+          usage.totalTokens += chunk.usage.totalTokens || 0;
+          stepCharacters = 0;
+          textPart = chunk.isContinued ? textPart : undefined;
+          reasoningPart = undefined;
+          reasoningDetail = undefined;
+          break;
+        case 'error':
+          setError(chunk.error);
+          break;
+      }
+    }
+  } catch (streamError) {
+    setError(streamError);
+  }
+
+  if (status === 'complete') {
+    return { id, parts, status, usage, modelId };
+  }
+
+  const estimatedTokens = Math.ceil(stepCharacters / CHARS_PER_TOKEN);
+  usage.completionTokens += estimatedTokens;
+  usage.totalTokens += estimatedTokens;
+
+  // A tool call without a result can't be sent back to the model in the next request
+  return {
+    id,
+    parts: parts.filter(
+      (part) =>
+        part.type !== 'tool-invocation' ||
+        part.toolInvocation.state === 'result'
+    ),
+    status,
+    error,
+    usage,
+    modelId
+  };
+}
+
+// The flattened text of a message, kept in chat_messages.content for previews and search
+export const getMessageText = (parts: MessagePart[]) =>
+  parts.map((part) => (part.type === 'text' ? part.text : '')).join('');
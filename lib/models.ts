@@ -0,0 +1,130 @@
+import type { LanguageModelV1ProviderMetadata } from '@ai-sdk/provider';
+import type { AnthropicProviderOptions } from '@ai-sdk/anthropic';
+import type { OpenAIResponsesProviderOptions } from '@ai-sdk/openai';
+
+// Model registry shared by the chat route and the model picker in the chat input.
+// Adding a model is a single entry in the `models` array below. The provider SDK
+// instance is resolved on the server in lib/server/models.ts, so this file stays
+// safe to import from client components.
+
+export type ModelProvider = 'openai' | 'anthropic' | 'google';
+
+export interface ModelCapabilities {
+  reasoning: boolean;
+  vision: boolean;
+  pdfAttachments: boolean;
+  toolCalling: boolean;
+}
+
+export interface ModelDefinition {
+  id: string;
+  label: string;
+  provider: ModelProvider;
+  providerModelId: string;
+  capabilities: ModelCapabilities;
+  contextWindow: number;
+  providerOptions?: LanguageModelV1ProviderMetadata;
+}
+
+export const models = [
+  {
+    id: 'gpt-4.1',
+    label: 'GPT-4.1',
+    provider: 'openai',
+    providerModelId: 'gpt-4.1-2025-04-14',
+    capabilities: {
+      reasoning: false,
+      vision: true,
+      pdfAttachments: true,
+      toolCalling: true
+    },
+    contextWindow: 1_047_576
+  },
+  {
+    id: 'gpt-4.1-mini',
+    label: 'GPT-4.1 Mini',
+    provider: 'openai',
+    providerModelId: 'gpt-4.1-mini',
+    capabilities: {
+      reasoning: false,
+      vision: true,
+      pdfAttachments: true,
+      toolCalling: true
+    },
+    contextWindow: 1_047_576
+  },
+  {
+    id: 'o3',
+    label: 'OpenAI O3',
+    provider: 'openai',
+    providerModelId: 'o3-2025-04-16',
+    capabilities: {
+      reasoning: true,
+      vision: true,
+      pdfAttachments: true,
+      toolCalling: true
+    },
+    contextWindow: 200_000,
+    providerOptions: {
+      openai: {
+        reasoningEffort: 'high'
+      } satisfies OpenAIResponsesProviderOptions
+    }
+  },
+  {
+    id: 'claude-3.7-sonnet',
+    label: 'Claude 3.7 Sonnet',
+    provider: 'anthropic',
+    providerModelId: 'claude-3-7-sonnet-20250219',
+    capabilities: {
+      reasoning: true,
+      vision: true,
+      pdfAttachments: true,
+      toolCalling: true
+    },
+    contextWindow: 200_000,
+    providerOptions: {
+      anthropic: {
+        thinking: { type: 'enabled', budgetTokens: 12000 }
+      } satisfies AnthropicProviderOptions
+    }
+  },
+  {
+    id: 'gemini-2.5-pro',
+    label: 'Gemini 2.5 Pro',
+    provider: 'google',
+    providerModelId: 'gemini-2.5-pro-preview-03-25',
+    capabilities: {
+      reasoning: true,
+      vision: true,
+      pdfAttachments: true,
+      toolCalling: true
+    },
+    contextWindow: 1_048_576
+  },
+  {
+    id: 'gemini-2.5-flash',
+    label: 'Gemini 2.5 Flash',
+    provider: 'google',
+    providerModelId: 'gemini-2.5-flash-preview-04-17',
+    capabilities: {
+      reasoning: true,
+      vision: true,
+      pdfAttachments: true,
+      toolCalling: true
+    },
+    contextWindow: 1_048_576
+  }
+] as const satisfies readonly ModelDefinition[];
+
+export type ModelId = (typeof models)[number]['id'];
+
+export const DEFAULT_MODEL_ID: ModelId = 'gpt-4.1';
+
+export function isModelId(value: unknown): value is ModelId {
+  return models.some((model) => model.id === value);
+}
+
+export function getModelDefinition(id: unknown): ModelDefinition | undefined {
+  return models.find((model) => model.id === id);
+}
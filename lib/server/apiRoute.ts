@@ -0,0 +1,183 @@
+import 'server-only';
+import { type NextRequest, NextResponse } from 'next/server';
+import type { User } from '@supabase/supabase-js';
+import { Ratelimit, type Duration } from '@upstash/ratelimit';
+import type { z } from 'zod';
+import { redis } from './server';
+import { getSession } from './supabase';
+import { consumeMessageQuota, type MessageQuotaResult } from './quota';
+
+type RateLimitPolicy = (userId: string) => Promise<MessageQuotaResult>;
+
+// Fixed limits for routes that are not part of a usage plan
+const fixedWindowPolicy = (
+  name: string,
+  tokens: number,
+  window: Duration
+): RateLimitPolicy => {
+  const ratelimit = new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(tokens, window),
+    prefix: `ratelimit_${name}`
+  });
+  return async (userId) => {
+    const { success, limit, remaining, reset } = await ratelimit.limit(userId);
+    return success
+      ? { success, limit, remaining, reset }
+      : {
+          success,
+          message: 'Too many requests. Please try again later.',
+          limit,
+          remaining,
+          reset
+        };
+  };
+};
+
+export const rateLimitPolicies = {
+  chat: (userId) => consumeMessageQuota(userId, 'chat'),
+  perplexity: (userId) => consumeMessageQuota(userId, 'perplexity'),
+  websitechat: (userId) => consumeMessageQuota(userId, 'websitechat'),
+  // One request per upload batch or retried file
+  upload: fixedWindowPolicy('upload', 30, '1 h'),
+  // The upload queue polls every 5 seconds per open tab
+  ingestion: fixedWindowPolicy('ingestion', 120, '1 m'),
+  // The history search runs while the user types
+  search: fixedWindowPolicy('search', 60, '1 m'),
+  // Every export loads all messages of the chat
+  export: fixedWindowPolicy('export', 30, '1 h'),
+  // One request imports a whole file of conversations
+  import: fixedWindowPolicy('import', 10, '1 h'),
+  // Website viewer, PDF proxy and link previews, every source of an answer loads a preview
+  proxy: fixedWindowPolicy('proxy', 120, '1 m')
+} satisfies Record<string, RateLimitPolicy>;
+
+export type RateLimitPolicyName = keyof typeof rateLimitPolicies;
+
+// Every error response has this shape, so clients can always read `error`
+export const jsonError = (
+  error: string,
+  status: number,
+  init?: { headers?: HeadersInit; issues?: z.ZodIssue[] }
+) =>
+  NextResponse.json(init?.issues ? { error, issues: init.issues } : { error }, {
+    status,
+    headers: init?.headers
+  });
+
+interface ApiRouteOptions<TSchema extends z.ZodTypeAny> {
+  // Schema for the JSON body. Routes without one don't read the body.
+  body?: TSchema;
+  // Larger bodies are rejected with a 413 before they are parsed
+  maxBodyBytes?: number;
+  // Applied after the body is validated, so a policy can depend on it
+  rateLimit?:
+    RateLimitPolicyName | ((body: z.infer<TSchema>) => RateLimitPolicyName);
+  // The handler charges the rate limit itself with chargeRateLimit after its own checks, so a
+  // request it rejects doesn't use up the quota
+  deferRateLimit?: boolean;
+}
+
+// The body is read until it exceeds the limit, the Content-Length header can be missing or wrong
+async function readJsonBody(req: NextRequest, maxBytes: number) {
+  if (Number(req.headers.get('content-length')) > maxBytes) {
+    return { tooLarge: true };
+  }
+  if (!req.body) return { json: undefined };
+
+  const reader = req.body.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    size += value.byteLength;
+    if (size > maxBytes) {
+      await reader.cancel();
+      return { tooLarge: true };
+    }
+    chunks.push(value);
+  }
+
+  try {
+    return { json: JSON.parse(Buffer.concat(chunks).toString('utf-8')) };
+  } catch {
+    return { json: undefined };
+  }
+}
+
+interface ApiRouteContext<TBody> {
+  session: User;
+  body: TBody;
+  // Returns the 429 response when the limit is reached. Charges only once per request.
+  chargeRateLimit: () => Promise<Response | null>;
+}
+
+// Wraps a route handler with authentication, a rate limit policy and body validation. Errors thrown
+// by the handler are logged and returned as a 500.
+export function apiRoute<TSchema extends z.ZodTypeAny = z.ZodUndefined>(
+  options: ApiRouteOptions<TSchema>,
+  handler: (
+    req: NextRequest,
+    context: ApiRouteContext<z.infer<TSchema>>
+  ) => Promise<Response>
+) {
+  return async (req: NextRequest) => {
+    try {
+      const session = await getSession();
+      if (!session) {
+        return jsonError('No active session found', 401);
+      }
+
+      let body: z.infer<TSchema> = undefined;
+      if (options.body) {
+        const { json, tooLarge } = await readJsonBody(
+          req,
+          options.maxBodyBytes ?? Infinity
+        );
+        if (tooLarge) {
+          return jsonError('The request body is too large', 413);
+        }
+        const result = options.body.safeParse(json);
+        if (!result.success) {
+          return jsonError('Invalid request body', 400, {
+            issues: result.error.issues
+          });
+        }
+        body = result.data;
+      }
+
+      let charged = false;
+      const chargeRateLimit = async () => {
+        if (!options.rateLimit || charged) return null;
+        charged = true;
+        const policyName =
+          typeof options.rateLimit === 'function'
+            ? options.rateLimit(body)
+            : options.rateLimit;
+        const quota = await rateLimitPolicies[policyName](session.id);
+        if (quota.success) return null;
+        return jsonError(quota.message, 429, {
+          headers: {
+            'X-RateLimit-Limit': quota.limit.toString(),
+            'X-RateLimit-Remaining': quota.remaining.toString(),
+            'X-RateLimit-Reset': new Date(quota.reset).toISOString()
+          }
+        });
+      };
+
+      if (!options.deferRateLimit) {
+        const limited = await chargeRateLimit();
+        if (limited) return limited;
+      }
+
+      const response = await handler(req, { session, body, chargeRateLimit });
+      // A successful request always counts, also when the handler didn't charge it
+      if (response.ok) await chargeRateLimit();
+      return response;
+    } catch (error) {
+      console.error(`Error in ${req.method} ${req.nextUrl.pathname}:`, error);
+      return jsonError('Internal server error', 500);
+    }
+  };
+}
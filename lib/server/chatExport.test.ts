@@ -0,0 +1,59 @@
+import { describe, expect, it, vi } from 'vitest';
+import { rewriteDocumentCitations } from './chatExport';
+
+vi.mock('./server', () => ({ createServerSupabaseClient: vi.fn() }));
+
+describe('rewriteDocumentCitations', () => {
+  it.each([
+    [
+      'a citation with the document title as label',
+      '[Annual Report](<?pdf=Annual_Report&v=1&p=3>)',
+      'Annual Report, p. 3'
+    ],
+    [
+      'a label that starts with the document title',
+      '[annual_report page 3](<?pdf=Annual_Report&p=3>)',
+      'Annual Report, p. 3'
+    ],
+    [
+      'a label that is more than the title',
+      '[Revenue grew](<?pdf=Annual_Report&p=3>)',
+      'Revenue grew (Annual Report, p. 3)'
+    ],
+    ['an empty label', '[](<?pdf=Annual_Report&p=3>)', 'Annual Report, p. 3'],
+    [
+      'a citation without angle brackets',
+      '[Annual Report](?pdf=Annual_Report&p=3)',
+      'Annual Report, p. 3'
+    ],
+    [
+      'a citation without a page',
+      '[Annual Report](<?pdf=Annual_Report&v=2>)',
+      'Annual Report'
+    ],
+    [
+      'an encoded title',
+      '[Q&A Notes](<?pdf=Q%26A_Notes&p=1>)',
+      'Q&A Notes, p. 1'
+    ]
+  ])('rewrites %s', (_name, text, expected) => {
+    expect(rewriteDocumentCitations(text)).toBe(expected);
+  });
+
+  it('rewrites every citation in the text', () => {
+    expect(
+      rewriteDocumentCitations(
+        'See [Plan](<?pdf=Plan&p=1>) and [Budget](<?pdf=Budget&p=7>).'
+      )
+    ).toBe('See Plan, p. 1 and Budget, p. 7.');
+  });
+
+  it.each([
+    ['a citation without a title', '[Report](<?pdf=&p=3>)'],
+    ['a web link', '[Report](https://example.com/?pdf=Report&p=3)'],
+    ['a link with other parameters', '[Report](<?doc=Report&p=3>)'],
+    ['text without links', 'Page 3 of the report']
+  ])('leaves %s unchanged', (_name, text) => {
+    expect(rewriteDocumentCitations(text)).toBe(text);
+  });
+});
@@ -0,0 +1,374 @@
+import 'server-only';
+import { Marked, type Tokens } from 'marked';
+import type { Attachment } from '@ai-sdk/ui-utils';
+import { createServerSupabaseClient } from './server';
+import { fetchChatMessages } from '@/app/chat/[id]/fetch';
+import {
+  createTree,
+  getBranch,
+  getLatestLeaf,
+  type BranchMessage
+} from '@/app/chat/utils/branches';
+import {
+  getMessageStatus,
+  getMessageText,
+  type MessagePart,
+  type MessageStatus
+} from '@/lib/messageParts';
+
+export type ChatExportFormat = 'markdown' | 'print' | 'json';
+
+// Bumped when the JSON layout changes, so an import can tell which layout a file has
+export const CHAT_EXPORT_VERSION = 1;
+
+export interface ExportedMessage {
+  id: string;
+  // The message this one answers or follows, messages with the same parent are branches
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  createdAt: string;
+  status: MessageStatus;
+  error?: string;
+  // Text, reasoning, sources and tool invocations as stored in chat_messages.parts
+  parts: MessagePart[];
+  attachments: Attachment[];
+}
+
+export interface ChatExport {
+  format: 'chat-export';
+  version: typeof CHAT_EXPORT_VERSION;
+  exportedAt: string;
+  chat: {
+    id: string;
+    title: string | null;
+    summary: string | null;
+    createdAt: string;
+  };
+  // Every branch of the chat, oldest first
+  messages: ExportedMessage[];
+}
+
+interface ExportFile {
+  body: string;
+  headers: Record<string, string>;
+}
+
+const toExportedMessage = (message: BranchMessage): ExportedMessage => {
+  const status = getMessageStatus(message.annotations);
+  return {
+    id: message.id,
+    parentId: message.parentId,
+    role: message.role === 'user' ? 'user' : 'assistant',
+    createdAt: new Date(message.createdAt ?? 0).toISOString(),
+    status: status?.status ?? 'complete',
+    ...(status?.error && { error: status.error }),
+    parts: message.parts ?? [],
+    attachments: message.experimental_attachments ?? []
+  };
+};
+
+// Null when the chat does not exist or belongs to another user
+export async function loadChatExport(
+  chatId: string,
+  userId: string
+): Promise<ChatExport | null> {
+  const supabase = await createServerSupabaseClient();
+  const { data: chatSession, error } = await supabase
+    .from('chat_sessions')
+    .select('id, chat_title, chat_summary, created_at')
+    .eq('id', chatId)
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  if (error) {
+    throw new Error(`Failed to fetch chat session: ${error.message}`);
+  }
+  if (!chatSession) return null;
+
+  const messages = await fetchChatMessages(chatId);
+
+  return {
+    format: 'chat-export',
+    version: CHAT_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    chat: {
+      id: chatSession.id,
+      title: chatSession.chat_title,
+      summary: chatSession.chat_summary,
+      createdAt: chatSession.created_at
+    },
+    messages: messages.map(toExportedMessage)
+  };
+}
+
+// Document citations look like [label](<?pdf=Document_title&v=1&p=3>), they only resolve inside the app
+const DOCUMENT_CITATION = /\[([^\]]*)\]\(<?\?(pdf=[^)>\s]*)>?\)/g;
+
+const normalizeTitle = (title: string) =>
+  title.replace(/_/g, ' ').trim().toLowerCase();
+
+// Rewrites document citations to plain "Document, p. X" references. A label that is more than the
+// document title is kept in front of the reference.
+export function rewriteDocumentCitations(text: string) {
+  return text.replace(DOCUMENT_CITATION, (citation, label: string, query) => {
+    const params = new URLSearchParams(query);
+    const title = params.get('pdf')?.replace(/_/g, ' ').trim();
+    if (!title) return citation;
+
+    const page = params.get('p');
+    const reference = page ? `${title}, p. ${page}` : title;
+    return !label || normalizeTitle(label).startsWith(normalizeTitle(title))
+      ? reference
+      : `${label} (${reference})`;
+  });
+}
+
+interface WebSource {
+  title?: string;
+  url: string;
+}
+
+const WEB_LINK = /\[([^\]]*)\]\(<?(https?:\/\/[^)>\s]+)>?\)/g;
+
+const isWebSourceList = (value: unknown): value is WebSource[] =>
+  Array.isArray(value) &&
+  value.every(
+    (source) =>
+      typeof source === 'object' &&
+      source !== null &&
+      'url' in source &&
+      typeof source.url === 'string'
+  );
+
+// Source parts, the sources of the web search tools and the web links in the text, each URL once
+function getWebSources(parts: MessagePart[]) {
+  const sources = new Map<string, WebSource>();
+  const add = (source: WebSource) => {
+    if (!sources.has(source.url)) sources.set(source.url, source);
+  };
+
+  for (const part of parts) {
+    if (part.type === 'source') {
+      add({ title: part.source.title, url: part.source.url });
+    } else if (
+      part.type === 'tool-invocation' &&
+      part.toolInvocation.state === 'result'
+    ) {
+      const result: unknown = part.toolInvocation.result;
+      if (
+        typeof result === 'object' &&
+        result !== null &&
+        'sources' in result &&
+        isWebSourceList(result.sources)
+      ) {
+        result.sources.forEach(add);
+      }
+    } else if (part.type === 'text') {
+      for (const [, title, url] of part.text.matchAll(WEB_LINK)) {
+        add({ title: title || undefined, url });
+      }
+    }
+  }
+
+  return [...sources.values()];
+}
+
+const formatDate = (date: string) =>
+  `${new Date(date).toISOString().slice(0, 16).replace('T', ' ')} UTC`;
+
+// The branch that was used last, the same one the chat opens with
+function getCurrentBranch(messages: ExportedMessage[]) {
+  const tree = createTree(
+    messages.map((message) => ({
+      id: message.id,
+      parentId: message.parentId,
+      role: message.role,
+      content: '',
+      createdAt: new Date(message.createdAt)
+    }))
+  );
+  const leafId = getLatestLeaf(tree);
+  if (!leafId) return [];
+
+  const ids = new Set(getBranch(tree, leafId).map((message) => message.id));
+  return messages.filter((message) => ids.has(message.id));
+}
+
+export function chatToMarkdown(chatExport: ChatExport) {
+  const { chat } = chatExport;
+  const lines = [
+    `# ${chat.title ?? 'Untitled chat'}`,
+    '',
+    `Created ${formatDate(chat.createdAt)}, exported ${formatDate(chatExport.exportedAt)}`
+  ];
+  if (chat.summary) {
+    lines.push('', `> ${chat.summary}`);
+  }
+
+  for (const message of getCurrentBranch(chatExport.messages)) {
+    lines.push(
+      '',
+      '---',
+      '',
+      `## ${message.role === 'user' ? 'User' : 'Assistant'} (${formatDate(message.createdAt)})`,
+      '',
+      rewriteDocumentCitations(getMessageText(message.parts)).trim()
+    );
+
+    if (message.attachments.length > 0) {
+      lines.push(
+        '',
+        '**Attachments**',
+        '',
+        ...message.attachments.map(
+          (attachment) => `- ${attachment.name ?? 'Unnamed file'}`
+        )
+      );
+    }
+
+    if (message.status === 'aborted') {
+      lines.push('', '*The response was stopped.*');
+    } else if (message.status === 'failed') {
+      lines.push(
+        '',
+        `*The response failed: ${message.error ?? 'Unknown error'}*`
+      );
+    }
+
+    const sources = getWebSources(message.parts);
+    if (sources.length > 0) {
+      lines.push(
+        '',
+        '**Sources**',
+        '',
+        ...sources.map(
+          (source) => `- [${source.title || source.url}](${source.url})`
+        )
+      );
+    }
+  }
+
+  return lines.join('\n') + '\n';
+}
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// Message text is untrusted, raw HTML is shown as text and only web links stay links. Remote
+// images become links, the page can't load them, so it doesn't tell any website it was opened.
+const printMarked = new Marked({
+  renderer: {
+    html: ({ text }: Tokens.HTML | Tokens.Tag) => escapeHtml(text),
+    link({ href, tokens }: Tokens.Link) {
+      return /^(https?:|mailto:)/i.test(href)
+        ? false
+        : this.parser.parseInline(tokens);
+    },
+    image({ href, text }: Tokens.Image) {
+      if (/^data:image\//i.test(href)) return false;
+      return /^https?:/i.test(href)
+        ? `<a href="${escapeHtml(href)}">${escapeHtml(text || href)}</a>`
+        : escapeHtml(text);
+    }
+  }
+});
+
+// A page that opens the print dialog, where the browser can also save it as a PDF. The nonce only allows the
+// print script, nothing from the messages can run.
+export function chatToPrintableHtml(chatExport: ChatExport, nonce: string) {
+  const content = printMarked.parse(chatToMarkdown(chatExport), {
+    async: false
+  });
+  const title = escapeHtml(chatExport.chat.title ?? 'Untitled chat');
+
+  return `<!DOCTYPE html>
+<html>
+<head>
+<meta charset="utf-8">
+<title>${title}</title>
+<style>
+  body { font-family: system-ui, sans-serif; line-height: 1.5; max-width: 48rem; margin: 2rem auto; padding: 0 1rem; color: #111; }
+  h1 { font-size: 1.6rem; }
+  h2 { font-size: 1.1rem; margin-top: 1.5rem; }
+  hr { border: none; border-top: 1px solid #ddd; margin: 1.5rem 0; }
+  blockquote { margin: 0; padding-left: 1rem; border-left: 3px solid #ddd; color: #555; }
+  pre { background: #f5f5f5; padding: 0.75rem; overflow-x: auto; white-space: pre-wrap; }
+  code { font-size: 0.9em; }
+  table { border-collapse: collapse; }
+  th, td { border: 1px solid #ddd; padding: 0.25rem 0.5rem; }
+  a { color: #1d4ed8; word-break: break-all; }
+  @media print { body { margin: 0; } a { color: inherit; } }
+</style>
+</head>
+<body>
+${content}
+<script nonce="${nonce}">window.addEventListener('load', () => window.print());</script>
+</body>
+</html>
+`;
+}
+
+const getFileName = (chatExport: ChatExport, extension: string) => {
+  const slug = (chatExport.chat.title ?? 'chat')
+    .normalize('NFKD')
+    .replace(/[^\w\s-]/g, '')
+    .trim()
+    .replace(/[\s_]+/g, '-')
+    .toLowerCase()
+    .slice(0, 60);
+  return `${slug || 'chat'}-${chatExport.exportedAt.slice(0, 10)}.${extension}`;
+};
+
+const fileHeaders = (
+  chatExport: ChatExport,
+  contentType: string,
+  extension: string,
+  disposition: 'attachment' | 'inline' = 'attachment'
+) => ({
+  'Content-Type': contentType,
+  'Content-Disposition': `${disposition}; filename="${getFileName(chatExport, extension)}"`,
+  'Cache-Control': 'private, no-store'
+});
+
+export function createExportFile(
+  chatExport: ChatExport,
+  format: ChatExportFormat
+): ExportFile {
+  switch (format) {
+    case 'markdown':
+      return {
+        body: chatToMarkdown(chatExport),
+        headers: fileHeaders(chatExport, 'text/markdown; charset=utf-8', 'md')
+      };
+    case 'print': {
+      // Opened in a new tab instead of downloaded, the browser's print dialog saves it as a PDF
+      const nonce = crypto.randomUUID();
+      return {
+        body: chatToPrintableHtml(chatExport, nonce),
+        headers: {
+          ...fileHeaders(
+            chatExport,
+            'text/html; charset=utf-8',
+            'html',
+            'inline'
+          ),
+          'Content-Security-Policy': `default-src 'none'; img-src 'self' data:; style-src 'unsafe-inline'; script-src 'nonce-${nonce}'`
+        }
+      };
+    }
+    case 'json':
+      return {
+        body: JSON.stringify(chatExport, null, 2),
+        headers: fileHeaders(
+          chatExport,
+          'application/json; charset=utf-8',
+          'json'
+        )
+      };
+  }
+}
@@ -0,0 +1,327 @@
+import { describe, expect, it, vi } from 'vitest';
+import { chatImportSchema, toImportedChats } from './chatImport';
+import { CHAT_EXPORT_VERSION } from './chatExport';
+
+vi.mock('./server', () => ({ createServerSupabaseClient: vi.fn() }));
+
+const importFile = (file: unknown) =>
+  toImportedChats(chatImportSchema.parse(file));
+
+const messageTexts = (file: unknown) =>
+  importFile(file).map((chat) =>
+    chat.messages.map((message) => [
+      message.role,
+      message.parts.find((part) => part.type === 'text')?.text
+    ])
+  );
+
+const sourceUrls = (parts: { type: string; source?: { url: string } }[]) =>
+  parts.flatMap((part) => (part.source ? [part.source.url] : []));
+
+describe('app chat export', () => {
+  const exportFile = (messages: unknown[]) => ({
+    format: 'chat-export',
+    version: CHAT_EXPORT_VERSION,
+    chat: {
+      title: 'Exported',
+      summary: 'About things',
+      createdAt: '2024-05-01T10:00:00.000Z'
+    },
+    messages
+  });
+
+  const exportedMessage = (
+    id: string,
+    parentId: string | null,
+    createdAt: string,
+    parts: unknown[] = [{ type: 'text', text: id }]
+  ) => ({
+    id,
+    parentId,
+    role: parentId ? 'assistant' : 'user',
+    createdAt,
+    status: 'complete',
+    parts,
+    attachments: []
+  });
+
+  it('keeps the branches and orders parents before their children', () => {
+    const [chat] = importFile(
+      exportFile([
+        exportedMessage('answer-2', 'question', '2024-05-01T10:02:00.000Z'),
+        exportedMessage('answer-1', 'question', '2024-05-01T10:01:00.000Z'),
+        exportedMessage('question', null, '2024-05-01T10:00:00.000Z')
+      ])
+    );
+
+    expect(chat).toMatchObject({ title: 'Exported', summary: 'About things' });
+    expect(
+      chat.messages.map((message) => [message.id, message.parentId])
+    ).toEqual([
+      ['question', null],
+      ['answer-1', 'question'],
+      ['answer-2', 'question']
+    ]);
+  });
+
+  it('drops parents that are not in the file', () => {
+    const [chat] = importFile(
+      exportFile([exportedMessage('answer', 'missing', '2024-05-01T10:00:00Z')])
+    );
+
+    expect(chat.messages[0].parentId).toBeNull();
+  });
+
+  it('drops tool calls without a result', () => {
+    const toolCall = (state: string, extra: object = {}) => ({
+      type: 'tool-invocation',
+      toolInvocation: {
+        state,
+        toolCallId: state,
+        toolName: 'search',
+        args: {},
+        ...extra
+      }
+    });
+    const [chat] = importFile(
+      exportFile([
+        exportedMessage('answer', null, '2024-05-01T10:00:00Z', [
+          toolCall('call'),
+          toolCall('result', { result: [] }),
+          { type: 'text', text: 'Done' }
+        ])
+      ])
+    );
+
+    expect(chat.messages[0].parts.map((part) => part.type)).toEqual([
+      'tool-invocation',
+      'text'
+    ]);
+  });
+
+  it.each([
+    'javascript:alert(1)',
+    'data:text/html,<b>x</b>',
+    'file:///etc/passwd'
+  ])('rejects the source link %s', (url) => {
+    const file = exportFile([
+      exportedMessage('answer', null, '2024-05-01T10:00:00Z', [
+        { type: 'source', source: { sourceType: 'url', id: '1', url } }
+      ])
+    ]);
+
+    expect(chatImportSchema.safeParse(file).success).toBe(false);
+  });
+
+  it('rejects attachments that are not inline data', () => {
+    const message = {
+      ...exportedMessage('question', null, '2024-05-01T10:00:00Z'),
+      attachments: [{ name: 'a.txt', url: 'https://example.com/a.txt' }]
+    };
+
+    expect(chatImportSchema.safeParse(exportFile([message])).success).toBe(
+      false
+    );
+  });
+});
+
+describe('ChatGPT export', () => {
+  const node = (
+    id: string,
+    parent: string | null,
+    role: string,
+    parts: unknown[],
+    metadata: object = {}
+  ) => ({
+    id,
+    parent,
+    message: {
+      author: { role },
+      create_time: 1714557600,
+      content: { content_type: 'text', parts },
+      metadata
+    }
+  });
+
+  const conversation = {
+    title: 'From ChatGPT',
+    create_time: 1714557600,
+    current_node: 'answer-2',
+    mapping: {
+      root: { id: 'root', parent: null, message: null },
+      system: node('system', 'root', 'system', ['You are helpful'], {
+        is_visually_hidden_from_conversation: true
+      }),
+      question: node('question', 'system', 'user', ['Question', { image: 1 }]),
+      'answer-1': node('answer-1', 'question', 'assistant', ['Old answer']),
+      'answer-2': node('answer-2', 'question', 'assistant', ['New answer'], {
+        citations: [
+          { metadata: { title: 'A', url: 'https://a.test' } },
+          { metadata: { title: 'A again', url: 'https://a.test' } },
+          { metadata: { url: 'javascript:alert(1)' } },
+          {}
+        ]
+      })
+    }
+  };
+
+  it('imports the branch that was shown', () => {
+    expect(messageTexts([conversation])).toEqual([
+      [
+        ['user', 'Question'],
+        ['assistant', 'New answer']
+      ]
+    ]);
+  });
+
+  it('links the messages in order and keeps the times', () => {
+    const [chat] = importFile(conversation);
+
+    expect(chat).toMatchObject({
+      title: 'From ChatGPT',
+      createdAt: '2024-05-01T10:00:00.000Z'
+    });
+    expect(chat.messages[1].parentId).toBe(chat.messages[0].id);
+    expect(chat.messages[0].createdAt).toBe('2024-05-01T10:00:00.000Z');
+  });
+
+  it('keeps each cited web link once', () => {
+    const [chat] = importFile(conversation);
+
+    expect(sourceUrls(chat.messages[1].parts)).toEqual(['https://a.test']);
+  });
+
+  it('does not loop on a cycle in the mapping', () => {
+    const cyclic = {
+      current_node: 'a',
+      mapping: {
+        a: node('a', 'b', 'user', ['A']),
+        b: node('b', 'a', 'assistant', ['B'])
+      }
+    };
+
+    expect(messageTexts(cyclic)).toEqual([
+      [
+        ['assistant', 'B'],
+        ['user', 'A']
+      ]
+    ]);
+  });
+});
+
+describe('Claude export', () => {
+  const message = (
+    uuid: string,
+    sender: 'human' | 'assistant',
+    text: string,
+    extra: object = {}
+  ) => ({
+    uuid,
+    sender,
+    text,
+    created_at: '2024-05-01T10:00:00Z',
+    ...extra
+  });
+
+  const conversation = {
+    uuid: 'conversation',
+    name: 'From Claude',
+    created_at: '2024-05-01T10:00:00Z',
+    chat_messages: [
+      message('question', 'human', '', {
+        attachments: [
+          { file_name: 'notes.txt', extracted_content: 'Notes' },
+          { file_name: 'image.png' }
+        ]
+      }),
+      message('empty', 'assistant', '  '),
+      message('answer', 'assistant', 'Answer', {
+        content: [
+          {
+            type: 'text',
+            citations: [
+              { title: 'B', url: 'https://b.test' },
+              { details: { url: 'https://c.test' } },
+              { url: 'ftp://d.test' }
+            ]
+          }
+        ]
+      })
+    ]
+  };
+
+  it('imports messages with text or attachments', () => {
+    expect(messageTexts([conversation])).toEqual([
+      [
+        ['user', ''],
+        ['assistant', 'Answer']
+      ]
+    ]);
+  });
+
+  it('keeps the extracted text of attachments as text files', () => {
+    const [chat] = importFile(conversation);
+
+    expect(chat.messages[0].attachments).toEqual([
+      {
+        name: 'notes.txt',
+        contentType: 'text/plain',
+        url: `data:text/plain;base64,${Buffer.from('Notes').toString('base64')}`
+      }
+    ]);
+  });
+
+  it('keeps the cited web links', () => {
+    const [chat] = importFile(conversation);
+
+    expect(chat.title).toBe('From Claude');
+    expect(chat.messages[1].parentId).toBe('question');
+    expect(sourceUrls(chat.messages[1].parts)).toEqual([
+      'https://b.test',
+      'https://c.test'
+    ]);
+  });
+});
+
+describe('plain message lists', () => {
+  it('imports user and assistant messages', () => {
+    expect(
+      messageTexts([
+        { role: 'system', content: 'Be brief' },
+        { role: 'user', content: 'Hi' },
+        {
+          role: 'assistant',
+          content: [
+            { type: 'text', text: 'Hello' },
+            { type: 'image_url' },
+            { type: 'text', text: ' there' }
+          ]
+        },
+        { role: 'tool', content: 'result' },
+        { role: 'user', content: '   ' }
+      ])
+    ).toEqual([
+      [
+        ['user', 'Hi'],
+        ['assistant', 'Hello there']
+      ]
+    ]);
+  });
+
+  it('keeps the title of a titled list', () => {
+    const [chat] = importFile({
+      title: 'Titled',
+      messages: [
+        { role: 'user', content: 'Hi', createdAt: '2024-05-01T10:00:00Z' }
+      ]
+    });
+
+    expect(chat).toMatchObject({ title: 'Titled', summary: null });
+    expect(chat.messages[0].createdAt).toBe('2024-05-01T10:00:00Z');
+  });
+
+  it('rejects files in other formats', () => {
+    expect(chatImportSchema.safeParse({ chats: [] }).success).toBe(false);
+    expect(chatImportSchema.safeParse([{ text: 'Hi' }]).success).toBe(false);
+  });
+});
@@ -0,0 +1,613 @@
+import 'server-only';
+import { z } from 'zod';
+import { v4 as uuidv4 } from 'uuid';
+import type { Attachment } from '@ai-sdk/ui-utils';
+import type { Json, TablesInsert } from '@/types/database';
+import { createServerSupabaseClient } from './server';
+import { CHAT_EXPORT_VERSION } from './chatExport';
+import {
+  MESSAGE_PARTS_VERSION,
+  getMessageText,
+  type MessagePart,
+  type MessageStatus
+} from '@/lib/messageParts';
+
+// Larger files are rejected before they are parsed
+export const MAX_IMPORT_FILE_BYTES = 20 * 1024 * 1024;
+// Data exports can hold thousands of conversations, only the first ones are imported
+const MAX_IMPORTED_CHATS = 100;
+const MAX_IMPORTED_MESSAGES = 1000;
+// Rows per insert, attachments are stored inline and make rows large
+const INSERT_BATCH_SIZE = 200;
+
+interface ImportedMessage {
+  // Ids from the file, every imported message gets a new one
+  id: string;
+  parentId: string | null;
+  role: 'user' | 'assistant';
+  createdAt?: string;
+  parts: MessagePart[];
+  attachments: Attachment[];
+  status: MessageStatus;
+  error?: string;
+}
+
+interface ImportedChat {
+  title: string | null;
+  summary: string | null;
+  createdAt?: string;
+  // Parents always come before their children
+  messages: ImportedMessage[];
+}
+
+export interface ImportedChatResult {
+  id: string;
+  title: string | null;
+  messageCount: number;
+}
+
+export interface ChatImportResult {
+  chats: ImportedChatResult[];
+  // Conversations over MAX_IMPORTED_CHATS that were not imported
+  skippedCount: number;
+}
+
+const timestamp = z.string().datetime({ offset: true });
+
+// Attachments are sent to the model again when the chat continues, only inline data is accepted
+// so an imported file can't make the server fetch a URL
+const attachmentSchema = z.object({
+  name: z.string().optional(),
+  contentType: z.string().optional(),
+  url: z.string().startsWith('data:')
+});
+
+const isWebUrl = (url: string | undefined): url is string =>
+  !!url && /^https?:\/\//i.test(url);
+
+// Source links are rendered as anchors, so only web links are accepted
+const sourcePartSchema = z.object({
+  type: z.literal('source'),
+  source: z
+    .object({
+      sourceType: z.literal('url'),
+      id: z.string(),
+      url: z
+        .string()
+        .url()
+        .refine(isWebUrl, 'Only http and https links are allowed'),
+      title: z.string().optional()
+    })
+    .passthrough()
+});
+
+const messagePartSchema = z.discriminatedUnion('type', [
+  z.object({ type: z.literal('text'), text: z.string() }),
+  z.object({
+    type: z.literal('reasoning'),
+    reasoning: z.string(),
+    details: z.array(
+      z.union([
+        z.object({
+          type: z.literal('text'),
+          text: z.string(),
+          signature: z.string().optional()
+        }),
+        z.object({ type: z.literal('redacted'), data: z.string() })
+      ])
+    )
+  }),
+  sourcePartSchema,
+  z.object({
+    type: z.literal('tool-invocation'),
+    toolInvocation: z
+      .object({
+        state: z.enum(['partial-call', 'call', 'result']),
+        toolCallId: z.string(),
+        toolName: z.string(),
+        args: z.unknown()
+      })
+      .passthrough()
+  }),
+  z.object({ type: z.literal('file'), mimeType: z.string(), data: z.string() }),
+  z.object({ type: z.literal('step-start') })
+]);
+
+// The JSON export of this app (lib/server/chatExport.ts), branches included
+const chatExportSchema = z.object({
+  format: z.literal('chat-export'),
+  version: z.literal(CHAT_EXPORT_VERSION),
+  chat: z.object({
+    title: z.string().nullable(),
+    summary: z.string().nullable(),
+    createdAt: timestamp
+  }),
+  messages: z
+    .array(
+      z.object({
+        id: z.string(),
+        parentId: z.string().nullable(),
+        role: z.enum(['user', 'assistant']),
+        createdAt: timestamp,
+        status: z.enum(['complete', 'aborted', 'failed']),
+        error: z.string().optional(),
+        parts: z.array(messagePartSchema),
+        attachments: z.array(attachmentSchema)
+      })
+    )
+    .max(MAX_IMPORTED_MESSAGES)
+});
+
+// conversations.json of a ChatGPT data export. Messages form a tree in `mapping`, `current_node`
+// is the last message of the branch that was shown.
+const chatGPTConversationSchema = z.object({
+  title: z.string().nullish(),
+  create_time: z.number().nullish(),
+  current_node: z.string().nullish(),
+  mapping: z.record(
+    z.object({
+      id: z.string(),
+      parent: z.string().nullish(),
+      message: z
+        .object({
+          author: z.object({ role: z.string() }),
+          create_time: z.number().nullish(),
+          content: z
+            .object({
+              content_type: z.string(),
+              parts: z.array(z.unknown()).optional()
+            })
+            .passthrough(),
+          metadata: z
+            .object({
+              is_visually_hidden_from_conversation: z.boolean().optional(),
+              citations: z
+                .array(
+                  z
+                    .object({
+                      metadata: z
+                        .object({
+                          title: z.string().optional(),
+                          url: z.string().optional()
+                        })
+                        .passthrough()
+                        .optional()
+                    })
+                    .passthrough()
+                )
+                .optional()
+            })
+            .passthrough()
+            .nullish()
+        })
+        .nullish()
+    })
+  )
+});
+
+// conversations.json of a Claude data export
+const claudeConversationSchema = z.object({
+  uuid: z.string(),
+  name: z.string().nullish(),
+  created_at: timestamp,
+  chat_messages: z
+    .array(
+      z.object({
+        uuid: z.string(),
+        sender: z.enum(['human', 'assistant']),
+        text: z.string(),
+        created_at: timestamp,
+        content: z
+          .array(
+            z
+              .object({
+                type: z.string(),
+                citations: z
+                  .array(
+                    z
+                      .object({
+                        url: z.string().optional(),
+                        title: z.string().optional(),
+                        details: z
+                          .object({ url: z.string().optional() })
+                          .passthrough()
+                          .optional()
+                      })
+                      .passthrough()
+                  )
+                  .optional()
+              })
+              .passthrough()
+          )
+          .optional(),
+        attachments: z
+          .array(
+            z
+              .object({
+                file_name: z.string(),
+                file_type: z.string().optional(),
+                extracted_content: z.string().optional()
+              })
+              .passthrough()
+          )
+          .optional()
+      })
+    )
+    .max(MAX_IMPORTED_MESSAGES)
+});
+
+// A plain list of role and content messages, as used by most chat APIs and many export tools
+const plainMessageSchema = z.object({
+  role: z.string(),
+  content: z.union([
+    z.string(),
+    z.array(
+      z.object({ type: z.string(), text: z.string().optional() }).passthrough()
+    )
+  ]),
+  created_at: timestamp.optional(),
+  createdAt: timestamp.optional()
+});
+
+const plainMessagesSchema = z
+  .array(plainMessageSchema)
+  .max(MAX_IMPORTED_MESSAGES);
+
+export const chatImportSchema = z.union([
+  chatExportSchema,
+  z.array(chatGPTConversationSchema).min(1),
+  chatGPTConversationSchema,
+  z.array(claudeConversationSchema).min(1),
+  claudeConversationSchema,
+  z.object({ title: z.string().nullish(), messages: plainMessagesSchema }),
+  plainMessagesSchema
+]);
+
+export type ChatImportFile = z.infer<typeof chatImportSchema>;
+
+const textMessage = (
+  id: string,
+  parentId: string | null,
+  role: 'user' | 'assistant',
+  text: string,
+  createdAt: string | undefined,
+  extra: {
+    sources?: { title?: string; url: string }[];
+    attachments?: Attachment[];
+  } = {}
+): ImportedMessage => ({
+  id,
+  parentId,
+  role,
+  createdAt,
+  parts: [
+    { type: 'text', text },
+    ...(extra.sources ?? []).map((source): MessagePart => ({
+      type: 'source',
+      source: {
+        sourceType: 'url',
+        id: uuidv4(),
+        url: source.url,
+        title: source.title
+      }
+    }))
+  ],
+  attachments: extra.attachments ?? [],
+  status: 'complete'
+});
+
+// Each URL once, in the order they were cited
+const uniqueSources = (sources: { title?: string; url?: string }[]) =>
+  sources.filter(
+    (source, index): source is { title?: string; url: string } =>
+      isWebUrl(source.url) &&
+      sources.findIndex((other) => other.url === source.url) === index
+  );
+
+const fromUnixTime = (seconds: number | null | undefined) =>
+  seconds ? new Date(seconds * 1000).toISOString() : undefined;
+
+const toDataUrl = (text: string, contentType: string) =>
+  `data:${contentType};base64,${Buffer.from(text).toString('base64')}`;
+
+function fromChatExport(file: z.infer<typeof chatExportSchema>): ImportedChat {
+  // Sorted by time, so a parent is inserted before its children
+  const messages = [...file.messages].sort(
+    (a, b) => new Date(a.createdAt).getTime() - new Date(b.createdAt).getTime()
+  );
+  const ids = new Set<string>();
+  return {
+    title: file.chat.title,
+    summary: file.chat.summary,
+    createdAt: file.chat.createdAt,
+    messages: messages.map((message) => {
+      const parentId =
+        message.parentId && ids.has(message.parentId) ? message.parentId : null;
+      ids.add(message.id);
+      return {
+        ...message,
+        parentId,
+        // Tool calls without a result can't be sent to the model again, the chat would fail
+        parts: message.parts.filter(
+          (part) =>
+            part.type !== 'tool-invocation' ||
+            part.toolInvocation.state === 'result'
+        ) as MessagePart[]
+      };
+    })
+  };
+}
+
+// Only the branch that was shown is imported, ChatGPT keeps the other branches as edits
+function fromChatGPT(
+  conversation: z.infer<typeof chatGPTConversationSchema>
+): ImportedChat {
+  const { mapping } = conversation;
+  const branch: (typeof mapping)[string][] = [];
+  const leafId = conversation.current_node ?? Object.keys(mapping).at(-1);
+  const seen = new Set<string>();
+  for (
+    let node = leafId ? mapping[leafId] : undefined;
+    node && !seen.has(node.id);
+    node = node.parent ? mapping[node.parent] : undefined
+  ) {
+    seen.add(node.id);
+    branch.unshift(node);
+  }
+
+  const messages: ImportedMessage[] = [];
+  for (const { id, message } of branch) {
+    const role = message?.author.role;
+    if (
+      !message ||
+      (role !== 'user' && role !== 'assistant') ||
+      message.metadata?.is_visually_hidden_from_conversation
+    ) {
+      continue;
+    }
+    // Text and multimodal_text messages, images and other content parts are skipped
+    const text = (message.content.parts ?? [])
+      .filter((part): part is string => typeof part === 'string')
+      .join('\n')
+      .trim();
+    if (!text) continue;
+
+    messages.push(
+      textMessage(
+        id,
+        messages.at(-1)?.id ?? null,
+        role,
+        text,
+        fromUnixTime(message.create_time),
+        {
+          sources: uniqueSources(
+            (message.metadata?.citations ?? []).map(
+              (citation) => citation.metadata ?? {}
+            )
+          )
+        }
+      )
+    );
+  }
+
+  return {
+    title: conversation.title || null,
+    summary: null,
+    createdAt: fromUnixTime(conversation.create_time),
+    messages: messages.slice(0, MAX_IMPORTED_MESSAGES)
+  };
+}
+
+function fromClaude(
+  conversation: z.infer<typeof claudeConversationSchema>
+): ImportedChat {
+  const messages: ImportedMessage[] = [];
+  for (const message of conversation.chat_messages) {
+    // Attachments only have their extracted text, it is kept as a text file
+    const attachments = (message.attachments ?? []).flatMap((attachment) =>
+      attachment.extracted_content
+        ? [
+            {
+              name: attachment.file_name,
+              contentType: 'text/plain',
+              url: toDataUrl(attachment.extracted_content, 'text/plain')
+            }
+          ]
+        : []
+    );
+    if (!message.text.trim() && attachments.length === 0) continue;
+
+    messages.push(
+      textMessage(
+        message.uuid,
+        messages.at(-1)?.id ?? null,
+        message.sender === 'human' ? 'user' : 'assistant',
+        message.text,
+        message.created_at,
+        {
+          sources: uniqueSources(
+            (message.content ?? []).flatMap((content) =>
+              (content.citations ?? []).map((citation) => ({
+                title: citation.title,
+                url: citation.url ?? citation.details?.url
+              }))
+            )
+          ),
+          attachments
+        }
+      )
+    );
+  }
+
+  return {
+    title: conversation.name || null,
+    summary: null,
+    createdAt: conversation.created_at,
+    messages
+  };
+}
+
+function fromPlainMessages(
+  title: string | null,
+  plainMessages: z.infer<typeof plainMessagesSchema>
+): ImportedChat {
+  const messages: ImportedMessage[] = [];
+  for (const message of plainMessages) {
+    // System and tool messages are not part of the visible conversation
+    if (message.role !== 'user' && message.role !== 'assistant') continue;
+    const text =
+      typeof message.content === 'string'
+        ? message.content
+        : message.content
+            .map((part) => (part.type === 'text' ? (part.text ?? '') : ''))
+            .join('');
+    if (!text.trim()) continue;
+
+    messages.push(
+      textMessage(
+        uuidv4(),
+        messages.at(-1)?.id ?? null,
+        message.role,
+        text,
+        message.created_at ?? message.createdAt
+      )
+    );
+  }
+
+  return { title, summary: null, messages };
+}
+
+export function toImportedChats(file: ChatImportFile): ImportedChat[] {
+  if (Array.isArray(file)) {
+    if (file.length === 0) return [];
+    if ('mapping' in file[0]) {
+      return (file as z.infer<typeof chatGPTConversationSchema>[]).map(
+        fromChatGPT
+      );
+    }
+    if ('chat_messages' in file[0]) {
+      return (file as z.infer<typeof claudeConversationSchema>[]).map(
+        fromClaude
+      );
+    }
+    return [
+      fromPlainMessages(null, file as z.infer<typeof plainMessagesSchema>)
+    ];
+  }
+  if ('format' in file) return [fromChatExport(file)];
+  if ('mapping' in file) return [fromChatGPT(file)];
+  if ('chat_messages' in file) return [fromClaude(file)];
+  return [fromPlainMessages(file.title ?? null, file.messages)];
+}
+
+// Every message is at least a millisecond after its parent, the chat orders messages by created_at
+function getTimestamps(chat: ImportedChat) {
+  const times = new Map<string, number>();
+  const start = chat.createdAt
+    ? new Date(chat.createdAt).getTime()
+    : Date.now();
+  for (const message of chat.messages) {
+    const parentTime = message.parentId
+      ? times.get(message.parentId)
+      : undefined;
+    const time = message.createdAt
+      ? new Date(message.createdAt).getTime()
+      : start;
+    times.set(
+      message.id,
+      parentTime === undefined ? time : Math.max(time, parentTime + 1)
+    );
+  }
+  return times;
+}
+
+async function insertChat(
+  userId: string,
+  chat: ImportedChat
+): Promise<ImportedChatResult> {
+  const supabase = await createServerSupabaseClient();
+  const chatSessionId = uuidv4();
+  const ids = new Map(chat.messages.map((message) => [message.id, uuidv4()]));
+  const times = getTimestamps(chat);
+  const lastTime = Math.max(...times.values());
+  const createdAt = new Date(
+    Math.min(
+      chat.createdAt ? new Date(chat.createdAt).getTime() : lastTime,
+      ...times.values()
+    )
+  ).toISOString();
+
+  const { error: sessionError } = await supabase.from('chat_sessions').insert({
+    id: chatSessionId,
+    user_id: userId,
+    chat_title: chat.title,
+    chat_summary: chat.summary,
+    // An imported summary covers the imported messages, the next one follows after more messages
+    summary_message_count: chat.summary ? chat.messages.length : 0,
+    created_at: createdAt,
+    updated_at: new Date(lastTime).toISOString()
+  });
+
+  if (sessionError) {
+    throw new Error(`Failed to create chat session: ${sessionError.message}`);
+  }
+
+  const rows = chat.messages.map((message): TablesInsert<'chat_messages'> => ({
+    id: ids.get(message.id),
+    chat_session_id: chatSessionId,
+    parent_id: message.parentId ? (ids.get(message.parentId) ?? null) : null,
+    is_user_message: message.role === 'user',
+    content: getMessageText(message.parts),
+    parts: message.parts as Json,
+    parts_version: MESSAGE_PARTS_VERSION,
+    attachments:
+      message.attachments.length > 0
+        ? JSON.stringify(message.attachments)
+        : null,
+    status: message.status,
+    error: message.error ?? null,
+    created_at: new Date(times.get(message.id) ?? lastTime).toISOString()
+  }));
+
+  try {
+    // Parents come first, so every batch only references rows that already exist
+    for (let index = 0; index < rows.length; index += INSERT_BATCH_SIZE) {
+      const { error } = await supabase
+        .from('chat_messages')
+        .insert(rows.slice(index, index + INSERT_BATCH_SIZE));
+      if (error) {
+        throw new Error(`Failed to import chat messages: ${error.message}`);
+      }
+    }
+  } catch (error) {
+    // A half imported chat is removed, its messages are deleted with it
+    await supabase.from('chat_sessions').delete().eq('id', chatSessionId);
+    throw error;
+  }
+
+  return {
+    id: chatSessionId,
+    title: chat.title,
+    messageCount: rows.length
+  };
+}
+
+// Creates a new chat for each of the first MAX_IMPORTED_CHATS conversations in the file.
+// Conversations without any user or assistant text are skipped.
+export async function importChats(
+  userId: string,
+  file: ChatImportFile
+): Promise<ChatImportResult> {
+  const chats = toImportedChats(file).filter(
+    (chat) => chat.messages.length > 0
+  );
+
+  const imported: ImportedChatResult[] = [];
+  for (const chat of chats.slice(0, MAX_IMPORTED_CHATS)) {
+    imported.push(await insertChat(userId, chat));
+  }
+  return {
+    chats: imported,
+    skippedCount: Math.max(chats.length - MAX_IMPORTED_CHATS, 0)
+  };
+}
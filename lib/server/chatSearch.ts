@@ -0,0 +1,57 @@
+import 'server-only';
+import { createServerSupabaseClient } from './server';
+
+const MAX_RESULTS = 50;
+
+export interface ChatSearchResult {
+  chatId: string;
+  chatTitle: string | null;
+  // Null when only the chat title matched
+  messageId: string | null;
+  isUserMessage: boolean | null;
+  // Matches are wrapped in \u0002 and \u0003
+  snippet: string;
+  createdAt: string;
+}
+
+export interface ChatSearchOptions {
+  query: string;
+  // Inclusive calendar days, YYYY-MM-DD in UTC
+  from?: string;
+  to?: string;
+}
+
+const nextDay = (date: string) => {
+  const day = new Date(`${date}T00:00:00Z`);
+  day.setUTCDate(day.getUTCDate() + 1);
+  return day.toISOString();
+};
+
+// Searches the message text and titles of the user's chats, best matches first
+export async function searchChatHistory(
+  userId: string,
+  { query, from, to }: ChatSearchOptions
+): Promise<ChatSearchResult[]> {
+  const supabase = await createServerSupabaseClient();
+
+  const { data, error } = await supabase.rpc('search_chat_history', {
+    query_text: query,
+    filter_user_id: userId,
+    match_count: MAX_RESULTS,
+    date_from: from ? `${from}T00:00:00Z` : undefined,
+    date_to: to ? nextDay(to) : undefined
+  });
+
+  if (error) {
+    throw new Error(`Failed to search chat history: ${error.message}`);
+  }
+
+  return data.map((hit) => ({
+    chatId: hit.chat_session_id,
+    chatTitle: hit.chat_title,
+    messageId: hit.message_id,
+    isUserMessage: hit.is_user_message,
+    snippet: hit.snippet,
+    createdAt: hit.created_at
+  }));
+}
@@ -0,0 +1,101 @@
+import 'server-only';
+import { createAdminClient } from './admin';
+import { rewriteDocumentCitations } from './chatExport';
+import { fetchChatMessages } from '@/app/chat/[id]/fetch';
+import {
+  createTree,
+  getBranch,
+  getLatestLeaf
+} from '@/app/chat/utils/branches';
+import {
+  getMessageStatus,
+  type MessagePart,
+  type MessageStatusAnnotation
+} from '@/lib/messageParts';
+
+export interface SharedMessage {
+  id: string;
+  role: 'user' | 'assistant';
+  createdAt: string;
+  // Text, reasoning and sources only. Tool results can quote the owner's documents.
+  parts: MessagePart[];
+  // Attachments are the owner's files, the viewer only sees their names
+  attachmentNames: string[];
+  // Without the error message, it can contain details of the owner's setup
+  status?: MessageStatusAnnotation['status'];
+}
+
+export interface SharedChat {
+  title: string | null;
+  expiresAt: string | null;
+  messages: SharedMessage[];
+}
+
+// The viewer can't open the owner's documents, so citations become plain "Document, p. X" references
+const toSharedPart = (part: MessagePart): MessagePart[] => {
+  switch (part.type) {
+    case 'text':
+      return [{ ...part, text: rewriteDocumentCitations(part.text) }];
+    case 'reasoning':
+      return [
+        {
+          ...part,
+          reasoning: rewriteDocumentCitations(part.reasoning),
+          details: part.details.map((detail) =>
+            detail.type === 'text'
+              ? { ...detail, text: rewriteDocumentCitations(detail.text) }
+              : detail
+          )
+        }
+      ];
+    case 'source':
+      return [part];
+    default:
+      return [];
+  }
+};
+
+// Null when the token is unknown, revoked or expired. Reads with the service role, the visitor is
+// usually not signed in, so only the checked token gives access to the chat.
+export async function getSharedChat(token: string): Promise<SharedChat | null> {
+  const supabase = createAdminClient();
+
+  const { data: share, error: shareError } = await supabase
+    .from('chat_shares')
+    .select('chat_session_id, expires_at, chat_sessions(chat_title)')
+    .eq('token', token)
+    .is('revoked_at', null)
+    .maybeSingle();
+
+  if (shareError) {
+    throw new Error(`Failed to fetch chat share: ${shareError.message}`);
+  }
+  if (
+    !share ||
+    (share.expires_at && new Date(share.expires_at).getTime() <= Date.now())
+  ) {
+    return null;
+  }
+
+  // Only the branch the owner used last is shown
+  const tree = createTree(
+    await fetchChatMessages(share.chat_session_id, supabase)
+  );
+  const leafId = getLatestLeaf(tree);
+  const branch = leafId ? getBranch(tree, leafId) : [];
+
+  return {
+    title: share.chat_sessions?.chat_title ?? null,
+    expiresAt: share.expires_at,
+    messages: branch.map((message) => ({
+      id: message.id,
+      role: message.role === 'user' ? 'user' : 'assistant',
+      createdAt: new Date(message.createdAt ?? 0).toISOString(),
+      parts: (message.parts ?? []).flatMap(toSharedPart),
+      attachmentNames: (message.experimental_attachments ?? []).map(
+        (attachment) => attachment.name ?? 'Unnamed file'
+      ),
+      status: getMessageStatus(message.annotations)?.status
+    }))
+  };
+}
@@ -0,0 +1,184 @@
+import ExcelJS from 'exceljs';
+import { describe, expect, it } from 'vitest';
+import { extractors } from './extractors';
+
+const textBlob = (text: string) => new Blob([text], { type: 'text/plain' });
+
+// A PDF with one page per string, in Helvetica. An empty string is a page without a text layer,
+// like a scanned page.
+function pdfBlob(pages: string[]) {
+  const objects = [
+    '<< /Type /Catalog /Pages 2 0 R >>',
+    `<< /Type /Pages /Kids [${pages.map((_, index) => `${4 + index * 2} 0 R`).join(' ')}] /Count ${pages.length} >>`,
+    '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+    ...pages.flatMap((text, index) => {
+      const content = text ? `BT /F1 12 Tf 72 720 Td (${text}) Tj ET` : '';
+      return [
+        `<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> >> /Contents ${5 + index * 2} 0 R >>`,
+        `<< /Length ${content.length} >>\nstream\n${content}\nendstream`
+      ];
+    })
+  ];
+
+  let pdf = '%PDF-1.4\n';
+  const offsets = objects.map((object, index) => {
+    const offset = pdf.length;
+    pdf += `${index + 1} 0 obj\n${object}\nendobj\n`;
+    return offset;
+  });
+  const xrefOffset = pdf.length;
+  pdf += [
+    'xref',
+    `0 ${objects.length + 1}`,
+    '0000000000 65535 f ',
+    ...offsets.map((offset) => `${String(offset).padStart(10, '0')} 00000 n `),
+    'trailer',
+    `<< /Size ${objects.length + 1} /Root 1 0 R >>`,
+    'startxref',
+    `${xrefOffset}`,
+    '%%EOF'
+  ].join('\n');
+  return new Blob([pdf], { type: 'application/pdf' });
+}
+
+async function xlsxBlob(
+  sheets: Record<string, (string | number | Date | null)[][]>
+) {
+  const workbook = new ExcelJS.Workbook();
+  for (const [name, rows] of Object.entries(sheets)) {
+    const worksheet = workbook.addWorksheet(name);
+    rows.forEach((row, index) => {
+      if (row.length > 0) worksheet.getRow(index + 1).values = row;
+    });
+  }
+  return new Blob([await workbook.xlsx.writeBuffer()]);
+}
+
+const pageTitles = (pages: string[]) =>
+  pages.map((page) => page.split('\n')[0]);
+
+describe('csv extractor', () => {
+  it('numbers rows as in the file, counting blank rows', async () => {
+    const csv = ['name,amount', 'a,1', '', 'b,2', ',', 'c,3'].join('\n');
+    const [page] = await extractors.csv(textBlob(csv));
+
+    expect(pageTitles([page])).toEqual(['## rows 2-6']);
+    expect(page).toContain('| a | 1 |');
+    expect(page).toContain('| c | 3 |');
+    expect(page).not.toContain('|  |  |');
+  });
+
+  it('counts a quoted value with line breaks as one row', async () => {
+    const csv = ['name,note', 'a,"first\nsecond"', 'b,x'].join('\n');
+    const [page] = await extractors.csv(textBlob(csv));
+
+    expect(pageTitles([page])).toEqual(['## rows 2-3']);
+    expect(page).toContain('| a | first second |');
+  });
+
+  it('splits large files into pages of 50 rows', async () => {
+    const rows = Array.from({ length: 200_000 }, (_, index) => `${index},x`);
+    const pages = await extractors.csv(
+      textBlob(['id,value', ...rows].join('\n'))
+    );
+
+    expect(pages).toHaveLength(4000);
+    expect(pageTitles(pages.slice(0, 2))).toEqual([
+      '## rows 2-51',
+      '## rows 52-101'
+    ]);
+    expect(pageTitles(pages.slice(-1))).toEqual(['## rows 199952-200001']);
+  });
+});
+
+describe('tables', () => {
+  it('pads short rows to the widest row and escapes cells', async () => {
+    const csv = ['a,b', '1', '2,x|y,extra'].join('\n');
+    const [page] = await extractors.csv(textBlob(csv));
+
+    expect(page.split('\n').slice(1)).toEqual([
+      '| a | b |  |',
+      '| --- | --- | --- |',
+      '| 1 |  |  |',
+      '| 2 | x\\|y | extra |'
+    ]);
+  });
+
+  it('returns the header alone when there are no other rows', async () => {
+    expect(await extractors.csv(textBlob('a,b\n'))).toEqual([
+      '| a | b |\n| --- | --- |'
+    ]);
+  });
+
+  it('returns no pages for an empty file', async () => {
+    expect(await extractors.csv(textBlob(''))).toEqual([]);
+  });
+});
+
+describe('xlsx extractor', () => {
+  it('gives every sheet its own pages with the sheet row numbers', async () => {
+    const data = await xlsxBlob({
+      Costs: [['item', 'amount'], ['rent', 100], [], ['food', 20]],
+      Dates: [['day'], [new Date(Date.UTC(2024, 4, 1))]]
+    });
+    const pages = await extractors.xlsx(data);
+
+    expect(pageTitles(pages)).toEqual([
+      '## Sheet: Costs (rows 2-4)',
+      '## Sheet: Dates (rows 2-2)'
+    ]);
+    expect(pages[0]).toContain('| food | 20 |');
+    expect(pages[1]).toContain('| 2024-05-01 |');
+  });
+});
+
+describe('pdf extractor', () => {
+  it('returns one page per PDF page, empty pages included', async () => {
+    expect(
+      await extractors.pdf(pdfBlob(['First page', '', 'Third page']))
+    ).toEqual(['First page', '', 'Third page']);
+  });
+});
+
+describe('text extractors', () => {
+  it('packs whole paragraphs into pages of about 3000 characters', async () => {
+    // 999 characters, three of them fill a page
+    const paragraph = 'word '.repeat(200).trim();
+    const paragraphs = Array.from({ length: 8 }, () => paragraph);
+    const pages = await extractors.text(textBlob(paragraphs.join('\n\n\n')));
+
+    expect(pages).toEqual([
+      paragraphs.slice(0, 3).join('\n\n'),
+      paragraphs.slice(3, 6).join('\n\n'),
+      paragraphs.slice(6).join('\n\n')
+    ]);
+  });
+
+  it('splits markdown sections longer than a page on paragraphs', async () => {
+    const paragraph = 'text '.repeat(200).trim();
+    const markdown = [
+      '# One',
+      paragraph,
+      '### Detail',
+      paragraph,
+      paragraph,
+      '## Two',
+      'Short section'
+    ].join('\n\n');
+    const pages = await extractors.markdown(textBlob(markdown));
+
+    expect(pages).toEqual([
+      ['# One', paragraph, '### Detail', paragraph, paragraph].join('\n\n'),
+      '## Two\n\nShort section'
+    ]);
+  });
+
+  it('converts html to markdown without scripts and styles', async () => {
+    const html =
+      '<html><head><style>p { color: red; }</style></head><body><h1>Title</h1><p>Body <b>text</b></p><script>alert(1)</script></body></html>';
+
+    expect(await extractors.html(textBlob(html))).toEqual([
+      '# Title\n\nBody **text**'
+    ]);
+  });
+});
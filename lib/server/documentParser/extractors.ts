@@ -0,0 +1,166 @@
+import 'server-only';
+import { extractText, getDocumentProxy } from 'unpdf';
+import mammoth from 'mammoth';
+import Papa from 'papaparse';
+import ExcelJS from 'exceljs';
+import TurndownService from 'turndown';
+import type { DocumentFileTypeId } from '@/lib/documentTypes';
+
+// Formats without fixed pages are cut into "pages" of roughly this size so citations stay specific
+const PAGE_CHARS = 3000;
+// Table rows per page for CSV files and spreadsheet sheets. The header row is repeated on every page.
+const ROWS_PER_PAGE = 50;
+
+export type PageExtractor = (data: Blob) => Promise<string[]>;
+
+interface TableRow {
+  // The row number in the file, as a spreadsheet shows it, so blank rows are counted
+  number: number;
+  cells: string[];
+}
+
+// Pack blocks into pages without splitting a block across two pages
+function groupIntoPages(blocks: string[]) {
+  return blocks.reduce<string[]>((pages, block) => {
+    const current = pages[pages.length - 1];
+    if (current !== undefined && current.length < PAGE_CHARS) {
+      pages[pages.length - 1] = `${current}\n\n${block}`;
+    } else {
+      pages.push(block);
+    }
+    return pages;
+  }, []);
+}
+
+const splitParagraphs = (text: string) =>
+  text.split(/\n{2,}/).filter((paragraph) => paragraph.trim() !== '');
+
+// Sections start at level 1 and 2 headings. Sections that are too long for one page are split on paragraphs.
+function splitMarkdown(markdown: string) {
+  const sections = markdown
+    .split(/^(?=#{1,2}\s)/m)
+    .filter((section) => section.trim() !== '');
+  const blocks = sections.flatMap((section) =>
+    section.length > PAGE_CHARS ? splitParagraphs(section) : [section.trim()]
+  );
+  return groupIntoPages(blocks);
+}
+
+const escapeCell = (value: string) =>
+  value.replace(/\|/g, '\\|').replace(/\r?\n/g, ' ').trim();
+
+// Render rows as markdown tables of ROWS_PER_PAGE rows, each page titled with its row range
+function tableToPages(rows: TableRow[], title?: string) {
+  const header = rows[0]?.cells;
+  if (!header) return [];
+
+  // Spread arguments overflow the call stack for large tables
+  const columnCount = rows.reduce(
+    (count, row) => Math.max(count, row.cells.length),
+    0
+  );
+  const toRow = (row: string[]) =>
+    `| ${Array.from({ length: columnCount }, (_, index) =>
+      escapeCell(row[index] ?? '')
+    ).join(' | ')} |`;
+  const headerLines = [toRow(header), `|${' --- |'.repeat(columnCount)}`].join(
+    '\n'
+  );
+
+  if (rows.length === 1) {
+    return [[title && `## ${title}`, headerLines].filter(Boolean).join('\n')];
+  }
+
+  const pages: string[] = [];
+  for (let start = 1; start < rows.length; start += ROWS_PER_PAGE) {
+    const pageRows = rows.slice(start, start + ROWS_PER_PAGE);
+    const range = `rows ${pageRows[0].number}-${pageRows[pageRows.length - 1].number}`;
+    pages.push(
+      [
+        `## ${title ? `${title} (${range})` : range}`,
+        headerLines,
+        ...pageRows.map((row) => toRow(row.cells))
+      ].join('\n')
+    );
+  }
+  return pages;
+}
+
+async function extractPdfPages(data: Blob) {
+  const pdf = await getDocumentProxy(new Uint8Array(await data.arrayBuffer()));
+  const { text } = await extractText(pdf, { mergePages: false });
+  return text;
+}
+
+async function extractDocxPages(data: Blob) {
+  const { value } = await mammoth.extractRawText({
+    buffer: Buffer.from(await data.arrayBuffer())
+  });
+  return groupIntoPages(splitParagraphs(value));
+}
+
+async function extractTextPages(data: Blob) {
+  return groupIntoPages(splitParagraphs(await data.text()));
+}
+
+async function extractMarkdownPages(data: Blob) {
+  return splitMarkdown(await data.text());
+}
+
+async function extractHtmlPages(data: Blob) {
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced'
+  });
+  turndown.remove(['script', 'style', 'noscript', 'iframe']);
+  return splitMarkdown(turndown.turndown(await data.text()));
+}
+
+const isBlankRow = (cells: string[]) =>
+  cells.every((cell) => cell.trim() === '');
+
+// Blank records are left out after they are numbered. A quoted value with line breaks is one
+// record, like one row in a spreadsheet.
+async function extractCsvPages(data: Blob) {
+  const { data: records } = Papa.parse<string[]>(await data.text());
+  const rows = records
+    .map((cells, index) => ({ number: index + 1, cells }))
+    .filter((row) => !isBlankRow(row.cells));
+  return tableToPages(rows);
+}
+
+// Every sheet gets its own pages so a citation points at a sheet and a row range
+async function extractXlsxPages(data: Blob) {
+  const workbook = new ExcelJS.Workbook();
+  await workbook.xlsx.load(await data.arrayBuffer());
+
+  return workbook.worksheets.flatMap((worksheet) => {
+    const rows: TableRow[] = [];
+    // Only rows with values, numbered as in the sheet
+    worksheet.eachRow((row, rowNumber) => {
+      const cells: string[] = [];
+      row.eachCell({ includeEmpty: true }, (cell, columnNumber) => {
+        // Dates would otherwise be rendered with Date.toString()
+        cells[columnNumber - 1] =
+          cell.value instanceof Date
+            ? cell.value.toISOString().slice(0, 10)
+            : cell.text;
+      });
+      rows.push({
+        number: rowNumber,
+        cells: Array.from(cells, (cell) => cell ?? '')
+      });
+    });
+    return tableToPages(rows, `Sheet: ${worksheet.name}`);
+  });
+}
+
+export const extractors: Record<DocumentFileTypeId, PageExtractor> = {
+  pdf: extractPdfPages,
+  docx: extractDocxPages,
+  xlsx: extractXlsxPages,
+  csv: extractCsvPages,
+  markdown: extractMarkdownPages,
+  html: extractHtmlPages,
+  text: extractTextPages
+};
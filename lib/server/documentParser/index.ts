@@ -0,0 +1,51 @@
+import 'server-only';
+import { getDocumentFileType } from '@/lib/documentTypes';
+import { llamaCloudParser } from './llamaCloud';
+import { isLocalParseJob, localParser } from './local';
+import type { DocumentParser } from './types';
+
+export type { DocumentParser, ParseJobStatus } from './types';
+
+const parsers = {
+  llamacloud: llamaCloudParser,
+  local: localParser
+} satisfies Record<string, DocumentParser>;
+
+type DocumentParserName = keyof typeof parsers;
+
+const isParserName = (name: string): name is DocumentParserName =>
+  name in parsers;
+
+// Parser selected by DOCUMENT_PARSER, otherwise LlamaCloud when its API key is set and the local
+// parser when it is not
+function getConfiguredParser(): DocumentParser {
+  const configured = process.env.DOCUMENT_PARSER?.toLowerCase();
+
+  if (configured) {
+    if (!isParserName(configured)) {
+      throw new Error(`Unknown DOCUMENT_PARSER: ${configured}`);
+    }
+    if (configured === 'llamacloud' && !process.env.LLAMA_CLOUD_API_KEY) {
+      throw new Error(
+        'DOCUMENT_PARSER is llamacloud but LLAMA_CLOUD_API_KEY is missing'
+      );
+    }
+    return parsers[configured];
+  }
+
+  return process.env.LLAMA_CLOUD_API_KEY ? llamaCloudParser : localParser;
+}
+
+// Parser for a new upload. File types the configured parser can't handle (spreadsheets, text
+// formats) always go to the local parser, which splits them into sheets, sections or row ranges.
+export function getDocumentParser(fileName: string): DocumentParser {
+  const parser = getConfiguredParser();
+  const fileType = getDocumentFileType(fileName);
+  return fileType && !parser.fileTypes.includes(fileType)
+    ? localParser
+    : parser;
+}
+
+// Parser that created an existing job, so jobs keep working after DOCUMENT_PARSER changes
+export const getParserForJob = (parseJobId: string): DocumentParser =>
+  isLocalParseJob(parseJobId) ? localParser : llamaCloudParser;
@@ -0,0 +1,94 @@
+import 'server-only';
+import { downloadUserFile } from './storage';
+import type { DocumentParser, ParseJobStatus } from './types';
+
+const LLAMA_CLOUD_PARSING_URL =
+  'https://api.cloud.llamaindex.ai/api/v1/parsing';
+
+const authHeaders = () => ({
+  Authorization: `Bearer ${process.env.LLAMA_CLOUD_API_KEY}`,
+  Accept: 'application/json'
+});
+
+// Download a file from the user's storage folder and submit it to LlamaCloud for parsing
+async function submitParseJob(filePath: string, fileName: string) {
+  const data = await downloadUserFile(filePath);
+
+  const formData = new FormData();
+  formData.append('file', new Blob([data]), fileName);
+
+  const uploadResponse = await fetch(`${LLAMA_CLOUD_PARSING_URL}/upload`, {
+    method: 'POST',
+    headers: authHeaders(),
+    body: formData
+  });
+
+  if (!uploadResponse.ok) {
+    throw new Error(`Failed to upload file: ${uploadResponse.statusText}`);
+  }
+
+  const uploadResult = await uploadResponse.json();
+  return uploadResult.id as string;
+}
+
+async function getParseJobStatus(parseJobId: string): Promise<ParseJobStatus> {
+  const statusResponse = await fetch(
+    `${LLAMA_CLOUD_PARSING_URL}/job/${parseJobId}`,
+    {
+      headers: authHeaders(),
+      cache: 'no-store'
+    }
+  );
+
+  if (!statusResponse.ok) {
+    throw new Error(`Failed to check job status: ${statusResponse.statusText}`);
+  }
+
+  const statusData = await statusResponse.json();
+
+  if (statusData.status === 'SUCCESS') {
+    return { status: 'SUCCESS' };
+  }
+  if (statusData.status === 'ERROR') {
+    return {
+      status: 'ERROR',
+      error: statusData.error_message ?? 'Parsing job failed'
+    };
+  }
+  return { status: 'PENDING' };
+}
+
+// Fetch the parsed markdown and split it into pages
+async function fetchParsedPages(parseJobId: string) {
+  const markdownResponse = await fetch(
+    `${LLAMA_CLOUD_PARSING_URL}/job/${parseJobId}/result/markdown`,
+    {
+      headers: authHeaders(),
+      cache: 'no-store'
+    }
+  );
+
+  if (!markdownResponse.ok) {
+    throw new Error(
+      `Failed to get Markdown result: ${markdownResponse.statusText}`
+    );
+  }
+
+  // Parse the JSON response to extract just the markdown property
+  const responseJson = await markdownResponse.json();
+  const markdownContent = responseJson.markdown as string;
+
+  // Use the correct page splitting pattern
+  return markdownContent
+    .split('\n---\n')
+    .map((page) => page.trim())
+    .filter((page) => page !== '');
+}
+
+export const llamaCloudParser: DocumentParser = {
+  name: 'llamacloud',
+  fileTypes: ['pdf', 'docx'],
+  submit: submitParseJob,
+  getStatus: getParseJobStatus,
+  fetchPages: fetchParsedPages
+};
@@ -0,0 +1,62 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { extractors } from './extractors';
+import { isLocalParseJob, localParser } from './local';
+import { downloadUserFile } from './storage';
+
+vi.mock('./storage', () => ({ downloadUserFile: vi.fn() }));
+
+const FILE_PATH = 'user-id/ZmlsZQ==';
+
+afterEach(() => {
+  vi.resetAllMocks();
+  vi.restoreAllMocks();
+});
+
+describe('localParser', () => {
+  it('parses every extractor file type', () => {
+    expect(localParser.fileTypes).toEqual(Object.keys(extractors));
+  });
+
+  it('encodes the file in the job id', async () => {
+    const jobId = await localParser.submit(FILE_PATH, 'notes.md');
+
+    expect(isLocalParseJob(jobId)).toBe(true);
+    expect(isLocalParseJob('llama-job-id')).toBe(false);
+    expect(await localParser.getStatus(jobId)).toEqual({ status: 'SUCCESS' });
+    expect(downloadUserFile).not.toHaveBeenCalled();
+  });
+
+  it('rejects unsupported files when the job is submitted', async () => {
+    await expect(localParser.submit(FILE_PATH, 'slides.pptx')).rejects.toThrow(
+      'Unsupported file type for local parsing: slides.pptx'
+    );
+  });
+
+  it('downloads the file and extracts it with the extractor for its type', async () => {
+    vi.mocked(downloadUserFile).mockResolvedValue(
+      new Blob(['# Title\n\nText'], { type: 'text/markdown' })
+    );
+    const jobId = await localParser.submit(FILE_PATH, 'notes.md');
+
+    expect(await localParser.fetchPages(jobId)).toEqual(['# Title\n\nText']);
+    expect(downloadUserFile).toHaveBeenCalledWith(FILE_PATH);
+  });
+
+  it('keeps empty pages so the page numbers match the file', async () => {
+    vi.mocked(downloadUserFile).mockResolvedValue(new Blob([]));
+    vi.spyOn(extractors, 'pdf').mockResolvedValue([
+      ' First page\n',
+      '',
+      '  \n ',
+      'Fourth page'
+    ]);
+    const jobId = await localParser.submit(FILE_PATH, 'scan.pdf');
+
+    expect(await localParser.fetchPages(jobId)).toEqual([
+      'First page',
+      '',
+      '',
+      'Fourth page'
+    ]);
+  });
+});
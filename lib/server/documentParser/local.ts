@@ -0,0 +1,49 @@
+import 'server-only';
+import {
+  getDocumentFileType,
+  type DocumentFileTypeId
+} from '@/lib/documentTypes';
+import { downloadUserFile } from './storage';
+import { extractors } from './extractors';
+import type { DocumentParser } from './types';
+
+const LOCAL_JOB_PREFIX = 'local:';
+
+interface LocalParseJob {
+  filePath: string;
+  fileName: string;
+}
+
+const getExtractor = (fileName: string) => {
+  const fileType = getDocumentFileType(fileName);
+  if (!fileType) {
+    throw new Error(`Unsupported file type for local parsing: ${fileName}`);
+  }
+  return extractors[fileType];
+};
+
+const decodeJobId = (parseJobId: string): LocalParseJob =>
+  JSON.parse(parseJobId.slice(LOCAL_JOB_PREFIX.length));
+
+export const isLocalParseJob = (parseJobId: string) =>
+  parseJobId.startsWith(LOCAL_JOB_PREFIX);
+
+// Parses in-process, no external service needed. Nothing is stored between calls: the job id
+// points at the uploaded file and every fetch downloads and extracts it again.
+export const localParser: DocumentParser = {
+  name: 'local',
+  fileTypes: Object.keys(extractors) as DocumentFileTypeId[],
+  submit: async (filePath, fileName) => {
+    getExtractor(fileName);
+    return `${LOCAL_JOB_PREFIX}${JSON.stringify({ filePath, fileName })}`;
+  },
+  getStatus: async () => ({ status: 'SUCCESS' }),
+  fetchPages: async (parseJobId) => {
+    const { filePath, fileName } = decodeJobId(parseJobId);
+    const data = await downloadUserFile(filePath);
+    const pages = await getExtractor(fileName)(data);
+
+    // Empty pages are kept, so a PDF page without a text layer doesn't shift the page numbers after it
+    return pages.map((page) => page.trim());
+  }
+};
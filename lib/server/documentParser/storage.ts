@@ -0,0 +1,15 @@
+import 'server-only';
+import { createAdminClient } from '@/lib/server/admin';
+
+export async function downloadUserFile(filePath: string) {
+  const supabaseAdmin = createAdminClient();
+  const { data, error } = await supabaseAdmin.storage
+    .from('userfiles')
+    .download(filePath);
+
+  if (error) {
+    console.error('Error downloading file:', error);
+    throw new Error('Download failed');
+  }
+  return data;
+}
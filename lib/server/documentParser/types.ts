@@ -0,0 +1,16 @@
+import type { DocumentFileTypeId } from '@/lib/documentTypes';
+
+export type ParseJobStatus =
+  | { status: 'PENDING' }
+  | { status: 'SUCCESS' }
+  | { status: 'ERROR'; error: string };
+
+export interface DocumentParser {
+  name: string;
+  fileTypes: DocumentFileTypeId[];
+  // Start parsing a file from the user's storage folder. Returns the id used for the other calls.
+  submit: (filePath: string, fileName: string) => Promise<string>;
+  getStatus: (parseJobId: string) => Promise<ParseJobStatus>;
+  // The parsed document as markdown, one entry per page
+  fetchPages: (parseJobId: string) => Promise<string[]>;
+}
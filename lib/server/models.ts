@@ -0,0 +1,16 @@
+import 'server-only';
+import type { LanguageModelV1 } from 'ai';
+import { openai } from '@ai-sdk/openai';
+import { anthropic } from '@ai-sdk/anthropic';
+import { google } from '@ai-sdk/google';
+import type { ModelDefinition, ModelProvider } from '@/lib/models';
+
+const providers: Record<ModelProvider, (modelId: string) => LanguageModelV1> = {
+  openai: (modelId) => openai(modelId),
+  anthropic: (modelId) => anthropic(modelId),
+  google: (modelId) => google(modelId)
+};
+
+// Resolves a registry entry to the provider SDK's language model instance
+export const getLanguageModel = (model: ModelDefinition) =>
+  providers[model.provider](model.providerModelId);
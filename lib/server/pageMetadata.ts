@@ -0,0 +1,367 @@
+import 'server-only';
+import { createHash } from 'node:crypto';
+import { redis } from './server';
+import { safeFetch, validateOutboundUrl } from './safeFetch';
+
+// Link previews for hovercards and sources. The head of the page is read for Open Graph, Twitter
+// card and standard meta tags, link elements and JSON-LD, and the result is cached in Redis under
+// the page's canonical URL.
+
+export interface PageMetadata {
+  // The requested URL
+  url: string;
+  canonicalUrl: string;
+  title: string;
+  description: string;
+  siteName: string | null;
+  favicon: string | null;
+  image: string | null;
+  author: string | null;
+  // ISO date
+  publishedAt: string | null;
+}
+
+const CACHE_TTL_SECONDS = 24 * 60 * 60;
+const MAX_TEXT_LENGTH = 500;
+
+type Attributes = Record<string, string>;
+
+interface ParsedHead {
+  title: string;
+  meta: Map<string, string>;
+  links: Attributes[];
+  jsonLd: Record<string, unknown>[];
+}
+
+const NAMED_ENTITIES: Record<string, string> = {
+  amp: '&',
+  lt: '<',
+  gt: '>',
+  quot: '"',
+  apos: "'",
+  nbsp: ' ',
+  hellip: '…',
+  mdash: '—',
+  ndash: '–',
+  lsquo: '‘',
+  rsquo: '’',
+  ldquo: '“',
+  rdquo: '”',
+  copy: '©',
+  reg: '®',
+  trade: '™'
+};
+
+function decodeEntities(text: string) {
+  return text.replace(
+    /&(#x[0-9a-f]+|#\d+|[a-z]+);/gi,
+    (entity, name: string) => {
+      if (name.startsWith('#')) {
+        const codePoint =
+          name[1].toLowerCase() === 'x'
+            ? Number.parseInt(name.slice(2), 16)
+            : Number.parseInt(name.slice(1), 10);
+        return codePoint > 0 && codePoint <= 0x10ffff
+          ? String.fromCodePoint(codePoint)
+          : entity;
+      }
+      return NAMED_ENTITIES[name.toLowerCase()] ?? entity;
+    }
+  );
+}
+
+const cleanText = (text: string) =>
+  text.replace(/\s+/g, ' ').trim().slice(0, MAX_TEXT_LENGTH);
+
+// Attributes in any order, quoted with " or ', unquoted or without a value
+function parseAttributes(source: string): Attributes {
+  const attributes: Attributes = {};
+  const pattern =
+    /([^\s"'>/=]+)(?:\s*=\s*(?:"([^"]*)"|'([^']*)'|([^\s"'=<>`]+)))?/g;
+  for (const match of source.matchAll(pattern)) {
+    const name = match[1].toLowerCase();
+    if (!(name in attributes)) {
+      attributes[name] = decodeEntities(match[2] ?? match[3] ?? match[4] ?? '');
+    }
+  }
+  return attributes;
+}
+
+// JSON-LD blocks can hold one object, an array or a @graph of objects
+function flattenJsonLd(value: unknown): Record<string, unknown>[] {
+  if (Array.isArray(value)) return value.flatMap(flattenJsonLd);
+  if (!value || typeof value !== 'object') return [];
+  const object = value as Record<string, unknown>;
+  return [object, ...flattenJsonLd(object['@graph'])];
+}
+
+function parseHead(html: string): ParsedHead {
+  // Meta and link elements are in the head, JSON-LD is also found in the body
+  const headEnd = html.search(/<\/head\s*>|<body[\s>]/i);
+  const head = headEnd === -1 ? html : html.slice(0, headEnd);
+  // Comments can hold old or conditional tags
+  const source = head.replace(/<!--[\s\S]*?-->/g, '');
+
+  const meta = new Map<string, string>();
+  for (const match of source.matchAll(/<meta\b([^>]*)>/gi)) {
+    const attributes = parseAttributes(match[1]);
+    const key = (
+      attributes.property ??
+      attributes.name ??
+      attributes.itemprop ??
+      ''
+    ).toLowerCase();
+    // The first value wins, like in the browser's own previews
+    if (key && attributes.content && !meta.has(key)) {
+      meta.set(key, attributes.content);
+    }
+  }
+
+  const links = [...source.matchAll(/<link\b([^>]*)>/gi)].map((match) =>
+    parseAttributes(match[1])
+  );
+
+  const titleMatch = /<title\b[^>]*>([\s\S]*?)<\/title\s*>/i.exec(source);
+
+  const jsonLd: Record<string, unknown>[] = [];
+  for (const match of html.matchAll(
+    /<script\b([^>]*)>([\s\S]*?)<\/script\s*>/gi
+  )) {
+    if (
+      parseAttributes(match[1]).type?.toLowerCase() !== 'application/ld+json'
+    ) {
+      continue;
+    }
+    try {
+      jsonLd.push(...flattenJsonLd(JSON.parse(match[2])));
+    } catch {
+      // Invalid JSON-LD is common, the other blocks and tags are still used
+    }
+  }
+
+  return {
+    title: decodeEntities(titleMatch?.[1] ?? ''),
+    meta,
+    links,
+    jsonLd
+  };
+}
+
+const ARTICLE_TYPES = /article|posting|report|webpage|product|recipe|video/i;
+
+// The object that describes the page itself, not its breadcrumbs, website or organization
+function findJsonLdEntity(jsonLd: Record<string, unknown>[]) {
+  return jsonLd.find((entity) =>
+    [entity['@type']]
+      .flat()
+      .some((type) => typeof type === 'string' && ARTICLE_TYPES.test(type))
+  );
+}
+
+// JSON-LD values are a string, an object with a name or url, or a list of either
+function jsonLdText(value: unknown, key: 'name' | 'url'): string | null {
+  if (typeof value === 'string') return value;
+  if (Array.isArray(value)) {
+    const values = value
+      .map((item) => jsonLdText(item, key))
+      .filter((item): item is string => !!item);
+    return values.length > 0 ? values.join(', ') : null;
+  }
+  if (value && typeof value === 'object') {
+    const field = (value as Record<string, unknown>)[key];
+    return typeof field === 'string' ? field : null;
+  }
+  return null;
+}
+
+const firstJsonLdText = (value: unknown, key: 'name' | 'url') =>
+  jsonLdText(Array.isArray(value) ? value[0] : value, key);
+
+// An absolute http(s) URL, relative values are resolved against the page
+function resolveUrl(value: string | null | undefined, base: URL) {
+  if (!value) return null;
+  try {
+    const url = new URL(value.trim(), base);
+    return url.protocol === 'http:' || url.protocol === 'https:'
+      ? url.href
+      : null;
+  } catch {
+    return null;
+  }
+}
+
+const toIsoDate = (value: string | null | undefined) => {
+  if (!value) return null;
+  const date = new Date(value);
+  return Number.isNaN(date.getTime()) ? null : date.toISOString();
+};
+
+const isUrl = (value: string) => /^https?:\/\//i.test(value);
+
+// Scalable and large icons look best in the hovercard, /favicon.ico is the fallback every browser uses
+function findFavicon(links: Attributes[], pageUrl: URL) {
+  const icons = links.filter(
+    (link) =>
+      (link.rel ?? '').toLowerCase().split(/\s+/).includes('icon') ||
+      /apple-touch-icon/i.test(link.rel ?? '')
+  );
+  const getSize = (link: Attributes) =>
+    link.type === 'image/svg+xml' || link.sizes === 'any'
+      ? Infinity
+      : Number.parseInt(link.sizes ?? '', 10) || 16;
+  const best = icons.sort((a, b) => getSize(b) - getSize(a))[0];
+  return (
+    resolveUrl(best?.href, pageUrl) ?? new URL('/favicon.ico', pageUrl).href
+  );
+}
+
+const findLink = (links: Attributes[], rel: string) =>
+  links.find((link) =>
+    (link.rel ?? '').toLowerCase().split(/\s+/).includes(rel)
+  )?.href;
+
+const getSiteHost = (url: URL) => url.hostname.replace(/^www\./, '');
+
+// The cache is keyed by the canonical URL, a page can only name a URL on its own host, otherwise
+// it could replace the preview of any other website
+function findCanonicalUrl(value: string | null, pageUrl: URL) {
+  const canonicalUrl = resolveUrl(value, pageUrl);
+  return canonicalUrl &&
+    getSiteHost(new URL(canonicalUrl)) === getSiteHost(pageUrl)
+    ? canonicalUrl
+    : pageUrl.href;
+}
+
+export function parsePageMetadata(
+  html: string,
+  requestedUrl: string,
+  pageUrl: URL
+): PageMetadata {
+  const { title, meta, links, jsonLd } = parseHead(html);
+  const entity = findJsonLdEntity(jsonLd);
+  const first = (...values: (string | null | undefined)[]) =>
+    values.find((value) => value?.trim()) ?? null;
+
+  // Often a profile URL instead of a name
+  const articleAuthor = meta.get('article:author');
+  const author = first(
+    meta.get('author'),
+    articleAuthor && !isUrl(articleAuthor) ? articleAuthor : null,
+    jsonLdText(entity?.author, 'name'),
+    meta.get('twitter:creator')
+  );
+
+  return {
+    url: requestedUrl,
+    canonicalUrl: findCanonicalUrl(
+      first(findLink(links, 'canonical'), meta.get('og:url')),
+      pageUrl
+    ),
+    title: cleanText(
+      first(
+        meta.get('og:title'),
+        meta.get('twitter:title'),
+        jsonLdText(entity?.headline, 'name'),
+        title
+      ) ?? ''
+    ),
+    description: cleanText(
+      first(
+        meta.get('og:description'),
+        meta.get('twitter:description'),
+        meta.get('description'),
+        jsonLdText(entity?.description, 'name')
+      ) ?? ''
+    ),
+    siteName:
+      first(
+        meta.get('og:site_name'),
+        meta.get('application-name'),
+        jsonLdText(entity?.publisher, 'name')
+      )?.trim() ?? null,
+    favicon: findFavicon(links, pageUrl),
+    image: resolveUrl(
+      first(
+        meta.get('og:image:secure_url'),
+        meta.get('og:image'),
+        meta.get('og:image:url'),
+        meta.get('twitter:image'),
+        meta.get('twitter:image:src'),
+        firstJsonLdText(entity?.image, 'url')
+      ),
+      pageUrl
+    ),
+    author: author ? cleanText(author) : null,
+    publishedAt: toIsoDate(
+      first(
+        meta.get('article:published_time'),
+        typeof entity?.datePublished === 'string' ? entity.datePublished : null,
+        meta.get('date'),
+        meta.get('pubdate'),
+        meta.get('dc.date')
+      )
+    )
+  };
+}
+
+// Keys are hashed, URLs can be longer than is sensible for a key
+const cacheKey = (kind: 'page' | 'alias', url: string) =>
+  `metadata_${kind}:${createHash('sha256').update(url).digest('hex')}`;
+
+// The fragment never changes the page
+const normalizeUrl = (value: string) => {
+  const url = validateOutboundUrl(value);
+  url.hash = '';
+  return url.href;
+};
+
+async function readCache(url: string) {
+  try {
+    const canonicalUrl = await redis.get<string>(cacheKey('alias', url));
+    if (!canonicalUrl) return null;
+    return await redis.get<PageMetadata>(cacheKey('page', canonicalUrl));
+  } catch (error) {
+    console.error('Error reading the metadata cache:', error);
+    return null;
+  }
+}
+
+async function writeCache(url: string, metadata: PageMetadata) {
+  try {
+    await Promise.all([
+      redis.set(cacheKey('page', metadata.canonicalUrl), metadata, {
+        ex: CACHE_TTL_SECONDS
+      }),
+      redis.set(cacheKey('alias', url), metadata.canonicalUrl, {
+        ex: CACHE_TTL_SECONDS
+      })
+    ]);
+  } catch (error) {
+    console.error('Error writing the metadata cache:', error);
+  }
+}
+
+// Every URL that leads to the same page (tracking parameters, redirects, mobile hosts) shares one
+// cache entry through its canonical URL. Throws an OutboundFetchError when the page can't be read.
+export async function getPageMetadata(value: string): Promise<PageMetadata> {
+  const url = normalizeUrl(value);
+  const cached = await readCache(url);
+  if (cached) return { ...cached, url: value };
+
+  // Only the start of the page is read, the meta tags are in the head
+  const response = await safeFetch(url, {
+    accept:
+      'text/html,application/xhtml+xml,application/xml;q=0.9,image/webp,*/*;q=0.8',
+    maxBytes: 512 * 1024,
+    truncate: true,
+    timeoutMs: 5000
+  });
+  const metadata = parsePageMetadata(
+    response.body.toString('utf-8'),
+    value,
+    response.url
+  );
+
+  await writeCache(url, metadata);
+  return metadata;
+}
@@ -0,0 +1,252 @@
+import 'server-only';
+import { Ratelimit, type Duration } from '@upstash/ratelimit';
+import type { LanguageModelUsage } from 'ai';
+import { z } from 'zod';
+import type { Tables } from '@/types/database';
+import { redis } from './server';
+import { createAdminClient } from './admin';
+
+// The message window is validated when the plan is loaded, the column is free text
+export type UsagePlan = Omit<Tables<'usage_plans'>, 'message_window'> & {
+  message_window: Duration;
+};
+
+export type QuotaEndpoint = 'chat' | 'perplexity' | 'websitechat';
+
+const messageLimitColumns = {
+  chat: 'chat_messages',
+  perplexity: 'perplexity_messages',
+  websitechat: 'website_messages'
+} satisfies Record<QuotaEndpoint, keyof UsagePlan>;
+
+// Used when the database has no default plan, same limits as the old fixed rate limit
+const FALLBACK_PLAN: UsagePlan = {
+  id: 'free',
+  name: 'Free',
+  is_default: true,
+  message_window: '24 h',
+  chat_messages: 30,
+  perplexity_messages: 30,
+  website_messages: 30,
+  monthly_tokens: null,
+  upload_bytes: 150 * 1024 * 1024
+};
+
+const STORAGE_PAGE_SIZE = 1000;
+
+// The duration format of @upstash/ratelimit, e.g. "24 h" or "30m"
+const messageWindowSchema = z.custom<Duration>(
+  (value) => typeof value === 'string' && /^\d+ ?(ms|s|m|h|d)$/.test(value)
+);
+
+const supabaseAdmin = createAdminClient();
+
+export async function getUserPlan(userId: string): Promise<UsagePlan> {
+  const { data: assignment } = await supabaseAdmin
+    .from('user_plans')
+    .select('plan_id')
+    .eq('user_id', userId)
+    .maybeSingle();
+
+  const query = supabaseAdmin.from('usage_plans').select('*');
+  const { data: plan, error } = await (
+    assignment
+      ? query.eq('id', assignment.plan_id)
+      : query.eq('is_default', true)
+  ).maybeSingle();
+
+  if (error) {
+    console.error('Error fetching usage plan:', error);
+  }
+  if (!plan) return FALLBACK_PLAN;
+
+  const messageWindow = messageWindowSchema.safeParse(plan.message_window);
+  if (!messageWindow.success) {
+    console.error(
+      `Invalid message window "${plan.message_window}" in usage plan ${plan.id}, using ${FALLBACK_PLAN.message_window}`
+    );
+  }
+
+  return {
+    ...plan,
+    message_window: messageWindow.success
+      ? messageWindow.data
+      : FALLBACK_PLAN.message_window
+  };
+}
+
+// Every endpoint has its own budget, keyed by endpoint and user
+const getMessageLimiter = (plan: UsagePlan, endpoint: QuotaEndpoint) =>
+  new Ratelimit({
+    redis,
+    limiter: Ratelimit.slidingWindow(
+      plan[messageLimitColumns[endpoint]],
+      plan.message_window
+    ),
+    prefix: `ratelimit_${endpoint}`
+  });
+
+const getMonthStart = () => {
+  const now = new Date();
+  return new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), 1));
+};
+
+async function getMonthlyTokenUsage(userId: string) {
+  const { data, error } = await supabaseAdmin.rpc('get_token_usage', {
+    p_user_id: userId,
+    p_since: getMonthStart().toISOString()
+  });
+
+  if (error) {
+    throw new Error(`Failed to fetch token usage: ${error.message}`);
+  }
+
+  return data;
+}
+
+// Sum of all files in the user's storage folder, including every document version
+export async function getStorageUsage(userId: string) {
+  let total = 0;
+  for (let offset = 0; ; offset += STORAGE_PAGE_SIZE) {
+    const { data, error } = await supabaseAdmin.storage
+      .from('userfiles')
+      .list(userId, { limit: STORAGE_PAGE_SIZE, offset });
+
+    if (error) {
+      throw new Error(`Failed to list user files: ${error.message}`);
+    }
+
+    total += data.reduce((sum, file) => sum + (file.metadata?.size || 0), 0);
+    if (data.length < STORAGE_PAGE_SIZE) return total;
+  }
+}
+
+export type MessageQuotaResult =
+  | { success: true; limit: number; remaining: number; reset: number }
+  | {
+      success: false;
+      message: string;
+      limit: number;
+      remaining: number;
+      reset: number;
+    };
+
+// Checks the monthly token budget first, so a request that is refused for tokens doesn't use up a message
+export async function consumeMessageQuota(
+  userId: string,
+  endpoint: QuotaEndpoint
+): Promise<MessageQuotaResult> {
+  const plan = await getUserPlan(userId);
+
+  if (plan.monthly_tokens !== null) {
+    const usedTokens = await getMonthlyTokenUsage(userId);
+    if (usedTokens >= plan.monthly_tokens) {
+      const nextMonth = getMonthStart();
+      nextMonth.setUTCMonth(nextMonth.getUTCMonth() + 1);
+      return {
+        success: false,
+        message: 'Monthly token limit reached. Please try again next month.',
+        limit: plan.monthly_tokens,
+        remaining: 0,
+        reset: nextMonth.getTime()
+      };
+    }
+  }
+
+  const { success, limit, remaining, reset } = await getMessageLimiter(
+    plan,
+    endpoint
+  ).limit(userId);
+
+  return success
+    ? { success, limit, remaining, reset }
+    : {
+        success,
+        message: 'Rate limit exceeded. Please try again later.',
+        limit,
+        remaining,
+        reset
+      };
+}
+
+export async function recordTokenUsage(
+  userId: string,
+  endpoint: QuotaEndpoint,
+  {
+    usage,
+    model,
+    chatSessionId
+  }: { usage: LanguageModelUsage; model?: string; chatSessionId?: string }
+) {
+  // Providers that don't report usage give NaN
+  const toCount = (tokens: number) => (Number.isFinite(tokens) ? tokens : 0);
+
+  const { error } = await supabaseAdmin.from('usage_events').insert({
+    user_id: userId,
+    endpoint,
+    model,
+    chat_session_id: chatSessionId,
+    prompt_tokens: toCount(usage.promptTokens),
+    completion_tokens: toCount(usage.completionTokens),
+    total_tokens: toCount(usage.totalTokens)
+  });
+
+  if (error) {
+    console.error('Error recording token usage:', error);
+  }
+}
+
+// Returns the bytes left for uploads, or a negative number when the user is over the limit
+export async function getRemainingUploadBytes(userId: string) {
+  const [plan, usedBytes] = await Promise.all([
+    getUserPlan(userId),
+    getStorageUsage(userId)
+  ]);
+  return plan.upload_bytes - usedBytes;
+}
+
+export async function getUsageSummary(userId: string) {
+  const plan = await getUserPlan(userId);
+  const endpoints = Object.keys(messageLimitColumns) as QuotaEndpoint[];
+
+  const [messageUsage, usedTokens, usedBytes] = await Promise.all([
+    Promise.all(
+      endpoints.map(async (endpoint) => {
+        const { remaining, reset } = await getMessageLimiter(
+          plan,
+          endpoint
+        ).getRemaining(userId);
+        return [
+          endpoint,
+          {
+            limit: plan[messageLimitColumns[endpoint]],
+            remaining,
+            reset
+          }
+        ] as const;
+      })
+    ),
+    getMonthlyTokenUsage(userId),
+    getStorageUsage(userId)
+  ]);
+
+  return {
+    plan: { id: plan.id, name: plan.name },
+    messageWindow: plan.message_window,
+    messages: Object.fromEntries(messageUsage) as Record<
+      QuotaEndpoint,
+      { limit: number; remaining: number; reset: number }
+    >,
+    tokens: {
+      used: usedTokens,
+      limit: plan.monthly_tokens,
+      periodStart: getMonthStart().toISOString()
+    },
+    uploads: {
+      usedBytes,
+      limitBytes: plan.upload_bytes
+    }
+  };
+}
+
+export type UsageSummary = Awaited<ReturnType<typeof getUsageSummary>>;
@@ -0,0 +1,271 @@
+import 'server-only';
+import TurndownService from 'turndown';
+import { Marked, type Tokens } from 'marked';
+
+// Reader mode for the website viewer. The page is converted to Markdown, which drops scripts,
+// styles, event handlers and layout, and rendered again as a plain document, so nothing of the
+// website runs in the app.
+
+export type ReaderTheme = 'light' | 'dark';
+
+interface ReaderDocumentOptions {
+  html: string;
+  // The page URL after redirects, relative links and images are resolved against it
+  url: URL;
+  theme: ReaderTheme;
+  nonce: string;
+}
+
+// Pages with less text are most likely rendered by scripts, the viewer suggests the original
+const MIN_TEXT_LENGTH = 200;
+
+const REMOVED_TAGS = [
+  'head',
+  'script',
+  'style',
+  'noscript',
+  'template',
+  'iframe',
+  'frame',
+  'object',
+  'embed',
+  'svg',
+  'canvas',
+  'video',
+  'audio',
+  'form',
+  'button',
+  'input',
+  'select',
+  'textarea',
+  'dialog',
+  'nav',
+  'aside'
+];
+
+// Only removed when the page has no article or main element, a header inside the article usually
+// holds its title
+const PAGE_CHROME_TAGS = ['header', 'footer'];
+
+const REMOVED_ROLES = [
+  'navigation',
+  'banner',
+  'complementary',
+  'contentinfo',
+  'dialog',
+  'alertdialog',
+  'search',
+  'menu',
+  'menubar'
+];
+
+// Class names and ids of ads, cookie banners, share buttons, comments and similar boilerplate,
+// unless the same element also looks like the content
+const BOILERPLATE =
+  /(^|[\s_-])(ad|ads|advert|advertisement|banner|breadcrumbs?|comments?|consent|cookies?|disqus|gdpr|masthead|menu|modal|newsletter|outbrain|paywall|popup|promo|related|share|sharing|sidebar|social|sponsored|subscribe|taboola|toolbar)($|[\s_-])/i;
+const CONTENT = /article|body|content|main|post|story/i;
+
+// Query parameters that only identify the visitor to analytics
+const TRACKING_PARAMS =
+  /^(utm_\w+|fbclid|gclid|dclid|msclkid|mc_cid|mc_eid|igshid|_hsenc|_hsmi)$/i;
+
+const escapeHtml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;')
+    .replace(/'/g, '&#39;');
+
+// The element with the article, null for pages without one, e.g. front pages and listings
+function findMainContent(document: Document) {
+  const articleBody = document.querySelector('[itemprop="articleBody"]');
+  if (articleBody) return articleBody;
+  const articles = document.querySelectorAll('article');
+  if (articles.length === 1) return articles[0];
+  return document.querySelector('main, [role="main"]');
+}
+
+const isBoilerplate = (node: HTMLElement, hasMainContent: boolean) => {
+  const tagName = node.nodeName.toLowerCase();
+  if (REMOVED_TAGS.includes(tagName)) return true;
+  if (!hasMainContent && PAGE_CHROME_TAGS.includes(tagName)) return true;
+  if (REMOVED_ROLES.includes(node.getAttribute('role') ?? '')) return true;
+  if (
+    node.hasAttribute('hidden') ||
+    node.getAttribute('aria-hidden') === 'true' ||
+    /display:\s*none|visibility:\s*hidden/i.test(
+      node.getAttribute('style') ?? ''
+    )
+  ) {
+    return true;
+  }
+
+  const names = `${node.getAttribute('class') ?? ''} ${node.id}`;
+  return BOILERPLATE.test(names) && !CONTENT.test(names);
+};
+
+// 1x1 images only tell the website that the page was opened
+const isTrackingPixel = (node: HTMLElement) =>
+  ['width', 'height'].some((attribute) => {
+    const value = node.getAttribute(attribute);
+    return value !== null && Number.parseInt(value, 10) <= 1;
+  });
+
+// An absolute http(s) URL without tracking parameters, or null for anything else, e.g.
+// javascript: links
+function resolveUrl(value: string | null, base: URL) {
+  if (!value) return null;
+  let url: URL;
+  try {
+    url = new URL(value.trim(), base);
+  } catch {
+    return null;
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') return null;
+
+  for (const key of [...url.searchParams.keys()]) {
+    if (TRACKING_PARAMS.test(key)) url.searchParams.delete(key);
+  }
+  return url;
+}
+
+// Lazy loaded images keep the real URL in a data attribute and a placeholder in src
+const getImageSource = (node: HTMLElement) =>
+  node.getAttribute('data-src') ??
+  node.getAttribute('data-lazy-src') ??
+  node.getAttribute('data-original') ??
+  node.getAttribute('src');
+
+const escapeLinkText = (text: string) => text.replace(/[[\]]/g, '\\$&');
+
+interface ReaderContent {
+  title: string;
+  markdown: string;
+}
+
+function extractContent(html: string, pageUrl: URL): ReaderContent {
+  // The document is only available to the rules, it's read from the first node they see
+  let document: Document | null = null;
+  let mainContent: Element | null = null;
+
+  const turndown = new TurndownService({
+    headingStyle: 'atx',
+    codeBlockStyle: 'fenced',
+    bulletListMarker: '-'
+  });
+
+  turndown.remove((node) => {
+    if (!document) {
+      document = node.ownerDocument;
+      mainContent = findMainContent(document);
+    }
+    if (mainContent) {
+      // Everything that is not the article, its content or one of its parents
+      if (!node.contains(mainContent) && !mainContent.contains(node)) {
+        return true;
+      }
+      if (node === mainContent || node.contains(mainContent)) return false;
+    }
+    return isBoilerplate(node, mainContent !== null);
+  });
+
+  turndown.addRule('link', {
+    filter: (node) => node.nodeName === 'A' && node.hasAttribute('href'),
+    replacement: (content, node) => {
+      const href = (node as HTMLElement).getAttribute('href');
+      const url = href?.startsWith('#') ? null : resolveUrl(href, pageUrl);
+      const text = content.trim();
+      // Links around whole blocks, e.g. teaser cards, keep only their content
+      if (!url || !text || text.includes('\n\n')) return content;
+      return `[${text}](<${url.href}>)`;
+    }
+  });
+
+  turndown.addRule('image', {
+    filter: 'img',
+    replacement: (_content, node) => {
+      const element = node as HTMLElement;
+      const url = resolveUrl(getImageSource(element), pageUrl);
+      if (!url || isTrackingPixel(element)) return '';
+      const alt = escapeLinkText(element.getAttribute('alt') ?? '');
+      return `![${alt}](<${url.href}>)`;
+    }
+  });
+
+  const markdown = turndown.turndown(html);
+  const title = (document as Document | null)?.title.trim() || pageUrl.hostname;
+  return { title, markdown };
+}
+
+// The page's text is untrusted, raw HTML is shown as text and only web links and images stay
+const readerMarked = new Marked({
+  renderer: {
+    html: ({ text }: Tokens.HTML | Tokens.Tag) => escapeHtml(text),
+    link({ href, tokens }: Tokens.Link) {
+      return /^(https?:|mailto:)/i.test(href)
+        ? false
+        : this.parser.parseInline(tokens);
+    },
+    image({ href, text }: Tokens.Image) {
+      return /^https?:/i.test(href) ? false : escapeHtml(text);
+    }
+  }
+});
+
+const themeColors: Record<ReaderTheme, string> = {
+  light:
+    'color-scheme: light; --background: #ffffff; --foreground: #1f2328; --muted: #59636e; --border: #d1d9e0; --code: #f6f8fa; --link: #0969da;',
+  dark: 'color-scheme: dark; --background: #0d1117; --foreground: #e6edf3; --muted: #9198a1; --border: #3d444d; --code: #151b23; --link: #4493f8;'
+};
+
+// A standalone page for the viewer's iframe. It has no scripts, the nonce only allows its style.
+export function createReaderDocument({
+  html,
+  url,
+  theme,
+  nonce
+}: ReaderDocumentOptions) {
+  const { title, markdown } = extractContent(html, url);
+  const hasContent = markdown.replace(/\s+/g, ' ').length >= MIN_TEXT_LENGTH;
+  const content = hasContent
+    ? readerMarked.parse(markdown, { async: false })
+    : '<p class="notice">This page has little readable content, it is probably built by scripts. Switch to the original view to see it.</p>';
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="referrer" content="no-referrer">
+<base target="_blank">
+<title>${escapeHtml(title)}</title>
+<style nonce="${nonce}">
+  :root { ${themeColors[theme]} }
+  body { margin: 0; background: var(--background); color: var(--foreground); font-family: system-ui, sans-serif; font-size: 1rem; line-height: 1.65; }
+  main { max-width: 42rem; margin: 0 auto; padding: 1.5rem 1.25rem 3rem; overflow-wrap: break-word; }
+  .source { margin: 0 0 0.25rem; font-size: 0.8rem; color: var(--muted); }
+  h1 { font-size: 1.75rem; line-height: 1.25; }
+  h2 { font-size: 1.35rem; } h3 { font-size: 1.15rem; }
+  img { display: block; max-width: 100%; height: auto; margin: 1rem auto; border-radius: 4px; }
+  a { color: var(--link); }
+  hr { border: none; border-top: 1px solid var(--border); margin: 2rem 0; }
+  blockquote { margin: 1rem 0; padding-left: 1rem; border-left: 3px solid var(--border); color: var(--muted); }
+  pre { background: var(--code); padding: 0.75rem 1rem; border-radius: 6px; overflow-x: auto; }
+  code { font-size: 0.9em; }
+  :not(pre) > code { background: var(--code); padding: 0.1rem 0.3rem; border-radius: 4px; }
+  table { border-collapse: collapse; display: block; overflow-x: auto; }
+  th, td { border: 1px solid var(--border); padding: 0.25rem 0.5rem; }
+  .notice { color: var(--muted); }
+</style>
+</head>
+<body>
+<main>
+<p class="source">${escapeHtml(url.hostname)}</p>
+${/^# /m.test(markdown) ? '' : `<h1>${escapeHtml(title)}</h1>`}
+${content}
+</main>
+</body>
+</html>
+`;
+}
@@ -0,0 +1,321 @@
+import 'server-only';
+import http from 'node:http';
+import https from 'node:https';
+import dns from 'node:dns';
+import net from 'node:net';
+import zlib from 'node:zlib';
+import type { Readable } from 'node:stream';
+
+// Outbound requests to URLs from users (website viewer, PDF proxy, link previews). Hosts are
+// checked when the connection is made, after DNS resolution, so a name that resolves to a private
+// address is blocked as well as one that changes its address between two lookups.
+
+const DEFAULT_MAX_BYTES = 5 * 1024 * 1024;
+const DEFAULT_TIMEOUT_MS = 10000;
+const DEFAULT_MAX_REDIRECTS = 5;
+const ALLOWED_PORTS = ['', '80', '443'];
+const REDIRECT_STATUSES = [301, 302, 303, 307, 308];
+
+const USER_AGENT =
+  'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/91.0.4472.124 Safari/537.36';
+
+// Loopback, private, link-local (cloud metadata at 169.254.169.254), shared, reserved and
+// documentation ranges
+const blockedIPv4 = new net.BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.0.0.0', 24],
+  ['192.0.2.0', 24],
+  ['192.88.99.0', 24],
+  ['192.168.0.0', 16],
+  ['198.18.0.0', 15],
+  ['198.51.100.0', 24],
+  ['203.0.113.0', 24],
+  ['224.0.0.0', 4],
+  ['240.0.0.0', 4]
+] as const) {
+  blockedIPv4.addSubnet(network, prefix, 'ipv4');
+}
+// A separate list, a BlockList also matches IPv4 addresses against IPv4-mapped IPv6 subnets
+const blockedIPv6 = new net.BlockList();
+for (const [network, prefix] of [
+  ['::', 128],
+  ['::1', 128],
+  // IPv4-mapped and NAT64 addresses can point at any of the IPv4 ranges above
+  ['::ffff:0:0', 96],
+  ['64:ff9b::', 96],
+  ['100::', 64],
+  ['2001:db8::', 32],
+  ['fc00::', 7],
+  ['fe80::', 10],
+  ['ff00::', 8]
+] as const) {
+  blockedIPv6.addSubnet(network, prefix, 'ipv6');
+}
+
+const BLOCKED_HOSTNAME = /(^|\.)(localhost|local|internal|home\.arpa)$/i;
+
+export class OutboundFetchError extends Error {
+  constructor(
+    message: string,
+    // The status the route answers with
+    readonly status: number
+  ) {
+    super(message);
+    this.name = 'OutboundFetchError';
+  }
+}
+
+export const isBlockedAddress = (address: string) => {
+  switch (net.isIP(address)) {
+    case 4:
+      return blockedIPv4.check(address, 'ipv4');
+    case 6:
+      return blockedIPv6.check(address, 'ipv6');
+    default:
+      return true;
+  }
+};
+
+// Which hosts can be reached. Tests replace it to reach a server on loopback and to control DNS.
+export interface OutboundPolicy {
+  isBlockedAddress: (address: string) => boolean;
+  // Every address of a hostname, the connection is made to the first one
+  resolve: (hostname: string, family: number) => Promise<dns.LookupAddress[]>;
+  allowedPorts: string[];
+}
+
+export const defaultOutboundPolicy: OutboundPolicy = {
+  isBlockedAddress,
+  resolve: (hostname, family) =>
+    dns.promises.lookup(hostname, { family, all: true }),
+  allowedPorts: ALLOWED_PORTS
+};
+
+// Throws for URLs that can never be fetched. Hostnames are checked again once they are resolved.
+export function validateOutboundUrl(
+  value: string | URL,
+  policy: OutboundPolicy = defaultOutboundPolicy
+) {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new OutboundFetchError('Invalid URL', 400);
+  }
+
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new OutboundFetchError('Only http and https URLs are allowed', 400);
+  }
+  if (url.username || url.password) {
+    throw new OutboundFetchError('URLs with credentials are not allowed', 400);
+  }
+  if (!policy.allowedPorts.includes(url.port)) {
+    throw new OutboundFetchError('Only the default ports are allowed', 400);
+  }
+
+  // IPv6 hosts are written in brackets, e.g. http://[::1]/
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  if (
+    BLOCKED_HOSTNAME.test(hostname) ||
+    (net.isIP(hostname) !== 0 && policy.isBlockedAddress(hostname))
+  ) {
+    throw new OutboundFetchError('This address is not allowed', 400);
+  }
+
+  return url;
+}
+
+// dns.lookup with every resolved address checked, used by the connection itself, so the address
+// that is checked is the one connected to
+const createSafeLookup =
+  (policy: OutboundPolicy): net.LookupFunction =>
+  (hostname, options, callback) => {
+    const family =
+      options.family === 'IPv4'
+        ? 4
+        : options.family === 'IPv6'
+          ? 6
+          : (options.family ?? 0);
+    policy.resolve(hostname, family).then(
+      (addresses) => {
+        if (
+          addresses.length === 0 ||
+          addresses.some(({ address }) => policy.isBlockedAddress(address))
+        ) {
+          callback(
+            new OutboundFetchError('This address is not allowed', 400),
+            '',
+            0
+          );
+          return;
+        }
+        if (options.all) {
+          (
+            callback as unknown as (
+              error: null,
+              addresses: dns.LookupAddress[]
+            ) => void
+          )(null, addresses);
+        } else {
+          callback(null, addresses[0].address, addresses[0].family);
+        }
+      },
+      (error: NodeJS.ErrnoException) => callback(error, '', 0)
+    );
+  };
+
+interface SafeFetchOptions {
+  accept: string;
+  maxBytes?: number;
+  // Returns the first maxBytes instead of failing, enough to read the head of a page
+  truncate?: boolean;
+  timeoutMs?: number;
+  maxRedirects?: number;
+  policy?: OutboundPolicy;
+}
+
+export interface SafeFetchResponse {
+  // After redirects
+  url: URL;
+  contentType: string;
+  body: Buffer;
+}
+
+const sendRequest = (
+  url: URL,
+  accept: string,
+  signal: AbortSignal,
+  lookup: net.LookupFunction
+) =>
+  new Promise<http.IncomingMessage>((resolve, reject) => {
+    const request = (url.protocol === 'https:' ? https : http).get(url, {
+      headers: {
+        'User-Agent': USER_AGENT,
+        Accept: accept,
+        'Accept-Encoding': 'gzip, deflate, br',
+        Referer: url.origin
+      },
+      lookup,
+      // A new connection for every request, a pooled one could skip the lookup and its checks
+      agent: false,
+      signal
+    });
+    request.on('response', resolve);
+    request.on('error', reject);
+  });
+
+const createDecoder = (encoding: string | undefined) => {
+  switch (encoding) {
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'deflate':
+      return zlib.createInflate();
+    case 'br':
+      return zlib.createBrotliDecompress();
+    default:
+      return null;
+  }
+};
+
+function decode(response: http.IncomingMessage): Readable {
+  const decoder = createDecoder(response.headers['content-encoding']);
+  if (!decoder) return response;
+  // An error of the response ends the decoded stream too
+  response.on('error', (error) => decoder.destroy(error));
+  return response.pipe(decoder);
+}
+
+async function readBody(
+  response: http.IncomingMessage,
+  maxBytes: number,
+  truncate: boolean
+) {
+  const declaredLength = Number(response.headers['content-length']);
+  if (!truncate && declaredLength > maxBytes) {
+    response.destroy();
+    throw new OutboundFetchError('The response is too large', 502);
+  }
+
+  const chunks: Buffer[] = [];
+  let size = 0;
+  const stream = decode(response);
+  for await (const chunk of stream) {
+    const buffer = chunk as Buffer;
+    size += buffer.length;
+    if (size > maxBytes) {
+      stream.destroy();
+      response.destroy();
+      if (!truncate) {
+        throw new OutboundFetchError('The response is too large', 502);
+      }
+      chunks.push(buffer.subarray(0, buffer.length - (size - maxBytes)));
+      break;
+    }
+    chunks.push(buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+// GET with the URL and every redirect target validated, a size cap and a timeout for the whole
+// request. Throws an OutboundFetchError with the status to answer with.
+export async function safeFetch(
+  value: string | URL,
+  {
+    accept,
+    maxBytes = DEFAULT_MAX_BYTES,
+    truncate = false,
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    policy = defaultOutboundPolicy
+  }: SafeFetchOptions
+): Promise<SafeFetchResponse> {
+  const signal = AbortSignal.timeout(timeoutMs);
+  const lookup = createSafeLookup(policy);
+  let url = validateOutboundUrl(value, policy);
+
+  try {
+    for (let redirects = 0; ; redirects++) {
+      const response = await sendRequest(url, accept, signal, lookup);
+      const status = response.statusCode ?? 0;
+
+      if (REDIRECT_STATUSES.includes(status) && response.headers.location) {
+        response.resume();
+        if (redirects >= maxRedirects) {
+          throw new OutboundFetchError('Too many redirects', 502);
+        }
+        url = validateOutboundUrl(
+          new URL(response.headers.location, url),
+          policy
+        );
+        continue;
+      }
+
+      if (status < 200 || status >= 300) {
+        response.resume();
+        throw new OutboundFetchError(
+          `The website responded with status ${status}`,
+          502
+        );
+      }
+
+      return {
+        url,
+        contentType: response.headers['content-type'] ?? '',
+        body: await readBody(response, maxBytes, truncate)
+      };
+    }
+  } catch (error) {
+    if (error instanceof OutboundFetchError) throw error;
+    if (signal.aborted) {
+      throw new OutboundFetchError('The website took too long to respond', 504);
+    }
+    console.error('Outbound fetch failed:', url.href, error);
+    throw new OutboundFetchError('Failed to fetch the website', 502);
+  }
+}
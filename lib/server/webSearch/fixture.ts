@@ -0,0 +1,50 @@
+import 'server-only';
+import { readFile } from 'node:fs/promises';
+import { z } from 'zod';
+import type { WebSearchProvider } from './types';
+
+const fixtureSchema = z.array(
+  z.object({
+    title: z.string(),
+    url: z.string().url(),
+    content: z.string(),
+    rawContent: z.string().optional(),
+    score: z.number().min(0).max(1).nullable().default(null)
+  })
+);
+
+const getTerms = (text: string) =>
+  text
+    .toLowerCase()
+    .split(/\W+/)
+    .filter((term) => term.length > 2);
+
+// Results from the JSON file at WEB_SEARCH_FIXTURE_FILE instead of a search engine, for tests and
+// local development without an API key. Results that share more words with the query come first.
+export const fixtureProvider: WebSearchProvider = {
+  name: 'fixture',
+  search: async (query, options) => {
+    const path = process.env.WEB_SEARCH_FIXTURE_FILE;
+    if (!path) {
+      throw new Error('WEB_SEARCH_FIXTURE_FILE is not set');
+    }
+    const results = fixtureSchema.parse(
+      JSON.parse(await readFile(path, 'utf-8'))
+    );
+
+    const queryTerms = new Set(getTerms(query));
+    const countMatches = (text: string) =>
+      getTerms(text).filter((term) => queryTerms.has(term)).length;
+
+    return results
+      .map((result) => ({
+        result: {
+          ...result,
+          rawContent: options.includeRawContent ? result.rawContent : undefined
+        },
+        matches: countMatches(`${result.title} ${result.content}`)
+      }))
+      .sort((a, b) => b.matches - a.matches)
+      .map(({ result }) => result);
+  }
+};
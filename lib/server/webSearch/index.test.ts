@@ -0,0 +1,184 @@
+import { mkdtemp, rm, writeFile } from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import { join } from 'node:path';
+import {
+  afterAll,
+  afterEach,
+  beforeAll,
+  describe,
+  expect,
+  it,
+  vi
+} from 'vitest';
+import {
+  getWebSearchProvider,
+  normalizeDomain,
+  searchWeb,
+  type WebSearchOptions
+} from './index';
+
+const searchOptions = (
+  options: Partial<WebSearchOptions> = {}
+): WebSearchOptions => ({
+  maxResults: 10,
+  includeDomains: [],
+  excludeDomains: [],
+  includeRawContent: false,
+  ...options
+});
+
+// Every provider setting is cleared, each test sets the ones it needs
+const stubProviderEnv = (env: Record<string, string> = {}) => {
+  for (const name of [
+    'WEB_SEARCH_PROVIDER',
+    'TAVILY_API_KEY',
+    'SEARXNG_URL',
+    'WEB_SEARCH_FIXTURE_FILE'
+  ]) {
+    vi.stubEnv(name, env[name] ?? '');
+  }
+};
+
+afterEach(() => {
+  vi.unstubAllEnvs();
+});
+
+describe('normalizeDomain', () => {
+  it.each([
+    ['example.com', 'example.com'],
+    ['Example.COM', 'example.com'],
+    ['  example.com  ', 'example.com'],
+    ['www.example.com', 'example.com'],
+    ['*.example.com', 'example.com'],
+    ['https://www.example.com/path?q=1', 'example.com'],
+    ['http://example.com:8080', 'example.com'],
+    ['docs.example.com', 'docs.example.com'],
+    ['example.com#top', 'example.com']
+  ])('normalizes %j to %j', (domain, expected) => {
+    expect(normalizeDomain(domain)).toBe(expected);
+  });
+});
+
+describe('getWebSearchProvider', () => {
+  it.each([
+    [{ WEB_SEARCH_PROVIDER: 'bing' }, 'Unknown WEB_SEARCH_PROVIDER: bing'],
+    [{ WEB_SEARCH_PROVIDER: 'tavily' }, 'TAVILY_API_KEY is missing'],
+    [{ WEB_SEARCH_PROVIDER: 'searxng' }, 'SEARXNG_URL is missing'],
+    [{ WEB_SEARCH_PROVIDER: 'fixture' }, 'WEB_SEARCH_FIXTURE_FILE is missing'],
+    [{}, 'No web search provider configured']
+  ])('throws for %j', (env, message) => {
+    stubProviderEnv(env);
+
+    expect(() => getWebSearchProvider()).toThrow(message);
+  });
+
+  it.each([
+    [{ WEB_SEARCH_PROVIDER: 'Tavily', TAVILY_API_KEY: 'key' }, 'tavily'],
+    [
+      {
+        WEB_SEARCH_PROVIDER: 'searxng',
+        SEARXNG_URL: 'http://searx.test',
+        TAVILY_API_KEY: 'key'
+      },
+      'searxng'
+    ],
+    [
+      {
+        WEB_SEARCH_PROVIDER: 'fixture',
+        WEB_SEARCH_FIXTURE_FILE: 'results.json'
+      },
+      'fixture'
+    ],
+    [{ TAVILY_API_KEY: 'key', SEARXNG_URL: 'http://searx.test' }, 'tavily'],
+    [{ SEARXNG_URL: 'http://searx.test' }, 'searxng']
+  ])('selects the provider for %j', (env, name) => {
+    stubProviderEnv(env);
+
+    expect(getWebSearchProvider().name).toBe(name);
+  });
+});
+
+describe('searchWeb', () => {
+  let fixtureDir: string;
+  let fixtureFile: string;
+
+  const result = (url: string) => ({
+    title: `Page on ${url}`,
+    url,
+    content: 'search result'
+  });
+
+  beforeAll(async () => {
+    fixtureDir = await mkdtemp(join(tmpdir(), 'web-search-'));
+    fixtureFile = join(fixtureDir, 'results.json');
+    await writeFile(
+      fixtureFile,
+      JSON.stringify([
+        result('https://example.com/a'),
+        result('https://docs.example.com/b'),
+        result('https://www.other.org/c'),
+        result('https://notexample.com/d'),
+        result('https://spam.test/e')
+      ])
+    );
+  });
+
+  afterAll(async () => {
+    await rm(fixtureDir, { recursive: true, force: true });
+  });
+
+  const searchUrls = async (options: Partial<WebSearchOptions>) => {
+    stubProviderEnv({
+      WEB_SEARCH_PROVIDER: 'fixture',
+      WEB_SEARCH_FIXTURE_FILE: fixtureFile
+    });
+    const results = await searchWeb('search result', searchOptions(options));
+    return results.map((result) => result.url);
+  };
+
+  it('returns every result without domain lists', async () => {
+    expect(await searchUrls({})).toHaveLength(5);
+  });
+
+  it('keeps only included domains and their subdomains', async () => {
+    expect(
+      await searchUrls({ includeDomains: ['https://www.Example.com/'] })
+    ).toEqual(['https://example.com/a', 'https://docs.example.com/b']);
+  });
+
+  it('matches a www host against the bare domain', async () => {
+    expect(await searchUrls({ includeDomains: ['other.org'] })).toEqual([
+      'https://www.other.org/c'
+    ]);
+  });
+
+  it('drops excluded domains and their subdomains', async () => {
+    expect(
+      await searchUrls({ excludeDomains: ['*.example.com', 'spam.test'] })
+    ).toEqual(['https://www.other.org/c', 'https://notexample.com/d']);
+  });
+
+  it('applies the exclude list to included domains', async () => {
+    expect(
+      await searchUrls({
+        includeDomains: ['example.com'],
+        excludeDomains: ['docs.example.com']
+      })
+    ).toEqual(['https://example.com/a']);
+  });
+
+  it('returns at most maxResults after filtering', async () => {
+    expect(
+      await searchUrls({ excludeDomains: ['example.com'], maxResults: 2 })
+    ).toEqual(['https://www.other.org/c', 'https://notexample.com/d']);
+  });
+
+  it('fails when the provider fails', async () => {
+    stubProviderEnv({
+      WEB_SEARCH_PROVIDER: 'fixture',
+      WEB_SEARCH_FIXTURE_FILE: join(fixtureDir, 'missing.json')
+    });
+
+    await expect(searchWeb('query', searchOptions())).rejects.toThrow();
+  });
+});
@@ -0,0 +1,106 @@
+import 'server-only';
+import { fixtureProvider } from './fixture';
+import { searxngProvider } from './searxng';
+import { tavilyProvider } from './tavily';
+import type {
+  WebSearchOptions,
+  WebSearchProvider,
+  WebSearchResult
+} from './types';
+
+export type {
+  WebSearchOptions,
+  WebSearchProvider,
+  WebSearchResult
+} from './types';
+
+const providers = {
+  tavily: tavilyProvider,
+  searxng: searxngProvider,
+  fixture: fixtureProvider
+} satisfies Record<string, WebSearchProvider>;
+
+type WebSearchProviderName = keyof typeof providers;
+
+const isProviderName = (name: string): name is WebSearchProviderName =>
+  name in providers;
+
+// Provider selected by WEB_SEARCH_PROVIDER, otherwise Tavily when its API key is set and SearXNG
+// when SEARXNG_URL is
+export function getWebSearchProvider(): WebSearchProvider {
+  const configured = process.env.WEB_SEARCH_PROVIDER?.toLowerCase();
+
+  if (configured) {
+    if (!isProviderName(configured)) {
+      throw new Error(`Unknown WEB_SEARCH_PROVIDER: ${configured}`);
+    }
+    if (configured === 'tavily' && !process.env.TAVILY_API_KEY) {
+      throw new Error(
+        'WEB_SEARCH_PROVIDER is tavily but TAVILY_API_KEY is missing'
+      );
+    }
+    if (configured === 'searxng' && !process.env.SEARXNG_URL) {
+      throw new Error(
+        'WEB_SEARCH_PROVIDER is searxng but SEARXNG_URL is missing'
+      );
+    }
+    if (configured === 'fixture' && !process.env.WEB_SEARCH_FIXTURE_FILE) {
+      throw new Error(
+        'WEB_SEARCH_PROVIDER is fixture but WEB_SEARCH_FIXTURE_FILE is missing'
+      );
+    }
+    return providers[configured];
+  }
+
+  if (process.env.TAVILY_API_KEY) return tavilyProvider;
+  if (process.env.SEARXNG_URL) return searxngProvider;
+  throw new Error(
+    'No web search provider configured, set TAVILY_API_KEY or SEARXNG_URL'
+  );
+}
+
+// "https://www.example.com/path", "*.example.com" and "Example.com" are all example.com
+export const normalizeDomain = (domain: string) =>
+  domain
+    .trim()
+    .toLowerCase()
+    .replace(/^[a-z]+:\/\//, '')
+    .replace(/[/:?#].*$/, '')
+    .replace(/^(\*\.|www\.)/, '');
+
+const matchesDomain = (hostname: string, domains: string[]) =>
+  domains.some(
+    (domain) => hostname === domain || hostname.endsWith(`.${domain}`)
+  );
+
+// The provider's results with the domain lists applied and at most maxResults. Not every provider
+// filters by domain itself, and the ones that do are checked again.
+export async function searchWeb(
+  query: string,
+  options: WebSearchOptions
+): Promise<WebSearchResult[]> {
+  const includeDomains = options.includeDomains.map(normalizeDomain);
+  const excludeDomains = options.excludeDomains.map(normalizeDomain);
+
+  const results = await getWebSearchProvider().search(query, {
+    ...options,
+    includeDomains,
+    excludeDomains
+  });
+
+  return results
+    .filter((result) => {
+      let hostname: string;
+      try {
+        hostname = normalizeDomain(new URL(result.url).hostname);
+      } catch {
+        return false;
+      }
+      return (
+        (includeDomains.length === 0 ||
+          matchesDomain(hostname, includeDomains)) &&
+        !matchesDomain(hostname, excludeDomains)
+      );
+    })
+    .slice(0, options.maxResults);
+}
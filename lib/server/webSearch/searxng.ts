@@ -0,0 +1,60 @@
+import 'server-only';
+import type { WebSearchProvider } from './types';
+
+const SEARCH_TIMEOUT_MS = 20000;
+
+interface SearxngResult {
+  title: string;
+  url: string;
+  content?: string;
+  score?: number;
+}
+
+interface SearxngResponse {
+  query: string;
+  results: SearxngResult[];
+}
+
+// A SearXNG instance (or a compatible API) at SEARXNG_URL, with the json format enabled in its
+// settings.yml. It returns snippets only, no page content, and has no domain filters, so the
+// results are filtered and limited afterwards.
+export const searxngProvider: WebSearchProvider = {
+  name: 'searxng',
+  search: async (query) => {
+    const url = new URL(
+      'search',
+      `${process.env.SEARXNG_URL}/`.replace(/\/+$/, '/')
+    );
+    url.searchParams.set('q', query);
+    url.searchParams.set('format', 'json');
+    url.searchParams.set('safesearch', '1');
+
+    const response = await fetch(url, {
+      cache: 'no-store',
+      headers: {
+        Accept: 'application/json'
+      },
+      signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `SearXNG search failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: SearxngResponse = await response.json();
+    // Scores add up over the engines that found a result, relative to the best result they're
+    // comparable with the other providers
+    const topScore = Math.max(
+      0,
+      ...data.results.map((result) => result.score ?? 0)
+    );
+    return data.results.map((result) => ({
+      title: result.title,
+      url: result.url,
+      content: result.content ?? '',
+      score: topScore > 0 ? (result.score ?? 0) / topScore : null
+    }));
+  }
+};
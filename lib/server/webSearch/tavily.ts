@@ -0,0 +1,58 @@
+import 'server-only';
+import type { WebSearchProvider } from './types';
+
+const SEARCH_TIMEOUT_MS = 20000;
+
+interface TavilySearchResult {
+  title: string;
+  url: string;
+  content: string;
+  raw_content?: string | null;
+  score: number;
+}
+
+interface TavilyAPIResponse {
+  query: string;
+  results: TavilySearchResult[];
+}
+
+// https://docs.tavily.com/ with advanced search depth, which also returns the page content
+export const tavilyProvider: WebSearchProvider = {
+  name: 'tavily',
+  search: async (query, options) => {
+    const response = await fetch('https://api.tavily.com/search', {
+      cache: 'no-store',
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json'
+      },
+      body: JSON.stringify({
+        api_key: process.env.TAVILY_API_KEY,
+        search_depth: 'advanced',
+        include_answer: false,
+        include_images: false,
+        include_raw_content: options.includeRawContent,
+        max_results: options.maxResults,
+        include_domains: options.includeDomains,
+        exclude_domains: options.excludeDomains,
+        query
+      }),
+      signal: AbortSignal.timeout(SEARCH_TIMEOUT_MS)
+    });
+
+    if (!response.ok) {
+      throw new Error(
+        `Tavily search failed: ${response.status} ${response.statusText}`
+      );
+    }
+
+    const data: TavilyAPIResponse = await response.json();
+    return data.results.map((result) => ({
+      title: result.title,
+      url: result.url,
+      content: result.content,
+      rawContent: result.raw_content ?? undefined,
+      score: result.score
+    }));
+  }
+};
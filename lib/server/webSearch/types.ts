@@ -0,0 +1,27 @@
+export interface WebSearchOptions {
+  maxResults: number;
+  // Only results from these domains and their subdomains, every domain when empty
+  includeDomains: string[];
+  excludeDomains: string[];
+  // The full page text next to the snippet, for providers that have it
+  includeRawContent: boolean;
+}
+
+export interface WebSearchResult {
+  title: string;
+  url: string;
+  // Snippet of the page that matches the query
+  content: string;
+  rawContent?: string;
+  // Relevance from 0 to 1, null when the provider has no score
+  score: number | null;
+}
+
+export interface WebSearchProvider {
+  name: string;
+  // Throws when the provider fails, an empty list means nothing was found
+  search: (
+    query: string,
+    options: WebSearchOptions
+  ) => Promise<WebSearchResult[]>;
+}
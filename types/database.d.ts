@@ -40,10 +40,16 @@ export type Database = {
           chat_session_id: string;
           content: string | null;
           created_at: string;
+          error: string | null;
+          fts: unknown | null;
           id: string;
           is_user_message: boolean;
+          parent_id: string | null;
+          parts: Json | null;
+          parts_version: number | null;
           reasoning: string | null;
           sources: Json | null;
+          status: string;
           tool_invocations: Json | null;
         };
         Insert: {
@@ -51,10 +57,16 @@ export type Database = {
           chat_session_id: string;
           content?: string | null;
           created_at?: string;
+          error?: string | null;
+          fts?: unknown | null;
           id?: string;
           is_user_message: boolean;
+          parent_id?: string | null;
+          parts?: Json | null;
+          parts_version?: number | null;
           reasoning?: string | null;
           sources?: Json | null;
+          status?: string;
           tool_invocations?: Json | null;
         };
         Update: {
@@ -62,10 +74,16 @@ export type Database = {
           chat_session_id?: string;
           content?: string | null;
           created_at?: string;
+          error?: string | null;
+          fts?: unknown | null;
           id?: string;
           is_user_message?: boolean;
+          parent_id?: string | null;
+          parts?: Json | null;
+          parts_version?: number | null;
           reasoning?: string | null;
           sources?: Json | null;
+          status?: string;
           tool_invocations?: Json | null;
         };
         Relationships: [
@@ -75,28 +93,41 @@ export type Database = {
             isOneToOne: false;
             referencedRelation: 'chat_sessions';
             referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'chat_messages_parent_id_fkey';
+            columns: ['parent_id'];
+            isOneToOne: false;
+            referencedRelation: 'chat_messages';
+            referencedColumns: ['id'];
           }
         ];
       };
       chat_sessions: {
         Row: {
+          chat_summary: string | null;
           chat_title: string | null;
           created_at: string;
           id: string;
+          summary_message_count: number;
           updated_at: string;
           user_id: string;
         };
         Insert: {
+          chat_summary?: string | null;
           chat_title?: string | null;
           created_at?: string;
           id?: string;
+          summary_message_count?: number;
           updated_at?: string;
           user_id: string;
         };
         Update: {
+          chat_summary?: string | null;
           chat_title?: string | null;
           created_at?: string;
           id?: string;
+          summary_message_count?: number;
           updated_at?: string;
           user_id?: string;
         };
@@ -110,6 +141,120 @@ export type Database = {
           }
         ];
       };
+      chat_shares: {
+        Row: {
+          chat_session_id: string;
+          created_at: string;
+          expires_at: string | null;
+          id: string;
+          revoked_at: string | null;
+          token: string;
+          user_id: string;
+        };
+        Insert: {
+          chat_session_id: string;
+          created_at?: string;
+          expires_at?: string | null;
+          id?: string;
+          revoked_at?: string | null;
+          token: string;
+          user_id: string;
+        };
+        Update: {
+          chat_session_id?: string;
+          created_at?: string;
+          expires_at?: string | null;
+          id?: string;
+          revoked_at?: string | null;
+          token?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'chat_shares_chat_session_id_fkey';
+            columns: ['chat_session_id'];
+            isOneToOne: false;
+            referencedRelation: 'chat_sessions';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'chat_shares_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      document_ingestion_jobs: {
+        Row: {
+          created_at: string;
+          document_id: string | null;
+          error: string | null;
+          file_name: string;
+          file_path: string;
+          filter_tags: string | null;
+          id: string;
+          locked_until: string | null;
+          page_errors: Json;
+          pages_done: number;
+          parse_job_id: string;
+          status: string;
+          total_pages: number | null;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          created_at?: string;
+          document_id?: string | null;
+          error?: string | null;
+          file_name: string;
+          file_path: string;
+          filter_tags?: string | null;
+          id?: string;
+          locked_until?: string | null;
+          page_errors?: Json;
+          pages_done?: number;
+          parse_job_id: string;
+          status?: string;
+          total_pages?: number | null;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          created_at?: string;
+          document_id?: string | null;
+          error?: string | null;
+          file_name?: string;
+          file_path?: string;
+          filter_tags?: string | null;
+          id?: string;
+          locked_until?: string | null;
+          page_errors?: Json;
+          pages_done?: number;
+          parse_job_id?: string;
+          status?: string;
+          total_pages?: number | null;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'document_ingestion_jobs_document_id_fkey';
+            columns: ['document_id'];
+            isOneToOne: false;
+            referencedRelation: 'user_documents';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'document_ingestion_jobs_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       error_feedback: {
         Row: {
           category: string | null;
@@ -137,6 +282,86 @@ export type Database = {
         };
         Relationships: [];
       };
+      usage_events: {
+        Row: {
+          chat_session_id: string | null;
+          completion_tokens: number;
+          created_at: string;
+          endpoint: string;
+          id: string;
+          model: string | null;
+          prompt_tokens: number;
+          total_tokens: number;
+          user_id: string;
+        };
+        Insert: {
+          chat_session_id?: string | null;
+          completion_tokens?: number;
+          created_at?: string;
+          endpoint: string;
+          id?: string;
+          model?: string | null;
+          prompt_tokens?: number;
+          total_tokens?: number;
+          user_id: string;
+        };
+        Update: {
+          chat_session_id?: string | null;
+          completion_tokens?: number;
+          created_at?: string;
+          endpoint?: string;
+          id?: string;
+          model?: string | null;
+          prompt_tokens?: number;
+          total_tokens?: number;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'usage_events_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: false;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
+      usage_plans: {
+        Row: {
+          chat_messages: number;
+          id: string;
+          is_default: boolean;
+          message_window: string;
+          monthly_tokens: number | null;
+          name: string;
+          perplexity_messages: number;
+          upload_bytes: number;
+          website_messages: number;
+        };
+        Insert: {
+          chat_messages: number;
+          id: string;
+          is_default?: boolean;
+          message_window?: string;
+          monthly_tokens?: number | null;
+          name: string;
+          perplexity_messages: number;
+          upload_bytes: number;
+          website_messages: number;
+        };
+        Update: {
+          chat_messages?: number;
+          id?: string;
+          is_default?: boolean;
+          message_window?: string;
+          monthly_tokens?: number | null;
+          name?: string;
+          perplexity_messages?: number;
+          upload_bytes?: number;
+          website_messages?: number;
+        };
+        Relationships: [];
+      };
       user_documents: {
         Row: {
           ai_description: string | null;
@@ -144,11 +369,13 @@ export type Database = {
           ai_maintopics: string[] | null;
           ai_title: string | null;
           created_at: string;
+          file_path: string | null;
           filter_tags: string;
           id: string;
           title: string;
           total_pages: number;
           user_id: string;
+          version: number;
         };
         Insert: {
           ai_description?: string | null;
@@ -156,11 +383,13 @@ export type Database = {
           ai_maintopics?: string[] | null;
           ai_title?: string | null;
           created_at?: string;
+          file_path?: string | null;
           filter_tags: string;
           id?: string;
           title: string;
           total_pages: number;
           user_id: string;
+          version?: number;
         };
         Update: {
           ai_description?: string | null;
@@ -168,11 +397,13 @@ export type Database = {
           ai_maintopics?: string[] | null;
           ai_title?: string | null;
           created_at?: string;
+          file_path?: string | null;
           filter_tags?: string;
           id?: string;
           title?: string;
           total_pages?: number;
           user_id?: string;
+          version?: number;
         };
         Relationships: [
           {
@@ -186,22 +417,34 @@ export type Database = {
       };
       user_documents_vec: {
         Row: {
+          chunk_end: number | null;
+          chunk_index: number;
+          chunk_start: number | null;
           document_id: string;
           embedding: string | null;
+          fts: unknown | null;
           id: string;
           page_number: number;
           text_content: string;
         };
         Insert: {
+          chunk_end?: number | null;
+          chunk_index?: number;
+          chunk_start?: number | null;
           document_id: string;
           embedding?: string | null;
+          fts?: unknown | null;
           id?: string;
           page_number: number;
           text_content: string;
         };
         Update: {
+          chunk_end?: number | null;
+          chunk_index?: number;
+          chunk_start?: number | null;
           document_id?: string;
           embedding?: string | null;
+          fts?: unknown | null;
           id?: string;
           page_number?: number;
           text_content?: string;
@@ -216,6 +459,39 @@ export type Database = {
           }
         ];
       };
+      user_plans: {
+        Row: {
+          plan_id: string;
+          updated_at: string;
+          user_id: string;
+        };
+        Insert: {
+          plan_id: string;
+          updated_at?: string;
+          user_id: string;
+        };
+        Update: {
+          plan_id?: string;
+          updated_at?: string;
+          user_id?: string;
+        };
+        Relationships: [
+          {
+            foreignKeyName: 'user_plans_plan_id_fkey';
+            columns: ['plan_id'];
+            isOneToOne: false;
+            referencedRelation: 'usage_plans';
+            referencedColumns: ['id'];
+          },
+          {
+            foreignKeyName: 'user_plans_user_id_fkey';
+            columns: ['user_id'];
+            isOneToOne: true;
+            referencedRelation: 'users';
+            referencedColumns: ['id'];
+          }
+        ];
+      };
       users: {
         Row: {
           email: string;
@@ -239,6 +515,13 @@ export type Database = {
       [_ in never]: never;
     };
     Functions: {
+      get_token_usage: {
+        Args: {
+          p_user_id: string;
+          p_since: string;
+        };
+        Returns: number;
+      };
       list_objects: {
         Args: {
           bucketid: string;
@@ -274,10 +557,54 @@ export type Database = {
           ai_keyentities: string[];
           filter_tags: string;
           page_number: number;
+          chunk_index: number;
           total_pages: number;
+          version: number;
           similarity: number;
         }[];
       };
+      match_documents_fulltext: {
+        Args: {
+          query_text: string;
+          match_count: number;
+          filter_user_id: string;
+          filter_files: string[];
+        };
+        Returns: {
+          id: string;
+          text_content: string;
+          title: string;
+          doc_timestamp: string;
+          ai_title: string;
+          ai_description: string;
+          ai_maintopics: string[];
+          ai_keyentities: string[];
+          filter_tags: string;
+          page_number: number;
+          chunk_index: number;
+          total_pages: number;
+          version: number;
+          rank: number;
+        }[];
+      };
+      search_chat_history: {
+        Args: {
+          query_text: string;
+          filter_user_id: string;
+          match_count: number;
+          date_from?: string;
+          date_to?: string;
+        };
+        Returns: {
+          chat_session_id: string;
+          chat_title: string | null;
+          message_id: string | null;
+          is_user_message: boolean | null;
+          snippet: string;
+          created_at: string;
+          rank: number;
+        }[];
+      };
     };
     Enums: {
       [_ in never]: never;
@@ -0,0 +1,27 @@
+import { fileURLToPath } from 'node:url';
+import { defineConfig } from 'vitest/config';
+
+export default defineConfig({
+  resolve: {
+    alias: {
+      '@': fileURLToPath(new URL('.', import.meta.url))
+    }
+  },
+  test: {
+    environment: 'node',
+    include: ['**/*.test.ts'],
+    exclude: ['node_modules/**', '.next/**'],
+    server: {
+      deps: {
+        // server-only throws unless it's resolved with the react-server condition, like in Next.js
+        inline: ['server-only']
+      }
+    }
+  },
+  ssr: {
+    resolve: {
+      conditions: ['react-server'],
+      externalConditions: ['react-server']
+    }
+  }
+});